@@ -0,0 +1,74 @@
+import { getAuthHeader } from '@/shared/lib/react-query/errorHandling'
+
+const API_BASE = '/api/chat/attachments'
+
+/**
+ * An uploaded attachment, ready to be referenced from a message part
+ */
+export interface UploadedAttachment {
+  id: string
+  url?: string
+  name: string
+  mime_type: string
+  size: number
+}
+
+/**
+ * Service for attachment-related API operations
+ */
+export const attachmentService = {
+  /**
+   * Upload a file. XMLHttpRequest is used instead of fetch because only it
+   * reports upload progress; `onProgress` receives a percentage from 0 to 100.
+   */
+  uploadAttachment(
+    file: File,
+    onProgress?: (percent: number) => void,
+    signal?: AbortSignal
+  ): Promise<UploadedAttachment> {
+    return new Promise((resolve, reject) => {
+      const xhr = new XMLHttpRequest()
+      const formData = new FormData()
+      formData.append('file', file)
+
+      xhr.open('POST', API_BASE)
+
+      const authHeader = getAuthHeader() as Record<string, string>
+      if (authHeader.Authorization) {
+        xhr.setRequestHeader('Authorization', authHeader.Authorization)
+      }
+
+      xhr.upload.onprogress = event => {
+        if (event.lengthComputable) {
+          onProgress?.(Math.round((event.loaded / event.total) * 100))
+        }
+      }
+
+      xhr.onload = () => {
+        let body: { data?: UploadedAttachment; error?: string } = {}
+        try {
+          body = JSON.parse(xhr.responseText)
+        } catch (e) {
+          // Ignore parse errors
+        }
+
+        if (xhr.status >= 200 && xhr.status < 300 && body.data) {
+          resolve(body.data)
+        } else {
+          reject(new Error(body.error || 'Failed to upload attachment'))
+        }
+      }
+
+      xhr.onerror = () => reject(new Error('Network error while uploading attachment'))
+
+      xhr.onabort = () => reject(new DOMException('Aborted', 'AbortError'))
+
+      // Stop listening once the upload settles so long-lived signals don't keep the request
+      const abort = () => xhr.abort()
+      signal?.addEventListener('abort', abort)
+      xhr.onloadend = () => signal?.removeEventListener('abort', abort)
+
+      xhr.send(formData)
+    })
+  },
+}
@@ -2,11 +2,17 @@ import { apiClient } from './api-client'
 import { handleQueryError } from '@/shared/lib/react-query/errorHandling'
 import type {
   ConversationDetailResponse,
+  ConversationShare,
+  ConversationSearchResult,
   ConversationSummaryResponse,
   CreateConversationRequest,
+  CreateShareRequest,
+  ImportMessageRequest,
   Message,
   PostMessageRequest,
+  SharedConversation,
   StreamEvent,
+  UpdateConversationRequest,
 } from '@/features/chat/types/conversation'
 
 const API_BASE = '/api/chat/conversations'
@@ -105,7 +111,7 @@ export const conversationService = {
    */
   async updateConversation(
     id: string,
-    data: Partial<CreateConversationRequest>
+    data: UpdateConversationRequest
   ): Promise<ConversationSummaryResponse> {
     try {
       const response = await apiClient.patch<{
@@ -172,6 +178,128 @@ export const conversationService = {
     }
   },
 
+  /**
+   * Search the titles and messages of every conversation, grouped by conversation
+   */
+  async searchConversations(query: string, limit = 20): Promise<ConversationSearchResult[]> {
+    try {
+      const response = await apiClient.get<{
+        data: ConversationSearchResult[]
+        success: boolean
+      }>('/api/chat/search', {
+        params: { q: query, limit },
+      })
+
+      if (!response || !response.data) {
+        return []
+      }
+
+      return response.data
+    } catch (error) {
+      const apiError = handleQueryError(error)
+      throw apiError
+    }
+  },
+
+  /**
+   * Store messages imported from another app, keeping their parent links.
+   * Nothing is sent to the model.
+   */
+  async importMessages(
+    conversationId: string,
+    messages: ImportMessageRequest[]
+  ): Promise<Message[]> {
+    try {
+      const response = await apiClient.post<{ data: Message[]; success: boolean }>(
+        `${API_BASE}/${conversationId}/messages/import`,
+        { messages }
+      )
+
+      if (!response || !response.data) {
+        throw new Error('Invalid response format: missing message data')
+      }
+
+      return response.data
+    } catch (error) {
+      const apiError = handleQueryError(error)
+      throw apiError
+    }
+  },
+
+  /**
+   * Create a public read-only link to a conversation
+   */
+  async createShare(conversationId: string, data: CreateShareRequest): Promise<ConversationShare> {
+    try {
+      const response = await apiClient.post<{ data: ConversationShare; success: boolean }>(
+        `${API_BASE}/${conversationId}/shares`,
+        data
+      )
+
+      if (!response || !response.data) {
+        throw new Error('Invalid response format: missing share data')
+      }
+
+      return response.data
+    } catch (error) {
+      const apiError = handleQueryError(error)
+      throw apiError
+    }
+  },
+
+  /**
+   * Get the active share links of every conversation
+   */
+  async getShares(): Promise<ConversationShare[]> {
+    try {
+      const response = await apiClient.get<{ data: ConversationShare[]; success: boolean }>(
+        '/api/chat/shares'
+      )
+
+      if (!response || !response.data) {
+        return []
+      }
+
+      return response.data
+    } catch (error) {
+      const apiError = handleQueryError(error)
+      throw apiError
+    }
+  },
+
+  /**
+   * Revoke a share link
+   */
+  async revokeShare(token: string): Promise<void> {
+    try {
+      await apiClient.delete<{ success: boolean }>(`/api/chat/shares/${token}`)
+    } catch (error) {
+      const apiError = handleQueryError(error)
+      throw apiError
+    }
+  },
+
+  /**
+   * Get a conversation through its share link, without signing in
+   */
+  async getSharedConversation(token: string): Promise<SharedConversation> {
+    try {
+      const response = await apiClient.get<{ data: SharedConversation; success: boolean }>(
+        `/api/chat/shares/${token}`,
+        { withAuth: false, retries: 0 }
+      )
+
+      if (!response || !response.data) {
+        throw new Error('Invalid response format: missing conversation data')
+      }
+
+      return response.data
+    } catch (error) {
+      const apiError = handleQueryError(error)
+      throw apiError
+    }
+  },
+
   /**
    * Get messages for a conversation
    * @deprecated Use messageService.getMessages instead
@@ -1,4 +1,6 @@
 export * from './api-client'
+export * from './attachment-service'
 export * from './conversation-service'
 export * from './message-service'
 export * from './settings-service'
+export * from './sse-decoder'
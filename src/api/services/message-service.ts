@@ -1,4 +1,5 @@
 import { apiClient } from './api-client'
+import { SSEDecoder, toStreamEvent } from './sse-decoder'
 import type { Message, PostMessageRequest, StreamEvent } from '@/features/chat/types/conversation'
 import { getAuthHeader, StreamingError } from '@/shared/lib/react-query/errorHandling'
 
@@ -9,6 +10,285 @@ const API_BASE = '/api/chat/conversations'
  */
 const MAX_STREAM_RETRIES = 2
 
+/**
+ * Time without any data after which a started stream is considered stalled (in milliseconds)
+ */
+const STREAM_STALL_TIMEOUT = 30000
+
+/**
+ * Describes a streaming request so it can be retried or resumed
+ */
+interface StreamRequest {
+  conversationId: string
+  url: string
+  body: unknown
+  errorMessage: string
+}
+
+/**
+ * Read an SSE response body to the end, forwarding every decoded event.
+ * `onChunk` is called for each chunk received so callers can track stream activity.
+ */
+const readEventStream = async (
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  decoder: SSEDecoder,
+  onEvent: (event: StreamEvent) => void,
+  signal: AbortSignal | undefined,
+  onChunk: () => void
+): Promise<void> => {
+  while (true) {
+    if (signal?.aborted) {
+      throw new DOMException('Aborted', 'AbortError')
+    }
+
+    const { done, value } = await reader.read()
+
+    if (done) break
+
+    onChunk()
+
+    for (const message of decoder.decode(value)) {
+      onEvent(toStreamEvent(message))
+    }
+  }
+
+  // Dispatch anything completed by the final bytes
+  for (const message of decoder.end()) {
+    onEvent(toStreamEvent(message))
+  }
+}
+
+/**
+ * Open the stream connection. With a `lastEventId` the response that is already being
+ * generated is resumed via `Last-Event-ID`; otherwise the request itself is submitted.
+ */
+const openStream = (
+  request: StreamRequest,
+  signal: AbortSignal | undefined,
+  lastEventId: string
+): Promise<Response> => {
+  const authHeader = getAuthHeader() as Record<string, string>
+
+  if (lastEventId) {
+    return fetch(`${API_BASE}/${request.conversationId}/messages`, {
+      method: 'GET',
+      headers: {
+        Accept: 'text/event-stream',
+        'Last-Event-ID': lastEventId,
+        ...authHeader,
+      },
+      signal,
+    })
+  }
+
+  return fetch(request.url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...authHeader,
+    },
+    body: JSON.stringify(request.body),
+    signal,
+  })
+}
+
+/**
+ * Run a streaming request with retry capability.
+ *
+ * Dropped or stalled connections are resumed from the last event id received, so content
+ * that already streamed is kept and the message is not submitted twice. The original
+ * request is only repeated when nothing was received yet. A stream that breaks off after
+ * sending events without ids can't be resumed, so it is reported as an error instead.
+ */
+const runStream = async (
+  request: StreamRequest,
+  onEvent: (event: StreamEvent) => void,
+  signal: AbortSignal | undefined,
+  retryCount: number,
+  lastEventId: string
+): Promise<void> => {
+  /**
+   * Wait with exponential backoff, then reconnect
+   */
+  const retry = async (reason: string, resumeFrom: string) => {
+    const retryDelay = Math.min(1000 * 2 ** retryCount, 10000)
+
+    onEvent({
+      type: 'info',
+      message: `${reason} Retrying in ${retryDelay / 1000} seconds...`,
+    })
+
+    await new Promise(resolve => setTimeout(resolve, retryDelay))
+
+    return runStream(request, onEvent, signal, retryCount + 1, resumeFrom)
+  }
+
+  try {
+    // Notify that we're starting the request
+    if (retryCount === 0 && !lastEventId) {
+      onEvent({ type: 'message_start' })
+    } else if (retryCount > 0) {
+      onEvent({
+        type: 'info',
+        message: lastEventId
+          ? `Resuming stream (attempt ${retryCount}/${MAX_STREAM_RETRIES})...`
+          : `Retrying connection (attempt ${retryCount}/${MAX_STREAM_RETRIES})...`,
+      })
+    }
+
+    const response = await openStream(request, signal, lastEventId)
+
+    if (!response.ok) {
+      let errorMessage = request.errorMessage
+      const status = response.status
+      let details = ''
+
+      try {
+        const errorData = await response.json()
+        errorMessage = errorData.error || errorMessage
+        details = errorData.details || ''
+      } catch (e) {
+        // Ignore parse errors
+      }
+
+      // Determine if we should retry based on status code
+      const isRetryable = [408, 429, 500, 502, 503, 504].includes(status)
+
+      if (isRetryable && retryCount < MAX_STREAM_RETRIES) {
+        return retry('Connection error.', lastEventId)
+      }
+
+      // If we've exhausted retries or the error isn't retryable, report it
+      onEvent({
+        type: 'error',
+        error: errorMessage,
+        details,
+        status,
+      })
+      return
+    }
+
+    if (!response.body) {
+      throw new StreamingError('Response has no body', {
+        isRetryable: false,
+      })
+    }
+
+    const reader = response.body.getReader()
+    const decoder = new SSEDecoder()
+    // The last event id carries over to the resumed connection
+    decoder.lastEventId = lastEventId
+    let lastActivity = Date.now()
+    let messageStarted = false
+    let stalled = false
+    // Whether the server sent anything, and whether it finished the response
+    let received = false
+    let finished = false
+
+    // Set up a heartbeat to detect stalled connections
+    const heartbeatInterval = setInterval(() => {
+      const inactiveTime = Date.now() - lastActivity
+
+      // If no activity for a while and we've started receiving a message,
+      // consider the connection stalled and let the read loop end
+      if (inactiveTime > STREAM_STALL_TIMEOUT && messageStarted) {
+        stalled = true
+        clearInterval(heartbeatInterval)
+        reader.cancel('Connection timeout')
+      }
+    }, 5000)
+
+    try {
+      await readEventStream(
+        reader,
+        decoder,
+        event => {
+          received = true
+          if (['message_end', 'message_cancelled', 'error'].includes(event.type)) {
+            finished = true
+          }
+          onEvent(event)
+        },
+        signal,
+        () => {
+          // Update last activity timestamp and mark that we've started receiving the message
+          lastActivity = Date.now()
+          messageStarted = true
+        }
+      )
+
+      // Clean up the heartbeat
+      clearInterval(heartbeatInterval)
+
+      if (stalled) {
+        throw new StreamingError('Connection stalled', { code: 'STREAM_TIMEOUT' })
+      }
+
+      // A body that closes before the server ends the message was cut off
+      if (!finished) {
+        throw new StreamingError('Stream ended before the response was complete', {
+          code: 'STREAM_INTERRUPTED',
+        })
+      }
+    } catch (error) {
+      // Clean up the heartbeat
+      clearInterval(heartbeatInterval)
+
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        // Aborted by user, don't send error event
+        onEvent({ type: 'message_cancelled' })
+        return
+      }
+
+      // Without an event id to resume from, retrying would submit the message again
+      // and append a second answer to the one already streamed
+      if (received && !decoder.lastEventId) {
+        onEvent({
+          type: 'error',
+          error: 'The connection was lost before the response was complete',
+          code: 'STREAM_NOT_RESUMABLE',
+        })
+        return
+      }
+
+      // For other errors, check if we should retry
+      if (retryCount < MAX_STREAM_RETRIES) {
+        return retry(
+          stalled ? 'Connection stalled.' : 'Connection interrupted.',
+          decoder.lastEventId
+        )
+      }
+
+      // If we've exhausted retries, report the error
+      onEvent(
+        stalled
+          ? {
+              type: 'error',
+              error: 'Connection timed out after multiple attempts',
+              code: 'STREAM_TIMEOUT',
+            }
+          : {
+              type: 'error',
+              error: error instanceof Error ? error.message : 'Unknown error during streaming',
+              code: 'STREAM_INTERRUPTED',
+            }
+      )
+    }
+  } catch (error) {
+    // Handle any errors that occur outside the streaming process
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      onEvent({ type: 'message_cancelled' })
+      return
+    }
+
+    onEvent({
+      type: 'error',
+      error: error instanceof Error ? error.message : 'Failed to establish streaming connection',
+      code: 'STREAM_CONNECTION_ERROR',
+    })
+  }
+}
+
 /**
  * Service for message-related API operations
  */
@@ -50,6 +330,26 @@ export const messageService = {
     }
   },
 
+  /**
+   * Get the messages of a conversation, throwing when they can't be loaded rather than
+   * resolving with none, e.g. for exports that must report conversations they miss
+   */
+  async fetchMessages(conversationId: string): Promise<Message[]> {
+    if (!conversationId || conversationId === 'undefined') {
+      throw new Error('Invalid conversation ID')
+    }
+
+    const response = await apiClient.get<{ data: { messages: Message[] }; success: boolean }>(
+      `${API_BASE}/${conversationId}`
+    )
+
+    if (!response?.data?.messages) {
+      throw new Error('Invalid response format: missing messages')
+    }
+
+    return response.data.messages
+  },
+
   /**
    * Send a message in a conversation
    */
@@ -93,219 +393,41 @@ export const messageService = {
     signal?: AbortSignal,
     retryCount = 0
   ): Promise<void> {
-    try {
-      // Notify that we're starting the request
-      if (retryCount === 0) {
-        onEvent({ type: 'message_start' })
-      } else {
-        onEvent({
-          type: 'info',
-          message: `Retrying connection (attempt ${retryCount}/${MAX_STREAM_RETRIES})...`,
-        })
-      }
-
-      const authHeader = getAuthHeader()
-      const headers: HeadersInit = {
-        'Content-Type': 'application/json',
-        ...(authHeader as Record<string, string>),
-      }
-
-      const response = await fetch(`${API_BASE}/${conversationId}/messages`, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(data),
-        signal,
-      })
-
-      if (!response.ok) {
-        let errorMessage = 'Failed to send message'
-        const status = response.status
-        let details = ''
-
-        try {
-          const errorData = await response.json()
-          errorMessage = errorData.error || errorMessage
-          details = errorData.details || ''
-        } catch (e) {
-          // Ignore parse errors
-        }
-
-        // Determine if we should retry based on status code
-        const isRetryable = [408, 429, 500, 502, 503, 504].includes(status)
-
-        if (isRetryable && retryCount < MAX_STREAM_RETRIES) {
-          // Wait before retrying (exponential backoff)
-          const retryDelay = Math.min(1000 * 2 ** retryCount, 10000)
-
-          onEvent({
-            type: 'info',
-            message: `Connection error. Retrying in ${retryDelay / 1000} seconds...`,
-          })
-
-          await new Promise(resolve => setTimeout(resolve, retryDelay))
-
-          // Retry the request
-          return this.sendMessageStream(conversationId, data, onEvent, signal, retryCount + 1)
-        }
-
-        // If we've exhausted retries or the error isn't retryable, report it
-        onEvent({
-          type: 'error',
-          error: errorMessage,
-          details,
-          status,
-        })
-        return
-      }
-
-      if (!response.body) {
-        throw new StreamingError('Response has no body', {
-          isRetryable: false,
-        })
-      }
-
-      const reader = response.body.getReader()
-      const decoder = new TextDecoder()
-      let buffer = ''
-      let lastActivity = Date.now()
-      let messageStarted = false
-
-      // Set up a heartbeat to detect stalled connections
-      const heartbeatInterval = setInterval(() => {
-        const inactiveTime = Date.now() - lastActivity
-
-        // If no activity for 30 seconds and we've started receiving a message,
-        // consider the connection stalled
-        if (inactiveTime > 30000 && messageStarted) {
-          clearInterval(heartbeatInterval)
-          reader.cancel('Connection timeout')
-
-          if (retryCount < MAX_STREAM_RETRIES) {
-            onEvent({
-              type: 'info',
-              message: 'Connection stalled. Reconnecting...',
-            })
-
-            // Retry the request
-            this.sendMessageStream(conversationId, data, onEvent, signal, retryCount + 1)
-          } else {
-            onEvent({
-              type: 'error',
-              error: 'Connection timed out after multiple attempts',
-              code: 'STREAM_TIMEOUT',
-            })
-          }
-        }
-      }, 5000)
-
-      try {
-        while (true) {
-          if (signal?.aborted) {
-            throw new DOMException('Aborted', 'AbortError')
-          }
-
-          const { done, value } = await reader.read()
-
-          // Update last activity timestamp
-          lastActivity = Date.now()
-
-          if (done) break
-
-          // If this is the first chunk, mark that we've started receiving the message
-          if (!messageStarted) {
-            messageStarted = true
-          }
-
-          buffer += decoder.decode(value, { stream: true })
-          const lines = buffer.split('\n')
-          buffer = lines.pop() || ''
-
-          for (const line of lines) {
-            if (line.trim() === '') continue
-
-            try {
-              let event: StreamEvent
-
-              if (line.startsWith('data: ')) {
-                event = JSON.parse(line.slice(6)) as StreamEvent
-              } else {
-                event = JSON.parse(line) as StreamEvent
-              }
-
-              onEvent(event)
-            } catch (e) {
-              console.error('Error parsing SSE event:', e)
-            }
-          }
-        }
-
-        // Process any remaining data
-        if (buffer.trim() !== '') {
-          try {
-            let event: StreamEvent
-
-            if (buffer.startsWith('data: ')) {
-              event = JSON.parse(buffer.slice(6)) as StreamEvent
-            } else {
-              event = JSON.parse(buffer) as StreamEvent
-            }
-
-            onEvent(event)
-          } catch (e) {
-            console.error('Error parsing final SSE event:', e)
-          }
-        }
-
-        // Clean up the heartbeat
-        clearInterval(heartbeatInterval)
-
-        // Signal that the message is complete
-        onEvent({ type: 'message_end' })
-      } catch (error) {
-        // Clean up the heartbeat
-        clearInterval(heartbeatInterval)
-
-        if (error instanceof DOMException && error.name === 'AbortError') {
-          // Aborted by user, don't send error event
-          onEvent({ type: 'message_cancelled' })
-          return
-        }
-
-        // For other errors, check if we should retry
-        if (retryCount < MAX_STREAM_RETRIES) {
-          const retryDelay = Math.min(1000 * 2 ** retryCount, 10000)
-
-          onEvent({
-            type: 'info',
-            message: `Connection interrupted. Retrying in ${retryDelay / 1000} seconds...`,
-          })
-
-          await new Promise(resolve => setTimeout(resolve, retryDelay))
-
-          // Retry the request
-          return this.sendMessageStream(conversationId, data, onEvent, signal, retryCount + 1)
-        }
-
-        // If we've exhausted retries, report the error
-        onEvent({
-          type: 'error',
-          error: error instanceof Error ? error.message : 'Unknown error during streaming',
-          code: 'STREAM_INTERRUPTED',
-        })
-      }
-    } catch (error) {
-      // Handle any errors that occur outside the streaming process
-      if (error instanceof DOMException && error.name === 'AbortError') {
-        onEvent({ type: 'message_cancelled' })
-        return
-      }
+    return runStream(
+      {
+        conversationId,
+        url: `${API_BASE}/${conversationId}/messages`,
+        body: data,
+        errorMessage: 'Failed to send message',
+      },
+      onEvent,
+      signal,
+      retryCount,
+      ''
+    )
+  },
 
-      onEvent({
-        type: 'error',
-        error: error instanceof Error ? error.message : 'Failed to establish streaming connection',
-        code: 'STREAM_CONNECTION_ERROR',
-      })
-    }
+  /**
+   * Resume an interrupted streaming response from the last event id received
+   */
+  async resumeMessageStream(
+    conversationId: string,
+    lastEventId: string,
+    onEvent: (event: StreamEvent) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    return runStream(
+      {
+        conversationId,
+        url: `${API_BASE}/${conversationId}/messages`,
+        body: undefined,
+        errorMessage: 'Failed to resume message stream',
+      },
+      onEvent,
+      signal,
+      0,
+      lastEventId
+    )
   },
 
   /**
@@ -358,243 +480,17 @@ export const messageService = {
     signal?: AbortSignal,
     retryCount = 0
   ): Promise<void> {
-    try {
-      // Notify that we're starting the request
-      if (retryCount === 0) {
-        onEvent({ type: 'message_start' })
-      } else {
-        onEvent({
-          type: 'info',
-          message: `Retrying connection (attempt ${retryCount}/${MAX_STREAM_RETRIES})...`,
-        })
-      }
-
-      const authHeader = getAuthHeader()
-      const headers: HeadersInit = {
-        'Content-Type': 'application/json',
-        ...(authHeader as Record<string, string>),
-      }
-
-      const response = await fetch(
-        `${API_BASE}/${conversationId}/messages/${messageId}/regenerate`,
-        {
-          method: 'POST',
-          headers,
-          body: JSON.stringify(data),
-          signal,
-        }
-      )
-
-      if (!response.ok) {
-        let errorMessage = 'Failed to regenerate message'
-        const status = response.status
-        let details = ''
-
-        try {
-          const errorData = await response.json()
-          errorMessage = errorData.error || errorMessage
-          details = errorData.details || ''
-        } catch (e) {
-          // Ignore parse errors
-        }
-
-        // Determine if we should retry based on status code
-        const isRetryable = [408, 429, 500, 502, 503, 504].includes(status)
-
-        if (isRetryable && retryCount < MAX_STREAM_RETRIES) {
-          // Wait before retrying (exponential backoff)
-          const retryDelay = Math.min(1000 * 2 ** retryCount, 10000)
-
-          onEvent({
-            type: 'info',
-            message: `Connection error. Retrying in ${retryDelay / 1000} seconds...`,
-          })
-
-          await new Promise(resolve => setTimeout(resolve, retryDelay))
-
-          // Retry the request
-          return this.regenerateMessageStream(
-            conversationId,
-            messageId,
-            data,
-            onEvent,
-            signal,
-            retryCount + 1
-          )
-        }
-
-        // If we've exhausted retries or the error isn't retryable, report it
-        onEvent({
-          type: 'error',
-          error: errorMessage,
-          details,
-          status,
-        })
-        return
-      }
-
-      // Use the same streaming logic as sendMessageStream
-      if (!response.body) {
-        throw new StreamingError('Response has no body', {
-          isRetryable: false,
-        })
-      }
-
-      const reader = response.body.getReader()
-      const decoder = new TextDecoder()
-      let buffer = ''
-      let lastActivity = Date.now()
-      let messageStarted = false
-
-      // Set up a heartbeat to detect stalled connections
-      const heartbeatInterval = setInterval(() => {
-        const inactiveTime = Date.now() - lastActivity
-
-        // If no activity for 30 seconds and we've started receiving a message,
-        // consider the connection stalled
-        if (inactiveTime > 30000 && messageStarted) {
-          clearInterval(heartbeatInterval)
-          reader.cancel('Connection timeout')
-
-          if (retryCount < MAX_STREAM_RETRIES) {
-            onEvent({
-              type: 'info',
-              message: 'Connection stalled. Reconnecting...',
-            })
-
-            // Retry the request
-            this.regenerateMessageStream(
-              conversationId,
-              messageId,
-              data,
-              onEvent,
-              signal,
-              retryCount + 1
-            )
-          } else {
-            onEvent({
-              type: 'error',
-              error: 'Connection timed out after multiple attempts',
-              code: 'STREAM_TIMEOUT',
-            })
-          }
-        }
-      }, 5000)
-
-      try {
-        while (true) {
-          if (signal?.aborted) {
-            throw new DOMException('Aborted', 'AbortError')
-          }
-
-          const { done, value } = await reader.read()
-
-          // Update last activity timestamp
-          lastActivity = Date.now()
-
-          if (done) break
-
-          // If this is the first chunk, mark that we've started receiving the message
-          if (!messageStarted) {
-            messageStarted = true
-          }
-
-          buffer += decoder.decode(value, { stream: true })
-          const lines = buffer.split('\n')
-          buffer = lines.pop() || ''
-
-          for (const line of lines) {
-            if (line.trim() === '') continue
-
-            try {
-              let event: StreamEvent
-
-              if (line.startsWith('data: ')) {
-                event = JSON.parse(line.slice(6)) as StreamEvent
-              } else {
-                event = JSON.parse(line) as StreamEvent
-              }
-
-              onEvent(event)
-            } catch (e) {
-              console.error('Error parsing SSE event:', e)
-            }
-          }
-        }
-
-        // Process any remaining data
-        if (buffer.trim() !== '') {
-          try {
-            let event: StreamEvent
-
-            if (buffer.startsWith('data: ')) {
-              event = JSON.parse(buffer.slice(6)) as StreamEvent
-            } else {
-              event = JSON.parse(buffer) as StreamEvent
-            }
-
-            onEvent(event)
-          } catch (e) {
-            console.error('Error parsing final SSE event:', e)
-          }
-        }
-
-        // Clean up the heartbeat
-        clearInterval(heartbeatInterval)
-
-        // Signal that the message is complete
-        onEvent({ type: 'message_end' })
-      } catch (error) {
-        // Clean up the heartbeat
-        clearInterval(heartbeatInterval)
-
-        if (error instanceof DOMException && error.name === 'AbortError') {
-          // Aborted by user, don't send error event
-          onEvent({ type: 'message_cancelled' })
-          return
-        }
-
-        // For other errors, check if we should retry
-        if (retryCount < MAX_STREAM_RETRIES) {
-          const retryDelay = Math.min(1000 * 2 ** retryCount, 10000)
-
-          onEvent({
-            type: 'info',
-            message: `Connection interrupted. Retrying in ${retryDelay / 1000} seconds...`,
-          })
-
-          await new Promise(resolve => setTimeout(resolve, retryDelay))
-
-          // Retry the request
-          return this.regenerateMessageStream(
-            conversationId,
-            messageId,
-            data,
-            onEvent,
-            signal,
-            retryCount + 1
-          )
-        }
-
-        // If we've exhausted retries, report the error
-        onEvent({
-          type: 'error',
-          error: error instanceof Error ? error.message : 'Unknown error during streaming',
-          code: 'STREAM_INTERRUPTED',
-        })
-      }
-    } catch (error) {
-      // Handle any errors that occur outside the streaming process
-      if (error instanceof DOMException && error.name === 'AbortError') {
-        onEvent({ type: 'message_cancelled' })
-        return
-      }
-
-      onEvent({
-        type: 'error',
-        error: error instanceof Error ? error.message : 'Failed to establish streaming connection',
-        code: 'STREAM_CONNECTION_ERROR',
-      })
-    }
+    return runStream(
+      {
+        conversationId,
+        url: `${API_BASE}/${conversationId}/messages/${messageId}/regenerate`,
+        body: data,
+        errorMessage: 'Failed to regenerate message',
+      },
+      onEvent,
+      signal,
+      retryCount,
+      ''
+    )
   },
 }
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest'
+import { SSEDecoder, toStreamEvent, type ServerSentEvent } from './sse-decoder'
+
+const encoder = new TextEncoder()
+
+/**
+ * Decode a whole stream fed in the given chunks
+ */
+const decodeAll = (chunks: (string | Uint8Array)[]): ServerSentEvent[] => {
+  const decoder = new SSEDecoder()
+  return [...chunks.flatMap(chunk => decoder.decode(chunk)), ...decoder.end()]
+}
+
+const message = (data: string, id = ''): ServerSentEvent => ({ event: 'message', data, id })
+
+describe('SSEDecoder', () => {
+  it('decodes events separated by blank lines', () => {
+    expect(decodeAll(['data: {"a":1}\n\ndata: {"b":2}\n\n'])).toEqual([
+      message('{"a":1}'),
+      message('{"b":2}'),
+    ])
+  })
+
+  it('joins multi-line data and reads event and id fields', () => {
+    expect(decodeAll(['event: delta\nid: 7\ndata: one\ndata: two\n\n'])).toEqual([
+      { event: 'delta', data: 'one\ntwo', id: '7' },
+    ])
+  })
+
+  it('accepts CRLF and lone CR line breaks', () => {
+    expect(decodeAll(['data: a\r\n\r\ndata: b\r\rdata: c\n\n'])).toEqual([
+      message('a'),
+      message('b'),
+      message('c'),
+    ])
+  })
+
+  it('gives the same events whatever the chunk boundaries', () => {
+    const stream = 'id: 1\r\ndata: {"type":"content_delta","data":"héllo"}\r\n\r\n: ping\n\n'
+    const bytes = encoder.encode(stream)
+    const expected = decodeAll([stream])
+
+    for (let split = 1; split < bytes.length; split++) {
+      expect(decodeAll([bytes.slice(0, split), bytes.slice(split)])).toEqual(expected)
+    }
+  })
+
+  it('keeps the last event id across events and ignores ids with NULL', () => {
+    const decoder = new SSEDecoder()
+    decoder.decode('id: 3\ndata: a\n\ndata: b\n\nid: x\0y\ndata: c\n\n')
+    expect(decoder.lastEventId).toBe('3')
+  })
+
+  it('skips comments and reads the retry field', () => {
+    const decoder = new SSEDecoder()
+    expect(decoder.decode(': keep-alive\nretry: 1500\n\n')).toEqual([])
+    expect(decoder.retry).toBe(1500)
+  })
+
+  it('drops an event that is never terminated', () => {
+    expect(decodeAll(['data: a\n\ndata: b'])).toEqual([message('a')])
+  })
+
+  it('reads newline-delimited JSON lines as events', () => {
+    expect(decodeAll(['{"type":"content_delta","data":"a"}\n{"type":"message_end"}'])).toEqual([
+      message('{"type":"content_delta","data":"a"}'),
+      message('{"type":"message_end"}'),
+    ])
+  })
+})
+
+describe('toStreamEvent', () => {
+  it('types a valid frame and carries the event id', () => {
+    expect(toStreamEvent(message('{"type":"content_delta","data":"hi"}', '4'))).toEqual({
+      type: 'content_delta',
+      data: 'hi',
+      id: '4',
+    })
+  })
+
+  it('falls back to the SSE event name for the type', () => {
+    expect(
+      toStreamEvent({ event: 'message_start', data: '{"data":{"message_id":"m1"}}', id: '' })
+    ).toEqual({
+      type: 'message_start',
+      data: { message_id: 'm1', user_message_id: undefined },
+      id: undefined,
+    })
+  })
+
+  it('reads tool calls and drops fields of the wrong type', () => {
+    const event = toStreamEvent(
+      message('{"type":"tool_call_result","data":{"id":"t1","status":"failed","error_message":3}}')
+    )
+    expect(event).toEqual({
+      type: 'tool_call_result',
+      data: { id: 't1', status: 'failed', output: undefined, error_message: undefined },
+      id: undefined,
+    })
+  })
+
+  it.each([
+    ['invalid JSON', '{"type":'],
+    ['a JSON array', '[1, 2]'],
+    ['no type', '{"data":"x"}'],
+    ['an unknown type', '{"type":"teleport"}'],
+    ['missing data', '{"type":"tool_call_delta"}'],
+    ['data of the wrong shape', '{"type":"tool_call_delta","data":{"id":1,"delta":"x"}}'],
+    ['a non-string delta', '{"type":"content_delta","data":{"text":"x"}}'],
+    ['an unknown tool status', '{"type":"tool_call_result","data":{"id":"t","status":"done"}}'],
+  ])('turns a frame with %s into a frame_error', (_case, data) => {
+    expect(toStreamEvent(message(data))).toMatchObject({
+      type: 'frame_error',
+      code: 'STREAM_MALFORMED_FRAME',
+      details: data,
+    })
+  })
+
+  it('reads error messages sent as objects', () => {
+    expect(toStreamEvent(message('{"type":"error","error":{"message":"Rate limited"}}'))).toEqual(
+      expect.objectContaining({ type: 'error', error: 'Rate limited' })
+    )
+  })
+})
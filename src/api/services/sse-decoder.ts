@@ -0,0 +1,382 @@
+import type { MessageUsage, StreamEvent, Tool } from '@/features/chat/types/conversation'
+
+/**
+ * A single event dispatched by an event stream, as defined by the EventSource spec
+ */
+export interface ServerSentEvent {
+  event: string
+  data: string
+  id: string
+}
+
+/**
+ * Line terminators allowed by the spec: CRLF, LF or a lone CR
+ */
+const LINE_BREAK = /\r\n|\r|\n/g
+
+/**
+ * Whether a line is a newline-delimited JSON frame rather than an SSE field
+ */
+const isJsonLine = (line: string): boolean => line.trimStart().startsWith('{')
+
+/**
+ * Incremental decoder for `text/event-stream` bodies.
+ *
+ * Follows the EventSource parsing rules: comment lines, `event`, `data`, `id` and `retry`
+ * fields, multi-line `data` and all three line terminators. Bytes can be fed in arbitrary
+ * chunks, so recorded streams can be replayed split at any boundary.
+ *
+ * Unlike EventSource, a line holding a bare JSON object is also an event of its own,
+ * so backends that stream newline-delimited JSON keep working.
+ */
+export class SSEDecoder {
+  private textDecoder = new TextDecoder()
+  private buffer = ''
+  private pendingCarriageReturn = false
+  private eventType = ''
+  private data = ''
+
+  /**
+   * The last event ID seen on the stream, kept across events as the spec requires
+   */
+  lastEventId = ''
+
+  /**
+   * Reconnection time in milliseconds requested by the server, if any
+   */
+  retry?: number
+
+  /**
+   * Decode a chunk of the stream and return the events it completed
+   */
+  decode(chunk: Uint8Array | string): ServerSentEvent[] {
+    const text =
+      typeof chunk === 'string' ? chunk : this.textDecoder.decode(chunk, { stream: true })
+    return this.feed(text)
+  }
+
+  /**
+   * Signal the end of the stream. Returns any event completed by the remaining bytes;
+   * an event that was never terminated by a blank line is discarded.
+   */
+  end(): ServerSentEvent[] {
+    const events = this.feed(this.textDecoder.decode())
+
+    // The last line of a JSON stream may not end with a line break
+    if (isJsonLine(this.buffer)) {
+      events.push(this.jsonLineEvent(this.buffer))
+    }
+
+    this.buffer = ''
+    this.pendingCarriageReturn = false
+    this.eventType = ''
+    this.data = ''
+
+    return events
+  }
+
+  private feed(text: string): ServerSentEvent[] {
+    const events: ServerSentEvent[] = []
+
+    // A CR at the end of the previous chunk may be the first half of a CRLF
+    if (this.pendingCarriageReturn && text.startsWith('\n')) {
+      text = text.slice(1)
+    }
+    this.pendingCarriageReturn = false
+    this.buffer += text
+
+    let lineStart = 0
+    let match: RegExpExecArray | null
+    LINE_BREAK.lastIndex = 0
+
+    while ((match = LINE_BREAK.exec(this.buffer)) !== null) {
+      const line = this.buffer.slice(lineStart, match.index)
+      lineStart = match.index + match[0].length
+
+      if (match[0] === '\r' && lineStart === this.buffer.length) {
+        this.pendingCarriageReturn = true
+      }
+
+      const event = this.processLine(line)
+      if (event) {
+        events.push(event)
+      }
+    }
+
+    this.buffer = this.buffer.slice(lineStart)
+    return events
+  }
+
+  private processLine(line: string): ServerSentEvent | null {
+    if (line === '') {
+      return this.dispatch()
+    }
+
+    // Comment lines are used as keep-alives
+    if (line.startsWith(':')) {
+      return null
+    }
+
+    if (isJsonLine(line)) {
+      return this.jsonLineEvent(line)
+    }
+
+    const colonIndex = line.indexOf(':')
+    const field = colonIndex === -1 ? line : line.slice(0, colonIndex)
+    let value = colonIndex === -1 ? '' : line.slice(colonIndex + 1)
+    if (value.startsWith(' ')) {
+      value = value.slice(1)
+    }
+
+    switch (field) {
+      case 'event':
+        this.eventType = value
+        break
+      case 'data':
+        this.data += `${value}\n`
+        break
+      case 'id':
+        if (!value.includes('\0')) {
+          this.lastEventId = value
+        }
+        break
+      case 'retry':
+        if (/^\d+$/.test(value)) {
+          this.retry = parseInt(value, 10)
+        }
+        break
+      default:
+        // Unknown fields are ignored
+        break
+    }
+
+    return null
+  }
+
+  private jsonLineEvent(line: string): ServerSentEvent {
+    return { event: 'message', data: line.trim(), id: this.lastEventId }
+  }
+
+  private dispatch(): ServerSentEvent | null {
+    const data = this.data
+    const eventType = this.eventType
+
+    this.data = ''
+    this.eventType = ''
+
+    if (data === '') {
+      return null
+    }
+
+    return {
+      event: eventType || 'message',
+      data: data.slice(0, -1),
+      id: this.lastEventId,
+    }
+  }
+}
+
+type Fields = Record<string, unknown>
+
+const isRecord = (value: unknown): value is Fields =>
+  !!value && typeof value === 'object' && !Array.isArray(value)
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' ? value : undefined
+
+const optionalNumber = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined
+
+const readUsage = (value: Fields): MessageUsage => ({
+  input_tokens: optionalNumber(value.input_tokens),
+  output_tokens: optionalNumber(value.output_tokens),
+  input_cost: optionalNumber(value.input_cost),
+  output_cost: optionalNumber(value.output_cost),
+})
+
+/**
+ * Read the tool sent with a tool call. Tools without an id and name are dropped,
+ * the call itself is still shown.
+ */
+const readTool = (value: unknown): Tool | undefined => {
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.name !== 'string') {
+    return undefined
+  }
+
+  return {
+    id: value.id,
+    name: value.name,
+    display_name: optionalString(value.display_name) ?? value.name,
+    description: optionalString(value.description) ?? '',
+    parameters_schema: isRecord(value.parameters_schema) ? value.parameters_schema : {},
+    is_active: typeof value.is_active === 'boolean' ? value.is_active : true,
+    created_at: optionalString(value.created_at) ?? '',
+    updated_at: optionalString(value.updated_at) ?? '',
+  }
+}
+
+/**
+ * Check the payload of a frame against its event type. Returns the typed event,
+ * or why the payload doesn't fit.
+ */
+const readEvent = (type: string, record: Fields): StreamEvent | string => {
+  const data = record.data
+  const invalid = `Stream frame has an invalid ${type} payload`
+
+  switch (type) {
+    case 'message_start':
+      if (data == null) return { type }
+      if (!isRecord(data)) return invalid
+      return {
+        type,
+        data: {
+          message_id: optionalString(data.message_id),
+          user_message_id: optionalString(data.user_message_id),
+        },
+      }
+
+    case 'content_delta':
+    case 'reasoning_delta':
+      if (typeof data !== 'string') return invalid
+      return { type, data }
+
+    case 'message_end':
+      if (record.usage != null && !isRecord(record.usage)) return invalid
+      return { type, data, usage: isRecord(record.usage) ? readUsage(record.usage) : undefined }
+
+    case 'usage':
+      if (!isRecord(data)) return invalid
+      return { type, data: readUsage(data) }
+
+    case 'message_cancelled':
+      return { type }
+
+    case 'info':
+      if (typeof record.message !== 'string') return invalid
+      return { type, message: record.message }
+
+    case 'error': {
+      // Some backends send the error as an object with a message
+      const error = isRecord(record.error) ? record.error.message : record.error
+      if (typeof error !== 'string') return invalid
+      return {
+        type,
+        error,
+        details: optionalString(record.details),
+        status: optionalNumber(record.status),
+        code: optionalString(record.code),
+      }
+    }
+
+    case 'tool_call_start':
+      if (
+        !isRecord(data) ||
+        typeof data.id !== 'string' ||
+        typeof data.tool_id !== 'string' ||
+        !isRecord(data.input)
+      ) {
+        return invalid
+      }
+      return {
+        type,
+        data: { id: data.id, tool_id: data.tool_id, input: data.input, tool: readTool(data.tool) },
+      }
+
+    case 'tool_call_delta':
+    case 'artifact_delta':
+      if (!isRecord(data) || typeof data.id !== 'string' || typeof data.delta !== 'string') {
+        return invalid
+      }
+      return { type, data: { id: data.id, delta: data.delta } }
+
+    case 'tool_call_result':
+      if (
+        !isRecord(data) ||
+        typeof data.id !== 'string' ||
+        (data.status !== 'completed' && data.status !== 'failed') ||
+        (data.output != null && !isRecord(data.output))
+      ) {
+        return invalid
+      }
+      return {
+        type,
+        data: {
+          id: data.id,
+          status: data.status,
+          output: isRecord(data.output) ? data.output : undefined,
+          error_message: optionalString(data.error_message),
+        },
+      }
+
+    case 'artifact_start':
+      if (
+        !isRecord(data) ||
+        typeof data.id !== 'string' ||
+        typeof data.type !== 'string' ||
+        typeof data.title !== 'string'
+      ) {
+        return invalid
+      }
+      return {
+        type,
+        data: {
+          id: data.id,
+          type: data.type,
+          title: data.title,
+          language: optionalString(data.language),
+        },
+      }
+
+    case 'artifact_end':
+      if (!isRecord(data) || typeof data.id !== 'string') return invalid
+      return { type, data: { id: data.id, content: optionalString(data.content) } }
+
+    default:
+      return `Unknown stream event type "${type}"`
+  }
+}
+
+/**
+ * Convert a server-sent event into a typed stream event.
+ *
+ * The payload is expected to be a JSON object; its `type` falls back to the SSE `event`
+ * field, and its fields are checked against that type. Frames that cannot be decoded
+ * become `frame_error` events carrying the raw data, so callers can report them without
+ * aborting the stream.
+ */
+export const toStreamEvent = (message: ServerSentEvent): StreamEvent => {
+  const id = message.id || undefined
+  const frameError = (error: string): StreamEvent => ({
+    type: 'frame_error',
+    error,
+    details: message.data,
+    code: 'STREAM_MALFORMED_FRAME',
+    id,
+  })
+
+  let payload: unknown
+
+  try {
+    payload = JSON.parse(message.data)
+  } catch (error) {
+    return frameError(error instanceof Error ? error.message : 'Invalid JSON in stream frame')
+  }
+
+  if (!isRecord(payload)) {
+    return frameError('Stream frame is not a JSON object')
+  }
+
+  const type =
+    typeof payload.type === 'string'
+      ? payload.type
+      : message.event !== 'message'
+        ? message.event
+        : undefined
+
+  if (!type) {
+    return frameError('Stream frame has no event type')
+  }
+
+  const event = readEvent(type, payload)
+  return typeof event === 'string' ? frameError(event) : { ...event, id }
+}
@@ -0,0 +1,2 @@
+// Export attachment API handlers
+export * from './route'
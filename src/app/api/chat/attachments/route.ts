@@ -0,0 +1,31 @@
+import { type NextRequest, NextResponse } from 'next/server'
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData()
+    const api_url = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8080/api/v1'
+    const token = request.headers.get('Authorization')
+
+    // Let fetch set the multipart boundary itself
+    const backendResponse = await fetch(`${api_url}/attachments`, {
+      method: 'POST',
+      headers: {
+        Authorization: token || '',
+      },
+      body: formData,
+    })
+
+    const data = await backendResponse.json()
+
+    if (!backendResponse.ok) {
+      return NextResponse.json(
+        { error: data.error?.message || 'Failed to upload attachment' },
+        { status: backendResponse.status }
+      )
+    }
+
+    return NextResponse.json(data)
+  } catch (_error) {
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,2 @@
+// Export archive API handlers
+export * from './route'
@@ -4,4 +4,10 @@
 export const routes = {
   conversation: '/api/chat/conversations/:id',
   messages: '/api/chat/conversations/:id/messages',
+  message: '/api/chat/conversations/:id/messages/:messageId',
+  regenerate: '/api/chat/conversations/:id/messages/:messageId/regenerate',
+  importMessages: '/api/chat/conversations/:id/messages/import',
+  archive: '/api/chat/conversations/:id/archive',
+  restore: '/api/chat/conversations/:id/restore',
+  shares: '/api/chat/conversations/:id/shares',
 }
@@ -0,0 +1,2 @@
+// Export message API handlers
+export * from './route'
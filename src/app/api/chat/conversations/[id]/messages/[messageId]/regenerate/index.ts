@@ -0,0 +1,2 @@
+// Export regenerate API handlers
+export * from './route'
@@ -0,0 +1,44 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { isEventStream, proxyEventStream } from '../../event-stream'
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; messageId: string }> }
+) {
+  try {
+    const body = await request.json()
+    const api_url = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8080/api/v1'
+    const token = request.headers.get('Authorization')
+    const { id, messageId } = await context.params
+
+    const backendResponse = await fetch(
+      `${api_url}/conversations/${id}/messages/${messageId}/regenerate`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: token || '',
+        },
+        body: JSON.stringify(body),
+      }
+    )
+
+    if (!backendResponse.ok) {
+      const errorData = await backendResponse.json()
+      return NextResponse.json(
+        { error: errorData.error?.message || 'Failed to regenerate message' },
+        { status: backendResponse.status }
+      )
+    }
+
+    // Stream the regenerated response when the backend sends SSE
+    if (isEventStream(backendResponse)) {
+      return proxyEventStream(backendResponse)
+    }
+
+    const data = await backendResponse.json()
+    return NextResponse.json(data)
+  } catch (_error) {
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 })
+  }
+}
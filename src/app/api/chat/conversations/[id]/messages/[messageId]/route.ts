@@ -0,0 +1,32 @@
+import { type NextRequest, NextResponse } from 'next/server'
+
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; messageId: string }> }
+) {
+  try {
+    const api_url = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8080/api/v1'
+    const token = request.headers.get('Authorization')
+    const { id, messageId } = await context.params
+
+    const backendResponse = await fetch(`${api_url}/conversations/${id}/messages/${messageId}`, {
+      method: 'DELETE',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: token || '',
+      },
+    })
+
+    if (!backendResponse.ok) {
+      const data = await backendResponse.json()
+      return NextResponse.json(
+        { error: data.error?.message || 'Failed to delete message' },
+        { status: backendResponse.status }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (_error) {
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 })
+  }
+}
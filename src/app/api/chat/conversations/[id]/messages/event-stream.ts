@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server'
+
+/**
+ * Whether the backend answered with a server-sent event stream
+ */
+export function isEventStream(backendResponse: Response) {
+  return !!backendResponse.headers.get('content-type')?.includes('text/event-stream')
+}
+
+/**
+ * Forward a backend SSE response to the client chunk by chunk
+ */
+export function proxyEventStream(backendResponse: Response) {
+  // Create a new ReadableStream to handle SSE
+  const stream = new ReadableStream({
+    start(controller) {
+      const reader = backendResponse.body?.getReader()
+      if (!reader) {
+        controller.close()
+        return
+      }
+
+      const handleRead = () => {
+        reader
+          .read()
+          .then(({ done, value }) => {
+            if (done) {
+              controller.close()
+              return
+            }
+
+            // Forward the chunk from backend to frontend
+            controller.enqueue(value)
+            handleRead()
+          })
+          .catch(error => {
+            console.error('Stream read error:', error)
+            controller.error(error)
+          })
+      }
+
+      handleRead()
+    },
+  })
+
+  // Return SSE response
+  return new NextResponse(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    },
+  })
+}
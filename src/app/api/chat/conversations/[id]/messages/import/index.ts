@@ -0,0 +1,2 @@
+// Export message import API handlers
+export * from './route'
@@ -0,0 +1,35 @@
+import { type NextRequest, NextResponse } from 'next/server'
+
+/**
+ * Store a tree of messages from another app as they are, without generating replies
+ */
+export async function POST(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  try {
+    const body = await request.json()
+    const api_url = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8080/api/v1'
+    const token = request.headers.get('Authorization')
+    const { id } = await context.params
+
+    const backendResponse = await fetch(`${api_url}/conversations/${id}/messages/import`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: token || '',
+      },
+      body: JSON.stringify(body),
+    })
+
+    const data = await backendResponse.json()
+
+    if (!backendResponse.ok) {
+      return NextResponse.json(
+        { error: data.error?.message || 'Failed to import messages' },
+        { status: backendResponse.status }
+      )
+    }
+
+    return NextResponse.json(data)
+  } catch (_error) {
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 })
+  }
+}
@@ -1,4 +1,5 @@
 import { type NextRequest, NextResponse } from 'next/server'
+import { isEventStream, proxyEventStream } from './event-stream'
 
 export async function GET(request: NextRequest, context: { params: Promise<{ id: string }> }) {
   try {
@@ -11,6 +12,9 @@ export async function GET(request: NextRequest, context: { params: Promise<{ id:
     const limit = searchParams.get('limit') || '50'
     const offset = searchParams.get('offset') || '0'
 
+    // A Last-Event-ID header resumes an in-progress response stream
+    const lastEventId = request.headers.get('Last-Event-ID')
+
     const backendResponse = await fetch(
       `${api_url}/conversations/${id}/messages?limit=${limit}&offset=${offset}`,
       {
@@ -18,10 +22,15 @@ export async function GET(request: NextRequest, context: { params: Promise<{ id:
         headers: {
           'Content-Type': 'application/json',
           Authorization: token || '',
+          ...(lastEventId ? { Accept: 'text/event-stream', 'Last-Event-ID': lastEventId } : {}),
         },
       }
     )
 
+    if (isEventStream(backendResponse)) {
+      return proxyEventStream(backendResponse)
+    }
+
     const data = await backendResponse.json()
 
     if (!backendResponse.ok) {
@@ -43,12 +52,14 @@ export async function POST(request: NextRequest, context: { params: Promise<{ id
     const api_url = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8080/api/v1'
     const token = request.headers.get('Authorization')
     const { id } = await context.params
+    const lastEventId = request.headers.get('Last-Event-ID')
 
     const backendResponse = await fetch(`${api_url}/conversations/${id}/messages`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
         Authorization: token || '',
+        ...(lastEventId ? { 'Last-Event-ID': lastEventId } : {}),
       },
       body: JSON.stringify(body),
     })
@@ -62,48 +73,8 @@ export async function POST(request: NextRequest, context: { params: Promise<{ id
     }
 
     // Check if the backend response is streaming (SSE)
-    const contentType = backendResponse.headers.get('content-type')
-    if (contentType?.includes('text/event-stream')) {
-      // Create a new ReadableStream to handle SSE
-      const stream = new ReadableStream({
-        start(controller) {
-          const reader = backendResponse.body?.getReader()
-          if (!reader) {
-            controller.close()
-            return
-          }
-
-          const handleRead = () => {
-            reader
-              .read()
-              .then(({ done, value }) => {
-                if (done) {
-                  controller.close()
-                  return
-                }
-
-                // Forward the chunk from backend to frontend
-                controller.enqueue(value)
-                handleRead()
-              })
-              .catch(error => {
-                console.error('Stream read error:', error)
-                controller.error(error)
-              })
-          }
-
-          handleRead()
-        },
-      })
-
-      // Return SSE response
-      return new NextResponse(stream, {
-        headers: {
-          'Content-Type': 'text/event-stream',
-          'Cache-Control': 'no-cache',
-          Connection: 'keep-alive',
-        },
-      })
+    if (isEventStream(backendResponse)) {
+      return proxyEventStream(backendResponse)
     }
 
     // If not streaming, return regular JSON response
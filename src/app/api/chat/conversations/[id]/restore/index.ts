@@ -0,0 +1,2 @@
+// Export restore API handlers
+export * from './route'
@@ -60,6 +60,40 @@ export async function PUT(request: NextRequest, context: { params: Promise<{ id:
   }
 }
 
+/**
+ * Update conversation settings and metadata such as the folder, tags and pin
+ */
+export async function PATCH(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  try {
+    const body = await request.json()
+    const api_url = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8080/api/v1'
+    const token = request.headers.get('Authorization')
+    const { id } = await context.params
+
+    const backendResponse = await fetch(`${api_url}/conversations/${id}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: token || '',
+      },
+      body: JSON.stringify(body),
+    })
+
+    const data = await backendResponse.json()
+
+    if (!backendResponse.ok) {
+      return NextResponse.json(
+        { error: data.error?.message || 'Failed to update conversation' },
+        { status: backendResponse.status }
+      )
+    }
+
+    return NextResponse.json(data)
+  } catch (_error) {
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 })
+  }
+}
+
 export async function DELETE(request: NextRequest, context: { params: Promise<{ id: string }> }) {
   try {
     const api_url = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8080/api/v1'
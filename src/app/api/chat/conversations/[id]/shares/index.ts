@@ -0,0 +1,2 @@
+// Export conversation share API handlers
+export * from './route'
@@ -7,19 +7,24 @@ export async function GET(request: NextRequest) {
 
     // Get pagination parameters
     const { searchParams } = new URL(request.url)
-    const limit = searchParams.get('limit') || '20'
-    const offset = searchParams.get('offset') || '0'
+    const params = new URLSearchParams({
+      limit: searchParams.get('limit') || '20',
+      offset: searchParams.get('offset') || '0',
+    })
+
+    // Pass on filters and sorting, e.g. is_active=false for archived conversations
+    for (const key of ['is_active', 'sort_by', 'sort_order']) {
+      const value = searchParams.get(key)
+      if (value) params.set(key, value)
+    }
 
-    const backendResponse = await fetch(
-      `${api_url}/conversations?limit=${limit}&offset=${offset}`,
-      {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: token || '',
-        },
-      }
-    )
+    const backendResponse = await fetch(`${api_url}/conversations?${params}`, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: token || '',
+      },
+    })
 
     const data = await backendResponse.json()
 
@@ -0,0 +1,2 @@
+// Export search API handlers
+export * from './route'
@@ -0,0 +1,89 @@
+import { createSnippet, getSearchTerms, matchesSearchTerms } from '@/features/chat/lib/search-utils'
+import type {
+  ConversationDetailResponse,
+  ConversationSearchResult,
+  ConversationSummaryResponse,
+} from '@/features/chat/types/conversation'
+
+/**
+ * Most recent conversations scanned when the backend has no search endpoint. Each one
+ * is a request to the backend, so the scan stays small.
+ */
+const MAX_SCANNED_CONVERSATIONS = 40
+const PAGE_SIZE = 20
+
+/**
+ * Conversations loaded at the same time while scanning
+ */
+const CONCURRENCY = 5
+
+/**
+ * Search by loading the user's conversations from the backend and matching them
+ * here. It stands in for a backend without search, so only recent conversations
+ * are covered.
+ */
+export async function searchLocally(
+  api_url: string,
+  token: string | null,
+  query: string,
+  limit: number
+): Promise<ConversationSearchResult[]> {
+  const terms = getSearchTerms(query)
+  const headers = { 'Content-Type': 'application/json', Authorization: token || '' }
+
+  const getJson = async <T>(url: string): Promise<T> => {
+    const response = await fetch(url, { method: 'GET', headers })
+    if (!response.ok) {
+      throw new Error(`Request to ${url} failed with status ${response.status}`)
+    }
+    const body = await response.json()
+    return body.data
+  }
+
+  const summaries: ConversationSummaryResponse[] = []
+  for (let offset = 0; offset < MAX_SCANNED_CONVERSATIONS; offset += PAGE_SIZE) {
+    const page = await getJson<ConversationSummaryResponse[]>(
+      `${api_url}/conversations?limit=${PAGE_SIZE}&offset=${offset}`
+    )
+    summaries.push(...(page || []))
+    if (!page || page.length < PAGE_SIZE) break
+  }
+
+  const results: ConversationSearchResult[] = []
+
+  for (let index = 0; index < summaries.length && results.length < limit; index += CONCURRENCY) {
+    // A conversation that fails to load is skipped rather than failing the whole search
+    const settled = await Promise.allSettled(
+      summaries
+        .slice(index, index + CONCURRENCY)
+        .map(summary =>
+          getJson<ConversationDetailResponse>(`${api_url}/conversations/${summary.id}`)
+        )
+    )
+
+    settled.forEach((result, offset) => {
+      if (result.status === 'rejected') return
+
+      const conversation = result.value
+      const matches = (conversation.messages || [])
+        .filter(message => matchesSearchTerms(message.content, terms))
+        .map(message => ({
+          message_id: message.id,
+          role: message.role,
+          snippet: createSnippet(message.content, terms),
+          created_at: message.created_at,
+        }))
+
+      if (matches.length > 0 || matchesSearchTerms(conversation.title, terms)) {
+        results.push({
+          conversation_id: conversation.id,
+          title: conversation.title,
+          last_message_at: summaries[index + offset].last_message_at,
+          matches,
+        })
+      }
+    })
+  }
+
+  return results.slice(0, limit)
+}
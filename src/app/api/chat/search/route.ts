@@ -0,0 +1,63 @@
+import { type NextRequest, NextResponse } from 'next/server'
+import { searchLocally } from './local-search'
+
+/**
+ * Statuses meaning the backend has no search endpoint, rather than a failed search
+ */
+const SEARCH_UNAVAILABLE_STATUSES = [404, 405, 501]
+
+const DEFAULT_LIMIT = 20
+const MAX_LIMIT = 50
+
+/**
+ * Read the `limit` parameter as a whole number between 1 and MAX_LIMIT
+ */
+const parseLimit = (value: string | null): number => {
+  const limit = Number.parseInt(value ?? '', 10)
+  return Number.isNaN(limit) ? DEFAULT_LIMIT : Math.min(Math.max(limit, 1), MAX_LIMIT)
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const api_url = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8080/api/v1'
+    const token = request.headers.get('Authorization')
+
+    const { searchParams } = new URL(request.url)
+    const query = searchParams.get('q')?.trim() || ''
+    const limit = parseLimit(searchParams.get('limit'))
+
+    if (!query) {
+      return NextResponse.json({ data: [], success: true })
+    }
+
+    const backendResponse = await fetch(
+      `${api_url}/search?${new URLSearchParams({ q: query, limit: String(limit) })}`,
+      {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: token || '',
+        },
+      }
+    )
+
+    // Fall back to searching here when the backend can't
+    if (SEARCH_UNAVAILABLE_STATUSES.includes(backendResponse.status)) {
+      const results = await searchLocally(api_url, token, query, limit)
+      return NextResponse.json({ data: results, success: true })
+    }
+
+    const data = await backendResponse.json()
+
+    if (!backendResponse.ok) {
+      return NextResponse.json(
+        { error: data.error?.message || 'Failed to search conversations' },
+        { status: backendResponse.status }
+      )
+    }
+
+    return NextResponse.json(data)
+  } catch (_error) {
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,65 @@
+import { type NextRequest, NextResponse } from 'next/server'
+
+/**
+ * Get a shared conversation. Public, so no Authorization header is forwarded.
+ */
+export async function GET(_request: NextRequest, context: { params: Promise<{ token: string }> }) {
+  try {
+    const api_url = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8080/api/v1'
+    const { token } = await context.params
+
+    const backendResponse = await fetch(`${api_url}/public/shares/${token}`, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    })
+
+    const data = await backendResponse.json()
+
+    if (!backendResponse.ok) {
+      return NextResponse.json(
+        { error: data.error?.message || 'Failed to fetch shared conversation' },
+        { status: backendResponse.status }
+      )
+    }
+
+    return NextResponse.json(data)
+  } catch (_error) {
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 })
+  }
+}
+
+/**
+ * Revoke a share link so it stops working
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ token: string }> }
+) {
+  try {
+    const api_url = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8080/api/v1'
+    const authToken = request.headers.get('Authorization')
+    const { token } = await context.params
+
+    const backendResponse = await fetch(`${api_url}/shares/${token}`, {
+      method: 'DELETE',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: authToken || '',
+      },
+    })
+
+    if (!backendResponse.ok) {
+      const data = await backendResponse.json()
+      return NextResponse.json(
+        { error: data.error?.message || 'Failed to revoke share link' },
+        { status: backendResponse.status }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (_error) {
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 })
+  }
+}
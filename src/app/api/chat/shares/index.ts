@@ -0,0 +1,2 @@
+// Export share API handlers
+export * from './route'
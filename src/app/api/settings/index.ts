@@ -4,4 +4,5 @@
 export const routes = {
   profile: '/api/settings/profile',
   providers: '/api/settings/providers',
+  providerModels: '/api/settings/providers/:id/models',
 }
@@ -0,0 +1,2 @@
+// Export provider models API handlers
+export * from './route'
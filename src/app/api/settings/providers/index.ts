@@ -2,5 +2,6 @@
 // Using named exports to avoid ambiguity
 import { GET as getProviders } from './route'
 import { GET as getProviderSettings, POST as updateProviderSettings } from './settings'
+import { GET as getProviderModels } from './[id]/models'
 
-export { getProviders, getProviderSettings, updateProviderSettings }
+export { getProviders, getProviderSettings, updateProviderSettings, getProviderModels }
@@ -0,0 +1,27 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import { ChatLayout } from '@/features/chat/components/layout'
+import { ChatHeader } from '@/features/chat/components/chat'
+import { ArchivedConversations } from '@/features/chat/components/archive'
+import { SidebarInset } from '@/shared/ui/sidebar'
+import type { ConversationSummaryResponse } from '@/features/chat/types/conversation'
+
+const ArchivedConversationsPage = () => {
+  const router = useRouter()
+
+  const handleConversationSelect = (conversation: ConversationSummaryResponse) => {
+    router.push(`/chat/${conversation.id}`)
+  }
+
+  return (
+    <ChatLayout currentConversationId={undefined} onConversationSelect={handleConversationSelect}>
+      <SidebarInset className="flex flex-col">
+        <ChatHeader title="Archived Conversations" showModelSelector={false} />
+        <ArchivedConversations />
+      </SidebarInset>
+    </ChatLayout>
+  )
+}
+
+export default ArchivedConversationsPage
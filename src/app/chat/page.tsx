@@ -16,7 +16,7 @@ import type {
 
 const ChatPage = () => {
   const router = useRouter()
-  const { selectedModel, loading: modelsLoading } = useProviders()
+  const { defaultModel, loading: modelsLoading } = useProviders()
   const [isCreating, setIsCreating] = useState(false)
 
   // Use our new useChat hook without a conversationId for creating new conversations
@@ -27,15 +27,15 @@ const ChatPage = () => {
   }
 
   const handleNewConversation = async (initialMessage?: string) => {
-    if (!selectedModel || isCreating) return
+    if (!defaultModel || isCreating) return
 
     setIsCreating(true)
 
     try {
       const newConversationData: CreateConversationRequest = {
         title: 'New Conversation',
-        model_name: selectedModel.name
-          ? `${selectedModel.provider_name || ''}/${selectedModel.name}`
+        model_name: defaultModel.name
+          ? `${defaultModel.provider_name || ''}/${defaultModel.name}`
           : undefined,
       }
 
@@ -59,7 +59,7 @@ const ChatPage = () => {
   }
 
   const handleSendMessage = (content: string) => {
-    if (content.trim() && selectedModel) {
+    if (content.trim() && defaultModel) {
       handleNewConversation(content.trim())
     }
   }
@@ -74,10 +74,8 @@ const ChatPage = () => {
       {/* Message Input */}
       <MessageInput
         conversationId="new"
-        disabled={!selectedModel || modelsLoading || isCreating}
-        placeholder={
-          !selectedModel ? 'Please select a model first...' : 'Type your message here...'
-        }
+        disabled={!defaultModel || modelsLoading || isCreating}
+        placeholder={!defaultModel ? 'Please select a model first...' : 'Type your message here...'}
         onStreamEvent={(event: import('@/features/chat/types/conversation').StreamEvent) => {
           if (event.type === 'content_delta' && typeof event.data === 'string') {
             handleSendMessage(event.data)
@@ -0,0 +1,5 @@
+import { ImportPage } from '@/features/settings/components/import'
+
+export default function ImportRoute() {
+  return <ImportPage />
+}
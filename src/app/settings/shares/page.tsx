@@ -0,0 +1,5 @@
+import { SharesPage } from '@/features/settings/components/shares'
+
+export default function SharesRoute() {
+  return <SharesPage />
+}
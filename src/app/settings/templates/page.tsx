@@ -0,0 +1,5 @@
+import { TemplatesPage } from '@/features/settings/components/templates'
+
+export default function TemplatesRoute() {
+  return <TemplatesPage />
+}
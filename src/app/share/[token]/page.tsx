@@ -0,0 +1,13 @@
+'use client'
+
+import { useParams } from 'next/navigation'
+import { SharedConversationView } from '@/features/chat/components/share'
+
+const SharedConversationPage = () => {
+  const params = useParams()
+  const token = params.token as string
+
+  return <SharedConversationView token={token} />
+}
+
+export default SharedConversationPage
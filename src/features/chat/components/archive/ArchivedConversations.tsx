@@ -0,0 +1,276 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import { AlertCircle, ArchiveRestore, Loader2, Search, Trash2 } from 'lucide-react'
+import { Button } from '@/shared/ui/button'
+import { Checkbox } from '@/shared/ui/checkbox'
+import { Input } from '@/shared/ui/input'
+import { Alert, AlertDescription } from '@/shared/ui/alert'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/shared/ui/alert-dialog'
+import { conversationService } from '@/api/services/conversation-service'
+import {
+  conversationKeys,
+  useArchivedConversations,
+  useDeleteConversation,
+  useRestoreConversation,
+} from '@/features/chat/queries/useConversation'
+
+const plural = (count: number) => `${count} conversation${count === 1 ? '' : 's'}`
+
+/**
+ * List of archived conversations with search, and restore or delete for one
+ * or several at once
+ */
+const ArchivedConversations = () => {
+  const queryClient = useQueryClient()
+  const { data: conversations = [], isLoading, isError, refetch } = useArchivedConversations()
+  const restoreConversation = useRestoreConversation()
+  const deleteConversation = useDeleteConversation()
+
+  const [searchQuery, setSearchQuery] = useState('')
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [pendingDeleteIds, setPendingDeleteIds] = useState<string[] | null>(null)
+  const [isWorking, setIsWorking] = useState(false)
+
+  const query = searchQuery.trim().toLowerCase()
+  const filteredConversations = conversations.filter(
+    conversation => !query || conversation.title.toLowerCase().includes(query)
+  )
+
+  // Only act on selected conversations that are still listed
+  const selected = filteredConversations.filter(conversation => selectedIds.has(conversation.id))
+  const allSelected =
+    filteredConversations.length > 0 && selected.length === filteredConversations.length
+
+  const toggleConversation = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
+  const toggleAll = () => {
+    setSelectedIds(
+      allSelected ? new Set() : new Set(filteredConversations.map(conversation => conversation.id))
+    )
+  }
+
+  /**
+   * Run an action on each conversation, then report how many succeeded
+   */
+  async function runBulk(
+    ids: string[],
+    action: (id: string) => Promise<unknown>,
+    verb: 'Restored' | 'Deleted'
+  ) {
+    setIsWorking(true)
+    const results = await Promise.allSettled(ids.map(id => action(id)))
+    const failed = results.filter(result => result.status === 'rejected').length
+
+    queryClient.invalidateQueries({ queryKey: conversationKeys.lists() })
+    queryClient.invalidateQueries({ queryKey: conversationKeys.archived() })
+    setSelectedIds(new Set())
+    setIsWorking(false)
+
+    if (failed === 0) {
+      toast.success(`${verb} ${plural(ids.length)}`)
+    } else {
+      toast.error(`${verb} ${ids.length - failed} of ${plural(ids.length)}`, {
+        description: `${failed} failed. Please try again later.`,
+      })
+    }
+  }
+
+  const handleRestore = (ids: string[]) => {
+    if (ids.length === 1) {
+      restoreConversation.mutate(ids[0], {
+        onSuccess: () => toast.success('Conversation restored'),
+        onError: () =>
+          toast.error('Failed to restore conversation', {
+            description: 'Please try again later.',
+          }),
+      })
+      return
+    }
+    runBulk(ids, id => conversationService.restoreConversation(id), 'Restored')
+  }
+
+  const handleConfirmDelete = () => {
+    const ids = pendingDeleteIds ?? []
+    setPendingDeleteIds(null)
+
+    if (ids.length === 1) {
+      deleteConversation.mutate(ids[0], {
+        onSuccess: () => toast.success('Conversation deleted successfully'),
+        onError: () =>
+          toast.error('Failed to delete conversation', {
+            description: 'Please try again later.',
+          }),
+      })
+      return
+    }
+    runBulk(ids, id => conversationService.deleteConversation(id), 'Deleted')
+  }
+
+  return (
+    <div className="flex-1 overflow-y-auto">
+      <div className="mx-auto max-w-3xl space-y-6 px-6 py-6">
+        <p className="text-muted-foreground">
+          Archived conversations are hidden from the sidebar. Restore them to pick up where you left
+          off.
+        </p>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 size-4 text-muted-foreground" />
+          <Input
+            placeholder="Search archived conversations..."
+            value={searchQuery}
+            onChange={e => setSearchQuery(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12 text-sm text-muted-foreground">
+            <Loader2 className="size-4 animate-spin mr-2" />
+            Loading archived conversations...
+          </div>
+        ) : isError ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription className="flex items-center justify-between">
+              <span>Failed to load archived conversations</span>
+              <Button variant="outline" size="sm" onClick={() => refetch()} className="ml-2">
+                Retry
+              </Button>
+            </AlertDescription>
+          </Alert>
+        ) : conversations.length === 0 ? (
+          <p className="py-12 text-center text-muted-foreground">No archived conversations</p>
+        ) : filteredConversations.length === 0 ? (
+          <p className="py-12 text-center text-muted-foreground">
+            No archived conversations match &quot;{searchQuery}&quot;
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {/* Bulk actions */}
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox checked={allSelected} onCheckedChange={toggleAll} disabled={isWorking} />
+                {selected.length > 0 ? `${selected.length} selected` : 'Select all'}
+              </label>
+              <div className="flex items-center gap-2">
+                {isWorking && <Loader2 className="size-4 animate-spin text-muted-foreground" />}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRestore(selected.map(conversation => conversation.id))}
+                  disabled={selected.length === 0 || isWorking}
+                >
+                  <ArchiveRestore className="size-4" />
+                  Restore
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="text-destructive hover:text-destructive"
+                  onClick={() => setPendingDeleteIds(selected.map(conversation => conversation.id))}
+                  disabled={selected.length === 0 || isWorking}
+                >
+                  <Trash2 className="size-4" />
+                  Delete
+                </Button>
+              </div>
+            </div>
+
+            <ul className="divide-y rounded-md border">
+              {filteredConversations.map(conversation => (
+                <li key={conversation.id} className="flex items-center gap-3 px-3 py-2">
+                  <Checkbox
+                    checked={selectedIds.has(conversation.id)}
+                    onCheckedChange={() => toggleConversation(conversation.id)}
+                    disabled={isWorking}
+                    aria-label={`Select ${conversation.title}`}
+                  />
+                  <div className="min-w-0 flex-1">
+                    <Link
+                      href={`/chat/${conversation.id}`}
+                      className="block truncate text-sm font-medium hover:underline"
+                    >
+                      {conversation.title}
+                    </Link>
+                    {conversation.last_message_at && (
+                      <p className="text-xs text-muted-foreground">
+                        Last message {new Date(conversation.last_message_at).toLocaleDateString()}
+                      </p>
+                    )}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="size-8"
+                    onClick={() => handleRestore([conversation.id])}
+                    disabled={isWorking}
+                    aria-label={`Restore ${conversation.title}`}
+                  >
+                    <ArchiveRestore className="size-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="size-8 text-destructive hover:text-destructive"
+                    onClick={() => setPendingDeleteIds([conversation.id])}
+                    disabled={isWorking}
+                    aria-label={`Delete ${conversation.title}`}
+                  >
+                    <Trash2 className="size-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+
+      <AlertDialog
+        open={!!pendingDeleteIds}
+        onOpenChange={open => !open && setPendingDeleteIds(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Conversations</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to permanently delete {plural(pendingDeleteIds?.length ?? 0)}?
+              This action cannot be undone and will remove all of their messages.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmDelete} className="bg-destructive">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
+
+export default ArchivedConversations
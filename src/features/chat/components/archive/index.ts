@@ -0,0 +1 @@
+export { default as ArchivedConversations } from './ArchivedConversations'
@@ -0,0 +1,57 @@
+'use client'
+
+import { ChevronRight, Loader2 } from 'lucide-react'
+import { cn } from '@/shared/lib/utils'
+import type { Artifact } from '@/features/chat/types/conversation'
+import { useArtifactPanel } from './ArtifactPanelProvider'
+import { getArtifactIcon } from './ArtifactPanel'
+
+/**
+ * Props for the ArtifactButton component
+ *
+ * @property artifact - The artifact this button opens
+ * @property className - Additional CSS classes to apply
+ */
+interface ArtifactButtonProps {
+  artifact: Artifact
+  className?: string
+}
+
+/**
+ * A compact reference to an artifact shown in the message flow.
+ * Clicking it opens the artifact in the side panel.
+ */
+const ArtifactButton = ({ artifact, className = '' }: ArtifactButtonProps) => {
+  const { openArtifact } = useArtifactPanel()
+  const Icon = getArtifactIcon(artifact.type)
+
+  return (
+    <button
+      type="button"
+      onClick={() => openArtifact(artifact.id)}
+      className={cn(
+        'flex w-full max-w-sm items-center gap-3 rounded-md border border-border bg-muted/30 px-3 py-2 text-left text-sm transition-colors hover:bg-muted',
+        className
+      )}
+      aria-label={`Open artifact ${artifact.title}`}
+    >
+      <Icon className="size-4 shrink-0 text-muted-foreground" aria-hidden="true" />
+      <span className="min-w-0 flex-1">
+        <span className="block truncate font-medium">{artifact.title}</span>
+        <span className="block text-xs text-muted-foreground">
+          {artifact.is_streaming ? 'Generating...' : artifact.language || artifact.type}
+        </span>
+      </span>
+      {artifact.is_streaming ? (
+        <Loader2
+          className="size-4 shrink-0 animate-spin text-muted-foreground"
+          aria-hidden="true"
+        />
+      ) : (
+        <ChevronRight className="size-4 shrink-0 text-muted-foreground" aria-hidden="true" />
+      )}
+    </button>
+  )
+}
+
+export default ArtifactButton
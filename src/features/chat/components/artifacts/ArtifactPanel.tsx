@@ -0,0 +1,228 @@
+'use client'
+
+import { ArrowLeft, Code2, FileText, Globe, Loader2, X } from 'lucide-react'
+import { Button } from '@/shared/ui/button'
+import { ScrollArea } from '@/shared/ui/scroll-area'
+import { Sheet, SheetContent, SheetDescription, SheetTitle } from '@/shared/ui/sheet'
+import { useIsMobile } from '@/shared/hooks/use-mobile'
+import { cn } from '@/shared/lib/utils'
+import { collectArtifacts } from '@/features/chat/lib/artifact-utils'
+import { useMessages } from '@/features/chat/queries/useMessage'
+import type { Artifact } from '@/features/chat/types/conversation'
+import { ARTIFACT_PANEL_MIN_WIDTH, useArtifactPanel } from './ArtifactPanelProvider'
+import ArtifactViewer from './ArtifactViewer'
+
+/**
+ * Props for the ArtifactPanel component
+ *
+ * @property conversationId - The conversation whose artifacts are listed
+ * @property className - Additional CSS classes to apply
+ */
+interface ArtifactPanelProps {
+  conversationId?: string
+  className?: string
+}
+
+/**
+ * Largest share of the window the panel can take when resized
+ */
+const MAX_WIDTH_RATIO = 0.7
+
+/**
+ * Step used when resizing the panel with the keyboard
+ */
+const KEYBOARD_RESIZE_STEP = 32
+
+/**
+ * Icon for each artifact type
+ */
+export const getArtifactIcon = (type: Artifact['type']) => {
+  if (type === 'code') return Code2
+  if (type === 'html') return Globe
+  return FileText
+}
+
+/**
+ * The list of artifacts, or the selected artifact with a way back to the list
+ */
+const ArtifactPanelBody = ({ artifacts }: { artifacts: Artifact[] }) => {
+  const { selectedArtifactId, selectArtifact } = useArtifactPanel()
+  const selectedArtifact = artifacts.find(artifact => artifact.id === selectedArtifactId)
+
+  if (selectedArtifact) {
+    return (
+      <div className="flex flex-1 min-h-0 flex-col">
+        <div className="flex items-center gap-2 border-b border-border px-2 py-1.5">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="size-8 shrink-0"
+            onClick={() => selectArtifact(null)}
+            aria-label="Back to all artifacts"
+          >
+            <ArrowLeft className="size-4" />
+          </Button>
+          <span className="truncate text-sm font-medium">{selectedArtifact.title}</span>
+        </div>
+        <ArtifactViewer artifact={selectedArtifact} className="flex-1" />
+      </div>
+    )
+  }
+
+  if (artifacts.length === 0) {
+    return (
+      <div className="flex flex-1 items-center justify-center p-6 text-center text-sm text-muted-foreground">
+        Code, documents and pages generated in this conversation will appear here.
+      </div>
+    )
+  }
+
+  return (
+    <ScrollArea className="flex-1 min-h-0">
+      <ul className="space-y-1 p-2">
+        {artifacts.map(artifact => {
+          const Icon = getArtifactIcon(artifact.type)
+
+          return (
+            <li key={artifact.id}>
+              <button
+                type="button"
+                onClick={() => selectArtifact(artifact.id)}
+                className="flex w-full items-center gap-3 rounded-md px-3 py-2 text-left hover:bg-muted"
+              >
+                <Icon className="size-4 shrink-0 text-muted-foreground" aria-hidden="true" />
+                <span className="min-w-0 flex-1">
+                  <span className="block truncate text-sm font-medium">{artifact.title}</span>
+                  <span className="block text-xs text-muted-foreground">
+                    {artifact.language || artifact.type}
+                  </span>
+                </span>
+                {artifact.is_streaming && (
+                  <Loader2
+                    className="size-4 shrink-0 animate-spin text-muted-foreground"
+                    aria-label="Generating"
+                  />
+                )}
+              </button>
+            </li>
+          )
+        })}
+      </ul>
+    </ScrollArea>
+  )
+}
+
+/**
+ * Side panel listing every artifact in the conversation and showing the selected one.
+ *
+ * On desktop the panel sits next to the chat and can be resized by dragging its left
+ * edge or with the arrow keys; the width is remembered. On mobile it opens as a sheet.
+ */
+const ArtifactPanel = ({ conversationId, className = '' }: ArtifactPanelProps) => {
+  const isMobile = useIsMobile()
+  const { isOpen, closePanel, width, setWidth, streamingArtifacts } = useArtifactPanel()
+  const { data: messages = [] } = useMessages(conversationId || '')
+  const artifacts = collectArtifacts(messages, streamingArtifacts)
+
+  const getMaxWidth = () => window.innerWidth * MAX_WIDTH_RATIO
+
+  const handleResizeStart = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.preventDefault()
+
+    const handlePointerMove = (moveEvent: PointerEvent) => {
+      setWidth(Math.min(window.innerWidth - moveEvent.clientX, getMaxWidth()))
+    }
+
+    const handlePointerUp = () => {
+      document.body.style.removeProperty('cursor')
+      document.body.style.removeProperty('user-select')
+      window.removeEventListener('pointermove', handlePointerMove)
+      window.removeEventListener('pointerup', handlePointerUp)
+    }
+
+    // Keep the resize cursor and avoid selecting text while dragging
+    document.body.style.cursor = 'col-resize'
+    document.body.style.userSelect = 'none'
+    window.addEventListener('pointermove', handlePointerMove)
+    window.addEventListener('pointerup', handlePointerUp)
+  }
+
+  const handleResizeKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'ArrowLeft') {
+      e.preventDefault()
+      setWidth(Math.min(width + KEYBOARD_RESIZE_STEP, getMaxWidth()))
+    } else if (e.key === 'ArrowRight') {
+      e.preventDefault()
+      setWidth(width - KEYBOARD_RESIZE_STEP)
+    }
+  }
+
+  const header = (
+    <div className="flex items-center justify-between border-b border-border px-4 py-3">
+      <div>
+        <h2 className="text-sm font-semibold">Artifacts</h2>
+        <p className="text-xs text-muted-foreground">
+          {artifacts.length} {artifacts.length === 1 ? 'artifact' : 'artifacts'}
+        </p>
+      </div>
+      {!isMobile && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="size-8"
+          onClick={closePanel}
+          aria-label="Close artifacts panel"
+        >
+          <X className="size-4" />
+        </Button>
+      )}
+    </div>
+  )
+
+  if (isMobile) {
+    return (
+      <Sheet open={isOpen} onOpenChange={open => !open && closePanel()}>
+        <SheetContent side="right" className="w-full gap-0 p-0 sm:max-w-full">
+          <SheetTitle className="sr-only">Artifacts</SheetTitle>
+          <SheetDescription className="sr-only">
+            Artifacts generated in this conversation
+          </SheetDescription>
+          {header}
+          <ArtifactPanelBody artifacts={artifacts} />
+        </SheetContent>
+      </Sheet>
+    )
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <aside
+      className={cn(
+        'relative flex h-screen shrink-0 flex-col border-l border-border bg-background',
+        className
+      )}
+      style={{ width }}
+      aria-label="Artifacts"
+      data-testid="artifact-panel"
+    >
+      {/* Resize handle */}
+      <div
+        role="separator"
+        aria-orientation="vertical"
+        aria-label="Resize artifacts panel"
+        aria-valuenow={width}
+        aria-valuemin={ARTIFACT_PANEL_MIN_WIDTH}
+        tabIndex={0}
+        onPointerDown={handleResizeStart}
+        onKeyDown={handleResizeKeyDown}
+        className="absolute inset-y-0 -left-1 z-10 w-2 cursor-col-resize transition-colors hover:bg-primary/20 focus-visible:bg-primary/20 focus-visible:outline-none"
+      />
+
+      {header}
+      <ArtifactPanelBody artifacts={artifacts} />
+    </aside>
+  )
+}
+
+export default ArtifactPanel
@@ -0,0 +1,94 @@
+'use client'
+
+import { createContext, useContext, useEffect, useState } from 'react'
+import type { Artifact } from '@/features/chat/types/conversation'
+
+const ARTIFACT_PANEL_WIDTH_KEY = 'artifact_panel_width'
+export const ARTIFACT_PANEL_MIN_WIDTH = 320
+export const ARTIFACT_PANEL_DEFAULT_WIDTH = 480
+
+interface ArtifactPanelContextProps {
+  isOpen: boolean
+  selectedArtifactId: string | null
+  width: number
+  streamingArtifacts: Artifact[]
+  openArtifact: (artifactId?: string) => void
+  selectArtifact: (artifactId: string | null) => void
+  closePanel: () => void
+  togglePanel: () => void
+  setWidth: (width: number) => void
+  setStreamingArtifacts: (artifacts: Artifact[]) => void
+}
+
+const ArtifactPanelContext = createContext<ArtifactPanelContextProps | null>(null)
+
+/**
+ * Access the artifact panel state. Must be used within an ArtifactPanelProvider.
+ */
+export const useArtifactPanel = () => {
+  const context = useContext(ArtifactPanelContext)
+  if (!context) {
+    throw new Error('useArtifactPanel must be used within an ArtifactPanelProvider.')
+  }
+
+  return context
+}
+
+/**
+ * Holds the artifact panel state shared between the chat area, which receives
+ * streamed artifacts, and the panel rendered by the layout
+ */
+export const ArtifactPanelProvider = ({ children }: { children: React.ReactNode }) => {
+  const [isOpen, setIsOpen] = useState(false)
+  const [selectedArtifactId, setSelectedArtifactId] = useState<string | null>(null)
+  const [width, setWidthState] = useState(ARTIFACT_PANEL_DEFAULT_WIDTH)
+  const [streamingArtifacts, setStreamingArtifacts] = useState<Artifact[]>([])
+
+  // Restore the panel width from localStorage on mount
+  useEffect(() => {
+    const stored = Number(localStorage.getItem(ARTIFACT_PANEL_WIDTH_KEY))
+    if (stored >= ARTIFACT_PANEL_MIN_WIDTH) {
+      setWidthState(stored)
+    }
+  }, [])
+
+  function openArtifact(artifactId?: string) {
+    if (artifactId) {
+      setSelectedArtifactId(artifactId)
+    }
+    setIsOpen(true)
+  }
+
+  function selectArtifact(artifactId: string | null) {
+    setSelectedArtifactId(artifactId)
+  }
+
+  function closePanel() {
+    setIsOpen(false)
+  }
+
+  function togglePanel() {
+    setIsOpen(open => !open)
+  }
+
+  function setWidth(newWidth: number) {
+    const clampedWidth = Math.max(ARTIFACT_PANEL_MIN_WIDTH, Math.round(newWidth))
+    setWidthState(clampedWidth)
+    localStorage.setItem(ARTIFACT_PANEL_WIDTH_KEY, String(clampedWidth))
+  }
+
+  const value = {
+    isOpen,
+    selectedArtifactId,
+    width,
+    streamingArtifacts,
+    openArtifact,
+    selectArtifact,
+    closePanel,
+    togglePanel,
+    setWidth,
+    setStreamingArtifacts,
+  }
+
+  return <ArtifactPanelContext.Provider value={value}>{children}</ArtifactPanelContext.Provider>
+}
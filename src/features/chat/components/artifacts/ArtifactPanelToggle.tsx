@@ -0,0 +1,28 @@
+'use client'
+
+import { PanelRight } from 'lucide-react'
+import { Button } from '@/shared/ui/button'
+import { cn } from '@/shared/lib/utils'
+import { useArtifactPanel } from './ArtifactPanelProvider'
+
+/**
+ * Header button that shows or hides the artifact panel
+ */
+const ArtifactPanelToggle = ({ className = '' }: { className?: string }) => {
+  const { isOpen, togglePanel } = useArtifactPanel()
+
+  return (
+    <Button
+      variant="ghost"
+      size="icon"
+      className={cn('size-8 text-muted-foreground hover:text-foreground', className)}
+      onClick={togglePanel}
+      aria-label={isOpen ? 'Hide artifacts' : 'Show artifacts'}
+      aria-pressed={isOpen}
+    >
+      <PanelRight className="size-4" />
+    </Button>
+  )
+}
+
+export default ArtifactPanelToggle
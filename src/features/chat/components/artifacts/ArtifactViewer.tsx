@@ -0,0 +1,159 @@
+'use client'
+
+import { useState } from 'react'
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter'
+import { oneDark } from 'react-syntax-highlighter/dist/esm/styles/prism'
+import { Check, Copy, Download, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/shared/ui/button'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/shared/ui/tabs'
+import { cn } from '@/shared/lib/utils'
+import { downloadArtifact } from '@/features/chat/lib/artifact-utils'
+import MarkdownRenderer from '@/features/chat/components/chat/MarkdownRenderer'
+import type { Artifact } from '@/features/chat/types/conversation'
+
+/**
+ * Props for the ArtifactViewer component
+ *
+ * @property artifact - The artifact to display
+ * @property className - Additional CSS classes to apply
+ */
+interface ArtifactViewerProps {
+  artifact: Artifact
+  className?: string
+}
+
+/**
+ * Highlighted source of an artifact
+ */
+const ArtifactSource = ({ content, language }: { content: string; language?: string }) => (
+  <SyntaxHighlighter
+    style={oneDark}
+    language={language || 'text'}
+    showLineNumbers={true}
+    wrapLongLines={true}
+    customStyle={{
+      margin: 0,
+      minHeight: '100%',
+      borderRadius: 0,
+      fontSize: '0.8125rem',
+    }}
+  >
+    {content}
+  </SyntaxHighlighter>
+)
+
+/**
+ * Renders a single artifact with copy and download actions.
+ *
+ * Code is syntax highlighted, markdown is rendered, and HTML is previewed in a
+ * sandboxed frame without access to the app. Markdown and HTML can be switched to
+ * their source. Other artifact types are shown as plain text.
+ */
+const ArtifactViewer = ({ artifact, className = '' }: ArtifactViewerProps) => {
+  const [copied, setCopied] = useState(false)
+  const hasPreview = artifact.type === 'markdown' || artifact.type === 'html'
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(artifact.content)
+      setCopied(true)
+      toast.success('Artifact copied to clipboard')
+      setTimeout(() => setCopied(false), 2000)
+    } catch (error) {
+      console.error('Failed to copy artifact:', error)
+      toast.error('Failed to copy artifact')
+    }
+  }
+
+  const renderPreview = () => {
+    if (artifact.type === 'html') {
+      return (
+        <iframe
+          title={artifact.title}
+          srcDoc={artifact.content}
+          // Scripts may run, but the frame stays isolated from the app's origin
+          sandbox="allow-scripts"
+          className="size-full border-0 bg-white"
+        />
+      )
+    }
+
+    return <MarkdownRenderer content={artifact.content} className="p-4" />
+  }
+
+  const actions = (
+    <div className="flex items-center gap-1">
+      {artifact.is_streaming && (
+        <span className="mr-2 flex items-center gap-1 text-xs text-muted-foreground">
+          <Loader2 className="size-3 animate-spin" aria-hidden="true" />
+          Generating...
+        </span>
+      )}
+      <Button
+        variant="ghost"
+        size="icon"
+        className="size-8"
+        onClick={handleCopy}
+        disabled={artifact.is_streaming || !artifact.content}
+        aria-label="Copy artifact"
+      >
+        {copied ? <Check className="size-4" /> : <Copy className="size-4" />}
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="size-8"
+        onClick={() => downloadArtifact(artifact)}
+        disabled={artifact.is_streaming || !artifact.content}
+        aria-label="Download artifact"
+      >
+        <Download className="size-4" />
+      </Button>
+    </div>
+  )
+
+  if (!hasPreview) {
+    return (
+      <div className={cn('flex h-full min-h-0 flex-col', className)}>
+        <div className="flex items-center justify-between border-b border-border px-3 py-1.5">
+          <span className="text-xs text-muted-foreground">
+            {artifact.language || artifact.type}
+          </span>
+          {actions}
+        </div>
+        <div className="flex-1 min-h-0 overflow-auto">
+          {artifact.type === 'code' ? (
+            <ArtifactSource content={artifact.content} language={artifact.language} />
+          ) : (
+            <pre className="whitespace-pre-wrap p-4 text-sm">{artifact.content}</pre>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <Tabs defaultValue="preview" className={cn('flex h-full min-h-0 flex-col gap-0', className)}>
+      <div className="flex items-center justify-between border-b border-border px-3 py-1.5">
+        <TabsList className="h-8">
+          <TabsTrigger value="preview" className="text-xs">
+            Preview
+          </TabsTrigger>
+          <TabsTrigger value="source" className="text-xs">
+            Source
+          </TabsTrigger>
+        </TabsList>
+        {actions}
+      </div>
+      <TabsContent value="preview" className="flex-1 min-h-0 overflow-auto">
+        {renderPreview()}
+      </TabsContent>
+      <TabsContent value="source" className="flex-1 min-h-0 overflow-auto">
+        <ArtifactSource content={artifact.content} language={artifact.type} />
+      </TabsContent>
+    </Tabs>
+  )
+}
+
+export default ArtifactViewer
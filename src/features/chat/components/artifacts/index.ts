@@ -0,0 +1,5 @@
+export { default as ArtifactButton } from './ArtifactButton'
+export { default as ArtifactPanel } from './ArtifactPanel'
+export { default as ArtifactPanelToggle } from './ArtifactPanelToggle'
+export { default as ArtifactViewer } from './ArtifactViewer'
+export { ArtifactPanelProvider, useArtifactPanel } from './ArtifactPanelProvider'
@@ -0,0 +1,125 @@
+'use client'
+
+import Image from 'next/image'
+import { AlertCircle, FileText, X } from 'lucide-react'
+import { Button } from '@/shared/ui/button'
+import { Tooltip, TooltipTrigger, TooltipContent } from '@/shared/ui/tooltip'
+import { cn } from '@/shared/lib/utils'
+import { formatFileSize } from '@/features/chat/lib/attachment-utils'
+import type { PendingAttachment } from '@/features/chat/hooks/use-attachments'
+
+/**
+ * Props for the AttachmentPreview component
+ *
+ * @property attachments - The files attached to the message being written
+ * @property onRemove - Called with the id of the attachment to remove
+ * @property disabled - Whether removing attachments is disabled
+ * @property className - Additional CSS classes to apply
+ */
+interface AttachmentPreviewProps {
+  attachments: PendingAttachment[]
+  onRemove: (id: string) => void
+  disabled?: boolean
+  className?: string
+}
+
+/**
+ * Thumbnails of the files attached to the message being written,
+ * with upload progress and a remove button on each
+ */
+const AttachmentPreview = ({
+  attachments,
+  onRemove,
+  disabled = false,
+  className = '',
+}: AttachmentPreviewProps) => {
+  if (attachments.length === 0) return null
+
+  return (
+    <ul className={cn('flex flex-wrap gap-2', className)} aria-label="Attachments">
+      {attachments.map(attachment => {
+        const isBusy = attachment.status === 'uploading' || attachment.status === 'extracting'
+        const hasError = attachment.status === 'error'
+
+        return (
+          <li
+            key={attachment.id}
+            className={cn(
+              'group/attachment relative flex h-14 items-center gap-2 overflow-hidden rounded-lg border bg-card',
+              attachment.kind === 'image' ? 'w-14' : 'max-w-[220px] pr-8 pl-2',
+              hasError ? 'border-destructive' : 'border-border'
+            )}
+          >
+            {attachment.kind === 'image' && attachment.previewUrl ? (
+              // Object URLs can't be optimized, so they are shown as is
+              <Image
+                src={attachment.previewUrl}
+                alt={attachment.file.name}
+                fill
+                unoptimized
+                className={cn('object-cover', isBusy && 'opacity-60')}
+              />
+            ) : (
+              <>
+                <FileText className="size-5 shrink-0 text-muted-foreground" aria-hidden="true" />
+                <div className="flex min-w-0 flex-col">
+                  <span className="truncate text-xs font-medium">{attachment.file.name}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {attachment.status === 'extracting'
+                      ? 'Reading…'
+                      : formatFileSize(attachment.file.size)}
+                  </span>
+                </div>
+              </>
+            )}
+
+            {/* Upload progress */}
+            {attachment.status === 'uploading' && (
+              <div
+                className="absolute inset-x-0 bottom-0 h-1 bg-muted"
+                role="progressbar"
+                aria-valuenow={attachment.progress}
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-label={`Uploading ${attachment.file.name}`}
+              >
+                <div
+                  className="h-full bg-primary transition-[width]"
+                  style={{ width: `${attachment.progress}%` }}
+                />
+              </div>
+            )}
+            {hasError && (
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <span className="absolute left-1 top-1 rounded-full bg-background">
+                    <AlertCircle className="size-4 text-destructive" aria-hidden="true" />
+                    <span className="sr-only">{attachment.error}</span>
+                  </span>
+                </TooltipTrigger>
+                <TooltipContent>{attachment.error}</TooltipContent>
+              </Tooltip>
+            )}
+
+            <Button
+              type="button"
+              variant="secondary"
+              size="icon"
+              onClick={() => onRemove(attachment.id)}
+              disabled={disabled}
+              className={cn(
+                'absolute right-1 top-1 size-5 rounded-full p-0',
+                !isBusy && 'opacity-0 group-hover/attachment:opacity-100 focus-visible:opacity-100'
+              )}
+              aria-label={`Remove ${attachment.file.name}`}
+            >
+              <X className="size-3" />
+            </Button>
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
+
+export default AttachmentPreview
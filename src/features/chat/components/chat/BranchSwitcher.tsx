@@ -0,0 +1,67 @@
+'use client'
+
+import { ChevronLeft, ChevronRight } from 'lucide-react'
+import { Button } from '@/shared/ui/button'
+import { cn } from '@/shared/lib/utils'
+
+/**
+ * Props for the BranchSwitcher component
+ *
+ * @property index - Zero-based index of the branch being shown
+ * @property total - Number of sibling branches
+ * @property onSelect - Called with the index of the branch to show
+ * @property disabled - Whether switching is disabled
+ * @property className - Additional CSS classes to apply
+ */
+interface BranchSwitcherProps {
+  index: number
+  total: number
+  onSelect: (index: number) => void
+  disabled?: boolean
+  className?: string
+}
+
+/**
+ * A "‹ 2/3 ›" control for switching between sibling branches of a message
+ */
+const BranchSwitcher = ({
+  index,
+  total,
+  onSelect,
+  disabled = false,
+  className = '',
+}: BranchSwitcherProps) => {
+  return (
+    <div
+      className={cn('flex items-center gap-0.5 text-xs text-muted-foreground', className)}
+      role="group"
+      aria-label="Branches"
+    >
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => onSelect(index - 1)}
+        disabled={disabled || index === 0}
+        aria-label="Previous branch"
+        className="h-6 w-6 p-0"
+      >
+        <ChevronLeft className="size-3.5" aria-hidden="true" />
+      </Button>
+      <span className="min-w-8 text-center tabular-nums" aria-live="polite">
+        {index + 1}/{total}
+      </span>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => onSelect(index + 1)}
+        disabled={disabled || index === total - 1}
+        aria-label="Next branch"
+        className="h-6 w-6 p-0"
+      >
+        <ChevronRight className="size-3.5" aria-hidden="true" />
+      </Button>
+    </div>
+  )
+}
+
+export default BranchSwitcher
@@ -1,10 +1,21 @@
 'use client'
 
-import { ArrowLeft } from 'lucide-react'
+import { ArrowLeft, Columns2, Download, Share2, SlidersHorizontal } from 'lucide-react'
 import { Button } from '@/shared/ui/button'
 import { SidebarTrigger } from '@/shared/ui/sidebar'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from '@/shared/ui/dropdown-menu'
 import { cn } from '@/shared/lib/utils'
 import ModelSelector from './ModelSelector'
+import UsageBadge from './UsageBadge'
+import { ArtifactPanelToggle } from '@/features/chat/components/artifacts'
+import { EXPORT_FORMATS, type ExportFormat } from '@/features/chat/lib/export-utils'
+import type { UsageSummary } from '@/features/chat/lib/usage-utils'
 
 /**
  * Props for the ChatHeader component
@@ -12,16 +23,34 @@ import ModelSelector from './ModelSelector'
  * @property title - The title to display in the header
  * @property loading - Whether the header is in a loading state
  * @property showBackButton - Whether to show the back button
+ * @property conversationId - The conversation the model selector changes; without one it sets the default model
  * @property showModelSelector - Whether to show the model selector
  * @property disabled - Whether the header controls are disabled
+ * @property usage - Running token usage and cost for the conversation
+ * @property showArtifactsToggle - Whether to show the button that toggles the artifact panel
+ * @property compareMode - Whether the conversation is in compare mode
+ * @property onToggleCompare - Callback for entering or leaving compare mode
+ * @property onExport - Callback for downloading the conversation in a format
+ * @property onShare - Callback for creating a public link to the conversation
+ * @property onOpenSettings - Callback for opening the conversation's settings
+ * @property customSettingsCount - How many settings differ from the defaults, shown as a badge
  * @property className - Additional CSS classes to apply
  */
 interface ChatHeaderProps {
   title?: string
   loading?: boolean
   showBackButton?: boolean
+  conversationId?: string
   showModelSelector?: boolean
   disabled?: boolean
+  usage?: UsageSummary
+  showArtifactsToggle?: boolean
+  compareMode?: boolean
+  onToggleCompare?: () => void
+  onExport?: (format: ExportFormat) => void
+  onShare?: () => void
+  onOpenSettings?: () => void
+  customSettingsCount?: number
   className?: string
 }
 
@@ -34,14 +63,29 @@ interface ChatHeaderProps {
  * - A sidebar toggle button
  * - An optional back button for navigation
  * - An optional model selector for changing the AI model
+ * - An optional running total of tokens and cost
+ * - An optional toggle for the artifact panel
+ * - An optional toggle for comparing models side by side
+ * - An optional menu for exporting the conversation
+ * - An optional button for sharing the conversation
+ * - An optional button for the conversation's settings, marked when they aren't the defaults
  * - Loading state visualization
  */
 const ChatHeader = ({
   title = 'Chat',
   loading = false,
   showBackButton = false,
+  conversationId,
   showModelSelector = false,
   disabled = false,
+  usage,
+  showArtifactsToggle = false,
+  compareMode = false,
+  onToggleCompare,
+  onExport,
+  onShare,
+  onOpenSettings,
+  customSettingsCount = 0,
   className = '',
 }: ChatHeaderProps) => {
   return (
@@ -70,12 +114,90 @@ const ChatHeader = ({
         </div>
       </div>
 
-      {/* Right side - Model Selector */}
-      {showModelSelector && (
-        <div className="flex items-center">
-          <ModelSelector disabled={disabled} className="min-w-[180px]" />
-        </div>
-      )}
+      {/* Right side - Usage, Model Selector, Compare and Artifacts */}
+      <div className="flex items-center gap-3">
+        {usage && usage.totalTokens > 0 && (
+          <UsageBadge
+            usage={usage}
+            label="Conversation total"
+            className="text-xs text-muted-foreground"
+          />
+        )}
+        {showModelSelector && !compareMode && (
+          <ModelSelector
+            conversationId={conversationId}
+            disabled={disabled}
+            className="min-w-[180px]"
+          />
+        )}
+        {onToggleCompare && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="size-8 text-muted-foreground hover:text-foreground"
+            onClick={onToggleCompare}
+            disabled={disabled}
+            aria-label={compareMode ? 'Exit compare mode' : 'Compare models'}
+            aria-pressed={compareMode}
+          >
+            <Columns2 className="size-4" />
+          </Button>
+        )}
+        {onExport && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="size-8 text-muted-foreground hover:text-foreground"
+                aria-label="Export conversation"
+              >
+                <Download className="size-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>Export as</DropdownMenuLabel>
+              {Object.entries(EXPORT_FORMATS).map(([format, { label }]) => (
+                <DropdownMenuItem key={format} onClick={() => onExport(format as ExportFormat)}>
+                  {label}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+        {onOpenSettings && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="relative size-8 text-muted-foreground hover:text-foreground"
+            onClick={onOpenSettings}
+            aria-label={
+              customSettingsCount > 0
+                ? `Conversation settings (${customSettingsCount} changed)`
+                : 'Conversation settings'
+            }
+          >
+            <SlidersHorizontal className="size-4" />
+            {customSettingsCount > 0 && (
+              <span className="absolute -top-0.5 -right-0.5 flex size-3.5 items-center justify-center rounded-full bg-primary text-[0.6rem] font-medium text-primary-foreground">
+                {customSettingsCount}
+              </span>
+            )}
+          </Button>
+        )}
+        {onShare && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="size-8 text-muted-foreground hover:text-foreground"
+            onClick={onShare}
+            aria-label="Share conversation"
+          >
+            <Share2 className="size-4" />
+          </Button>
+        )}
+        {showArtifactsToggle && <ArtifactPanelToggle />}
+      </div>
     </header>
   )
 }
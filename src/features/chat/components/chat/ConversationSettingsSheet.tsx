@@ -0,0 +1,253 @@
+'use client'
+
+import { useId, useState } from 'react'
+import { Loader2, RotateCcw, X } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from '@/shared/ui/sheet'
+import { Button } from '@/shared/ui/button'
+import { Badge } from '@/shared/ui/badge'
+import { Input } from '@/shared/ui/input'
+import { Label } from '@/shared/ui/label'
+import { Textarea } from '@/shared/ui/textarea'
+import { useUpdateConversation } from '@/features/chat/queries/useConversation'
+import {
+  DEFAULT_CONVERSATION_SETTINGS,
+  MAX_STOP_SEQUENCES,
+  MAX_TEMPERATURE,
+  toUpdateRequest,
+  validateConversationSettings,
+  type ConversationSettings,
+} from '@/features/chat/lib/conversation-settings'
+
+/**
+ * Props for the ConversationSettingsSheet component
+ *
+ * @property settings - The conversation's current settings, with defaults filled in
+ */
+interface ConversationSettingsSheetProps {
+  conversationId: string
+  settings: ConversationSettings
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+/**
+ * Read an optional number input, where an empty field means "use the default"
+ */
+const parseOptionalNumber = (value: string): number | null =>
+  value.trim() === '' ? null : Number(value)
+
+/**
+ * Side sheet for the generation settings of a conversation: system prompt,
+ * temperature, max tokens, top-p and stop sequences
+ */
+const ConversationSettingsSheet = ({
+  conversationId,
+  settings,
+  open,
+  onOpenChange,
+}: ConversationSettingsSheetProps) => {
+  const updateConversation = useUpdateConversation()
+  const [draft, setDraft] = useState(settings)
+  const [stopInput, setStopInput] = useState('')
+  const fieldId = useId()
+
+  // Start from the saved settings each time the sheet opens
+  const [wasOpen, setWasOpen] = useState(open)
+  if (open !== wasOpen) {
+    setWasOpen(open)
+    if (open) {
+      setDraft(settings)
+      setStopInput('')
+    }
+  }
+
+  const errors = validateConversationSettings(draft)
+  const hasErrors = Object.keys(errors).length > 0
+
+  const update = (changes: Partial<ConversationSettings>) => {
+    setDraft(prev => ({ ...prev, ...changes }))
+  }
+
+  const addStopSequence = () => {
+    if (!stopInput || draft.stop_sequences.includes(stopInput)) return
+    update({ stop_sequences: [...draft.stop_sequences, stopInput] })
+    setStopInput('')
+  }
+
+  const handleSave = () => {
+    if (hasErrors) return
+
+    updateConversation.mutate(
+      { id: conversationId, data: toUpdateRequest(draft) },
+      {
+        onSuccess: () => {
+          toast.success('Conversation settings saved')
+          onOpenChange(false)
+        },
+      }
+    )
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full overflow-y-auto sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle>Conversation Settings</SheetTitle>
+          <SheetDescription>Applied to the next messages in this conversation.</SheetDescription>
+        </SheetHeader>
+
+        <div className="grid gap-6 px-4">
+          {/* System prompt */}
+          <div className="grid gap-2">
+            <Label htmlFor={`${fieldId}-system`}>System prompt</Label>
+            <Textarea
+              id={`${fieldId}-system`}
+              value={draft.system_prompt}
+              onChange={e => update({ system_prompt: e.target.value })}
+              placeholder="You are a helpful assistant..."
+              className="min-h-32 resize-y"
+            />
+          </div>
+
+          {/* Temperature */}
+          <div className="grid gap-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor={`${fieldId}-temperature`}>Temperature</Label>
+              <span className="text-sm tabular-nums text-muted-foreground">
+                {draft.temperature.toFixed(1)}
+              </span>
+            </div>
+            <input
+              id={`${fieldId}-temperature`}
+              type="range"
+              min={0}
+              max={MAX_TEMPERATURE}
+              step={0.1}
+              value={draft.temperature}
+              onChange={e => update({ temperature: Number(e.target.value) })}
+              className="w-full accent-primary"
+            />
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>Focused</span>
+              <span>Creative</span>
+            </div>
+          </div>
+
+          {/* Max tokens and top-p */}
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor={`${fieldId}-max-tokens`}>Max tokens</Label>
+              <Input
+                id={`${fieldId}-max-tokens`}
+                type="number"
+                min={1}
+                step={1}
+                value={draft.max_tokens ?? ''}
+                onChange={e => update({ max_tokens: parseOptionalNumber(e.target.value) })}
+                placeholder="Model limit"
+                aria-invalid={!!errors.max_tokens}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor={`${fieldId}-top-p`}>Top-p</Label>
+              <Input
+                id={`${fieldId}-top-p`}
+                type="number"
+                min={0}
+                max={1}
+                step={0.05}
+                value={draft.top_p ?? ''}
+                onChange={e => update({ top_p: parseOptionalNumber(e.target.value) })}
+                placeholder="Default"
+                aria-invalid={!!errors.top_p}
+              />
+            </div>
+          </div>
+          {(errors.max_tokens || errors.top_p) && (
+            <p className="-mt-4 text-xs text-destructive">{errors.max_tokens ?? errors.top_p}</p>
+          )}
+
+          {/* Stop sequences */}
+          <div className="grid gap-2">
+            <Label htmlFor={`${fieldId}-stop`}>Stop sequences</Label>
+            <div className="flex gap-2">
+              <Input
+                id={`${fieldId}-stop`}
+                value={stopInput}
+                onChange={e => setStopInput(e.target.value)}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault()
+                    addStopSequence()
+                  }
+                }}
+                placeholder="e.g. ###"
+                disabled={draft.stop_sequences.length >= MAX_STOP_SEQUENCES}
+              />
+              <Button
+                type="button"
+                variant="outline"
+                onClick={addStopSequence}
+                disabled={!stopInput || draft.stop_sequences.length >= MAX_STOP_SEQUENCES}
+              >
+                Add
+              </Button>
+            </div>
+            {draft.stop_sequences.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {draft.stop_sequences.map(sequence => (
+                  <Badge key={sequence} variant="secondary" className="gap-1 font-mono">
+                    {JSON.stringify(sequence).slice(1, -1)}
+                    <button
+                      type="button"
+                      onClick={() =>
+                        update({
+                          stop_sequences: draft.stop_sequences.filter(s => s !== sequence),
+                        })
+                      }
+                      aria-label={`Remove stop sequence ${sequence}`}
+                    >
+                      <X className="size-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground">
+              The reply ends when the model writes one of these. Up to {MAX_STOP_SEQUENCES}.
+            </p>
+          </div>
+        </div>
+
+        <SheetFooter className="flex-row justify-between">
+          <Button
+            type="button"
+            variant="ghost"
+            onClick={() => setDraft(DEFAULT_CONVERSATION_SETTINGS)}
+          >
+            <RotateCcw className="size-4" />
+            Reset
+          </Button>
+          <Button
+            type="button"
+            onClick={handleSave}
+            disabled={hasErrors || updateConversation.isPending}
+          >
+            {updateConversation.isPending && <Loader2 className="size-4 animate-spin" />}
+            Save
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  )
+}
+
+export default ConversationSettingsSheet
@@ -7,13 +7,15 @@ import { cn } from '@/shared/lib/utils'
 import { useMessageActions } from '@/features/chat/hooks'
 import { formatMessageTime } from '@/features/chat/lib/chat-utils'
 import { Loader2 } from 'lucide-react'
-import type { Message } from '@/features/chat/types/conversation'
+import type { Message, StreamEvent } from '@/features/chat/types/conversation'
 
 /**
  * Props for the EditableMessage component
  *
  * @property message - The message object being edited
  * @property conversationId - The ID of the conversation this message belongs to
+ * @property parentId - The parent the edited message is sent under, so it branches off the original
+ * @property onStreamEvent - Handler for the events streamed while the reply is generated
  * @property onSave - Callback function when the edit is saved
  * @property onCancel - Callback function when the edit is canceled
  * @property className - Additional CSS classes to apply
@@ -21,17 +23,22 @@ import type { Message } from '@/features/chat/types/conversation'
 interface EditableMessageProps {
   message: Message
   conversationId: string
+  parentId?: string
+  onStreamEvent?: (event: StreamEvent) => void
   onSave: (content: string) => void
   onCancel: () => void
   className?: string
 }
 
 /**
- * A component that allows editing of AI messages for regeneration
+ * A component that allows editing a user message and resending it.
+ * The edited message starts a new branch; the original exchange is kept as a sibling.
  */
 const EditableMessage = ({
   message,
   conversationId,
+  parentId,
+  onStreamEvent,
   onSave,
   onCancel,
   className = '',
@@ -41,7 +48,7 @@ const EditableMessage = ({
   const textareaRef = useRef<HTMLTextAreaElement>(null)
 
   // Use our message actions hook
-  const { saveEdit, updateEditContent } = useMessageActions({ conversationId })
+  const { saveEdit, updateEditContent } = useMessageActions({ conversationId, onStreamEvent })
 
   // Focus the textarea when the component mounts
   useEffect(() => {
@@ -90,8 +97,8 @@ const EditableMessage = ({
     try {
       setIsSaving(true)
 
-      // Save the edit
-      saveEdit(content)
+      // Send the edited message as a new branch
+      await saveEdit(content, parentId, message.parts)
 
       // Call the onSave callback
       onSave(content)
@@ -169,15 +176,15 @@ const EditableMessage = ({
                 onClick={handleSave}
                 disabled={isSaving || content.trim() === message.content.trim()}
                 className="h-8 px-3"
-                aria-label="Save changes and regenerate"
+                aria-label="Send edited message"
               >
                 {isSaving ? (
                   <>
                     <Loader2 className="size-3 mr-1 animate-spin" aria-hidden="true" />
-                    Saving...
+                    Sending...
                   </>
                 ) : (
-                  'Regenerate'
+                  'Send'
                 )}
               </Button>
             </div>
@@ -189,7 +196,7 @@ const EditableMessage = ({
               Press <kbd className="px-1 py-0.5 bg-muted rounded border border-border">Esc</kbd> to
               cancel,{' '}
               <kbd className="px-1 py-0.5 bg-muted rounded border border-border">Ctrl+Enter</kbd> to
-              save
+              send
             </span>
           </div>
         </div>
@@ -1,12 +1,31 @@
 'use client'
 
 import { useState } from 'react'
-import { Copy, Check, ThumbsUp, ThumbsDown, Edit, Trash2, RefreshCw } from 'lucide-react'
+import {
+  Copy,
+  Check,
+  ThumbsUp,
+  ThumbsDown,
+  Edit,
+  Trash2,
+  RefreshCw,
+  BrainCircuit,
+} from 'lucide-react'
 import { Button } from '@/shared/ui/button'
 import { cn } from '@/shared/lib/utils'
 import { Tooltip, TooltipTrigger, TooltipContent } from '@/shared/ui/tooltip'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/shared/ui/alert-dialog'
 import { useMessageActions } from '@/features/chat/hooks'
-import type { Message } from '@/features/chat/types/conversation'
+import type { Message, StreamEvent } from '@/features/chat/types/conversation'
 
 /**
  * Props for the MessageActions component
@@ -14,7 +33,9 @@ import type { Message } from '@/features/chat/types/conversation'
  * @property message - The message object to provide actions for
  * @property conversationId - The ID of the conversation this message belongs to
  * @property className - Additional CSS classes to apply
- * @property onEdit - Optional callback when the edit action is triggered
+ * @property disabled - Whether actions that change the conversation are disabled
+ * @property onStreamEvent - Handler for the events streamed while regenerating
+ * @property onEdit - Callback when the edit action is triggered; the Edit button is shown only when set
  * @property onCopy - Optional callback when the copy action is triggered
  * @property onLike - Optional callback when the like action is triggered
  * @property onDislike - Optional callback when the dislike action is triggered
@@ -25,6 +46,8 @@ interface MessageActionsProps {
   message: Message
   conversationId: string
   className?: string
+  disabled?: boolean
+  onStreamEvent?: (event: StreamEvent) => void
   onEdit?: () => void
   onCopy?: () => void
   onLike?: () => void
@@ -40,6 +63,8 @@ const MessageActions = ({
   message,
   conversationId,
   className = '',
+  disabled = false,
+  onStreamEvent,
   onEdit,
   onCopy,
   onLike,
@@ -48,13 +73,15 @@ const MessageActions = ({
   onRegenerate,
 }: MessageActionsProps) => {
   const [copied, setCopied] = useState(false)
+  const [copiedWithReasoning, setCopiedWithReasoning] = useState(false)
   const [liked, setLiked] = useState(false)
   const [disliked, setDisliked] = useState(false)
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false)
   const isAssistant = message.role === 'assistant'
 
   // Use our message actions hook
-  const { copyMessage, startEditing, deleteMessage, regenerateMessage, isRegenerating } =
-    useMessageActions({ conversationId })
+  const { copyMessage, deleteMessage, isDeleting, regenerateMessage, isRegenerating } =
+    useMessageActions({ conversationId, onStreamEvent })
 
   /**
    * Handle copying message to clipboard
@@ -70,23 +97,36 @@ const MessageActions = ({
     }
   }
 
+  /**
+   * Handle copying message together with its reasoning
+   */
+  function handleCopyWithReasoning() {
+    copyMessage(message, { includeReasoning: true })
+    setCopiedWithReasoning(true)
+    setTimeout(() => setCopiedWithReasoning(false), 2000)
+
+    // Call the onCopy callback if provided
+    if (onCopy) {
+      onCopy()
+    }
+  }
+
   /**
    * Handle editing message
    */
   function handleEditMessage() {
-    startEditing(message.id)
-
-    // Call the onEdit callback if provided
+    // Editing is owned by the message list, which shows the editor in place
     if (onEdit) {
       onEdit()
     }
   }
 
   /**
-   * Handle deleting message
+   * Handle deleting message once the user has confirmed
    */
-  function handleDeleteMessage() {
-    deleteMessage(message.id)
+  async function handleConfirmDelete() {
+    await deleteMessage(message.id)
+    setShowDeleteDialog(false)
 
     // Call the onDelete callback if provided
     if (onDelete) {
@@ -164,6 +204,89 @@ const MessageActions = ({
         <TooltipContent side="top">{copied ? 'Copied!' : 'Copy'}</TooltipContent>
       </Tooltip>
 
+      {/* Edit button - when the message can be edited and resent */}
+      {onEdit && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleEditMessage}
+              disabled={disabled}
+              aria-label="Edit message"
+              className={cn(
+                'h-8 w-8 p-0 rounded-md transition-all duration-200',
+                'text-muted-foreground hover:text-primary hover:bg-primary/10',
+                'focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2'
+              )}
+            >
+              <Edit className="size-4" aria-hidden="true" />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent side="top">Edit</TooltipContent>
+        </Tooltip>
+      )}
+
+      {/* Copy with reasoning button - only when the message has reasoning */}
+      {message.reasoning && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleCopyWithReasoning}
+              aria-label={
+                copiedWithReasoning
+                  ? 'Message and reasoning copied to clipboard'
+                  : 'Copy message with reasoning to clipboard'
+              }
+              aria-pressed={copiedWithReasoning}
+              className={cn(
+                'h-8 w-8 p-0 rounded-md transition-all duration-200',
+                'text-muted-foreground hover:text-primary hover:bg-primary/10',
+                'focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2',
+                copiedWithReasoning && 'text-primary bg-primary/10'
+              )}
+            >
+              {copiedWithReasoning ? (
+                <Check className="size-4" aria-hidden="true" />
+              ) : (
+                <BrainCircuit className="size-4" aria-hidden="true" />
+              )}
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent side="top">
+            {copiedWithReasoning ? 'Copied!' : 'Copy with reasoning'}
+          </TooltipContent>
+        </Tooltip>
+      )}
+
+      {/* Regenerate button - only for assistant messages */}
+      {isAssistant && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleRegenerateMessage}
+              disabled={disabled || isRegenerating}
+              aria-label="Regenerate response"
+              className={cn(
+                'h-8 w-8 p-0 rounded-md transition-all duration-200',
+                'text-muted-foreground hover:text-primary hover:bg-primary/10',
+                'focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2'
+              )}
+            >
+              <RefreshCw
+                className={cn('size-4', isRegenerating && 'animate-spin')}
+                aria-hidden="true"
+              />
+            </Button>
+          </TooltipTrigger>
+          <TooltipContent side="top">Regenerate</TooltipContent>
+        </Tooltip>
+      )}
+
       {/* Like button - only for assistant messages */}
       {isAssistant && (
         <Tooltip>
@@ -213,6 +336,50 @@ const MessageActions = ({
           <TooltipContent side="top">Dislike</TooltipContent>
         </Tooltip>
       )}
+
+      {/* Delete button */}
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowDeleteDialog(true)}
+            disabled={disabled || isDeleting}
+            aria-label="Delete message"
+            className={cn(
+              'h-8 w-8 p-0 rounded-md transition-all duration-200',
+              'text-muted-foreground hover:text-destructive hover:bg-destructive/10',
+              'focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2'
+            )}
+          >
+            <Trash2 className="size-4" aria-hidden="true" />
+          </Button>
+        </TooltipTrigger>
+        <TooltipContent side="top">Delete</TooltipContent>
+      </Tooltip>
+
+      {/* Delete Confirmation Dialog */}
+      <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Message</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete this message? Replies that follow from it will be
+              removed as well. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isDeleting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirmDelete}
+              disabled={isDeleting}
+              className="bg-destructive"
+            >
+              {isDeleting ? 'Deleting...' : 'Delete Message'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   )
 }
@@ -0,0 +1,57 @@
+'use client'
+
+import Image from 'next/image'
+import { FileText } from 'lucide-react'
+import { cn } from '@/shared/lib/utils'
+import type { MessagePart } from '@/features/chat/types/conversation'
+
+/**
+ * Props for the MessageAttachments component
+ *
+ * @property parts - The attachments sent with the message
+ * @property className - Additional CSS classes to apply
+ */
+interface MessageAttachmentsProps {
+  parts: MessagePart[]
+  className?: string
+}
+
+/**
+ * Images and documents sent with a message
+ */
+const MessageAttachments = ({ parts, className = '' }: MessageAttachmentsProps) => {
+  if (parts.length === 0) return null
+
+  return (
+    <ul className={cn('flex flex-wrap gap-2', className)} aria-label="Attachments">
+      {parts.map((part, index) =>
+        part.type === 'image' ? (
+          <li
+            key={`${part.attachment_id}-${index}`}
+            className="relative size-24 overflow-hidden rounded-lg border border-border bg-muted"
+          >
+            {part.url ? (
+              <a href={part.url} target="_blank" rel="noopener noreferrer">
+                <Image src={part.url} alt={part.name} fill unoptimized className="object-cover" />
+              </a>
+            ) : (
+              <span className="flex size-full items-center justify-center p-1 text-center text-xs text-muted-foreground">
+                {part.name}
+              </span>
+            )}
+          </li>
+        ) : (
+          <li
+            key={`${part.name}-${index}`}
+            className="flex max-w-[220px] items-center gap-2 rounded-lg border border-border bg-card px-3 py-2 text-foreground"
+          >
+            <FileText className="size-4 shrink-0 text-muted-foreground" aria-hidden="true" />
+            <span className="truncate text-xs font-medium">{part.name}</span>
+          </li>
+        )
+      )}
+    </ul>
+  )
+}
+
+export default MessageAttachments
@@ -1,12 +1,22 @@
 'use client'
 
-import { useRef, useState } from 'react'
-import { Send, StopCircle, Loader2, Plus } from 'lucide-react'
+import { useEffect, useId, useRef, useState } from 'react'
+import { Send, StopCircle, Loader2, Plus, AlertCircle, Upload } from 'lucide-react'
 import { Button } from '@/shared/ui/button'
 import { Textarea } from '@/shared/ui/textarea'
 import { cn } from '@/shared/lib/utils'
 import { isValidMessage } from '@/features/chat/lib/chat-utils'
 import { useSendMessage } from '@/features/chat/queries/useMessage'
+import { useQueueMessage } from '@/features/chat/queries/useOutbox'
+import { isOffline } from '@/features/chat/lib/outbox'
+import { useConversationDraft } from '@/features/chat/hooks/use-conversation-draft'
+import { useAttachments } from '@/features/chat/hooks/use-attachments'
+import { useConversationModel } from '@/features/chat/hooks/use-conversation-model'
+import { useSlashCommands } from '@/features/chat/hooks/use-slash-commands'
+import { ATTACHMENT_ACCEPT } from '@/features/chat/lib/attachment-utils'
+import AttachmentPreview from './AttachmentPreview'
+import SlashCommandMenu from './SlashCommandMenu'
+import TemplatePicker from './TemplatePicker'
 import { Tooltip, TooltipTrigger, TooltipContent } from '@/shared/ui/tooltip'
 import type { StreamEvent } from '@/features/chat/types/conversation'
 
@@ -14,7 +24,9 @@ import type { StreamEvent } from '@/features/chat/types/conversation'
  * Props for the MessageInput component
  *
  * @property conversationId - The ID of the conversation this input is for
+ * @property parentId - The message new messages reply to, on the active branch
  * @property onStreamEvent - Callback for handling streaming events
+ * @property onSend - Takes over sending, e.g. to send the prompt to several models
  * @property placeholder - Placeholder text for the input
  * @property streaming - Whether a message is currently streaming
  * @property onStopStreaming - Callback for stopping streaming
@@ -23,7 +35,9 @@ import type { StreamEvent } from '@/features/chat/types/conversation'
  */
 interface MessageInputProps {
   conversationId: string
+  parentId?: string
   onStreamEvent?: (event: StreamEvent) => void
+  onSend?: (content: string) => void
   placeholder?: string
   streaming?: boolean
   onStopStreaming?: () => void
@@ -39,11 +53,17 @@ interface MessageInputProps {
  * - Submit on Enter (Shift+Enter for new line)
  * - Visual feedback during streaming
  * - Stop button during streaming
+ * - Unsent text kept as a per-conversation draft
+ * - File and image attachments via the picker, drag-and-drop or paste
+ * - Prompt templates with their variables filled in before inserting
+ * - Slash commands such as `/model` and `/temperature`, with an autocomplete popup
  * - Fixed positioning at the bottom of the chat
  */
 const MessageInput = ({
   conversationId,
+  parentId,
   onStreamEvent,
+  onSend,
   placeholder = 'Type your message...',
   streaming = false,
   onStopStreaming,
@@ -51,44 +71,161 @@ const MessageInput = ({
   disabled = false,
 }: MessageInputProps) => {
   const [content, setContent] = useState('')
+  const [isDragging, setIsDragging] = useState(false)
   const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const commandMenuId = useId()
 
   // Use the sendMessage mutation from React Query
   const sendMessage = useSendMessage(conversationId, onStreamEvent)
 
+  // Messages written while offline wait in the outbox
+  const queueMessage = useQueueMessage(conversationId)
+
+  // Unsent text survives switching conversations and reloading
+  const { getDraft, saveDraft, clearDraft } = useConversationDraft(conversationId)
+
+  // Restore the conversation's draft
+  useEffect(() => {
+    setContent(getDraft())
+
+    const frame = requestAnimationFrame(() => {
+      if (textareaRef.current) {
+        textareaRef.current.style.height = 'auto'
+        textareaRef.current.style.height = Math.min(textareaRef.current.scrollHeight, 150) + 'px'
+      }
+    })
+    return () => cancelAnimationFrame(frame)
+  }, [getDraft])
+
+  // Images can only be attached when the conversation's model supports vision
+  const { model: activeModel, modelName } = useConversationModel(conversationId)
+  const supportsVision = !!activeModel?.supports_vision
+  const imageBlockedMessage = `${modelName ?? 'The selected model'} can't read images. Switch to a model with vision support to attach images.`
+
+  const {
+    attachments,
+    parts,
+    isProcessing,
+    hasImages,
+    addFiles,
+    removeAttachment,
+    clearAttachments,
+  } = useAttachments({ allowImages: supportsVision, imageBlockedMessage })
+
+  // Attachments are not part of compare mode, which only takes the prompt text
+  const allowAttachments = !onSend
+  const hasBlockedImages = hasImages && !supportsVision
+
   /**
-   * Handle form submission using React 19 form actions
+   * Replace the text of the input, keeping the draft and height in step
+   */
+  const updateContent = (value: string) => {
+    setContent(value)
+    saveDraft(value)
+
+    requestAnimationFrame(() => {
+      if (textareaRef.current) {
+        textareaRef.current.style.height = 'auto'
+        textareaRef.current.style.height = Math.min(textareaRef.current.scrollHeight, 150) + 'px'
+      }
+    })
+  }
+
+  /**
+   * Add a filled-in template to the message being written
+   */
+  const insertTemplate = (text: string) => {
+    updateContent(content.trim() ? `${content.trimEnd()}\n\n${text}` : text)
+    textareaRef.current?.focus()
+  }
+
+  // Input starting with "/" runs commands instead of being sent
+  const slashCommands = useSlashCommands({
+    conversationId,
+    input: content,
+    onInputChange: updateContent,
+    onClear: () => {
+      updateContent('')
+      clearDraft()
+      clearAttachments()
+    },
+  })
+
+  // Determine button state
+  const isInputDisabled = sendMessage.isPending || streaming || disabled
+  const hasMessage = isValidMessage(content) || parts.length > 0
+  const canSubmit =
+    hasMessage &&
+    !isProcessing &&
+    !hasBlockedImages &&
+    !streaming &&
+    !sendMessage.isPending &&
+    !disabled
+
+  /**
+   * Send the message, or hand it to onSend when sending is taken over.
+   * The draft is only cleared once the message is sent or queued.
    */
-  async function handleSubmit(formData: FormData) {
-    const content = formData.get('content') as string
+  const sendContent = (text: string) => {
+    const data = {
+      content: text.trim(),
+      parent_id: parentId,
+      model_id: activeModel?.id,
+      parts: parts.length > 0 ? parts : undefined,
+    }
+    const callbacks = {
+      onSuccess: () => clearDraft(),
+      onError: () => setContent(current => current || text),
+    }
+
+    if (onSend) {
+      onSend(data.content)
+      clearDraft()
+    } else if (isOffline()) {
+      queueMessage.mutate(data, callbacks)
+    } else {
+      sendMessage.mutate(data, callbacks)
+    }
+  }
 
-    if (!isValidMessage(content) || streaming || sendMessage.isPending || disabled) {
+  /**
+   * Run the input as a slash command, or send it as a message
+   */
+  const submitContent = () => {
+    if (slashCommands.submit() || !canSubmit) {
       return
     }
 
-    sendMessage.mutate({ content: content.trim() })
+    sendContent(content)
     setContent('')
+    clearAttachments()
 
     if (textareaRef.current) {
       textareaRef.current.style.height = 'auto'
     }
   }
 
+  /**
+   * Handle form submission using React 19 form actions
+   */
+  async function handleSubmit() {
+    submitContent()
+  }
+
   /**
    * Handle keyboard shortcuts
    */
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Let the command popup use navigation keys first
+    if (slashCommands.handleKeyDown(e)) {
+      return
+    }
+
     // Submit on Enter (without Shift)
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault()
-      if (isValidMessage(content) && !streaming && !sendMessage.isPending && !disabled) {
-        sendMessage.mutate({ content: content.trim() })
-        setContent('')
-
-        if (textareaRef.current) {
-          textareaRef.current.style.height = 'auto'
-        }
-      }
+      submitContent()
     }
   }
 
@@ -98,12 +235,58 @@ const MessageInput = ({
   const handleInput = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     const textarea = e.target
     setContent(textarea.value)
+    saveDraft(textarea.value)
 
     // Auto-resize textarea
     textarea.style.height = 'auto'
     textarea.style.height = Math.min(textarea.scrollHeight, 150) + 'px'
   }
 
+  /**
+   * Attach files chosen in the file picker
+   */
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(e.target.files || []))
+
+    // Allow picking the same file again
+    e.target.value = ''
+  }
+
+  /**
+   * Attach files pasted into the textarea, such as screenshots
+   */
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files)
+    if (!allowAttachments || files.length === 0) return
+
+    e.preventDefault()
+    addFiles(files)
+  }
+
+  /**
+   * Handle files dragged over and dropped on the input area
+   */
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!allowAttachments || isInputDisabled || !e.dataTransfer.types.includes('Files')) return
+
+    e.preventDefault()
+    setIsDragging(true)
+  }
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setIsDragging(false)
+    }
+  }
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!allowAttachments || isInputDisabled) return
+
+    e.preventDefault()
+    setIsDragging(false)
+    addFiles(Array.from(e.dataTransfer.files))
+  }
+
   /**
    * Handle stopping the streaming response
    */
@@ -113,10 +296,6 @@ const MessageInput = ({
     }
   }
 
-  // Determine button state
-  const isInputDisabled = sendMessage.isPending || streaming || disabled
-  const canSubmit = isValidMessage(content) && !streaming && !sendMessage.isPending && !disabled
-
   return (
     <div
       className={cn(
@@ -126,36 +305,90 @@ const MessageInput = ({
         className
       )}
       aria-label="Message input area"
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
     >
       <div className="mx-auto max-w-4xl px-6 py-6">
         <form action={handleSubmit} className="relative">
+          {/* Slash command popup */}
+          {slashCommands.isOpen && (
+            <SlashCommandMenu
+              id={commandMenuId}
+              options={slashCommands.options}
+              activeIndex={slashCommands.activeIndex}
+              error={slashCommands.error}
+              onHighlight={slashCommands.setActiveIndex}
+              onSelect={slashCommands.selectOption}
+              className="absolute inset-x-0 bottom-full z-40 mb-2"
+            />
+          )}
+
+          {/* Attached files */}
+          {attachments.length > 0 && (
+            <div className="mb-3 flex flex-col gap-2 px-2">
+              <AttachmentPreview
+                attachments={attachments}
+                onRemove={removeAttachment}
+                disabled={isInputDisabled}
+              />
+              {hasBlockedImages && (
+                <p className="flex items-center gap-1.5 text-xs text-destructive" role="alert">
+                  <AlertCircle className="size-3.5 shrink-0" aria-hidden="true" />
+                  {imageBlockedMessage}
+                </p>
+              )}
+            </div>
+          )}
+
           <div
             className={cn(
               'relative flex items-center gap-3 px-4 py-3 rounded-3xl bg-transparent border border-border/30',
               'focus-within:border-border focus-within:shadow-sm',
-              'hover:border-border/50'
+              'hover:border-border/50',
+              isDragging && 'border-primary border-dashed bg-primary/5'
             )}
           >
-            {/* Add/Plus button */}
+            {/* Drop target hint */}
+            {isDragging && (
+              <div className="pointer-events-none absolute inset-0 z-10 flex items-center justify-center gap-2 rounded-3xl bg-background/90 text-sm font-medium text-primary">
+                <Upload className="size-4" aria-hidden="true" />
+                Drop files to attach
+              </div>
+            )}
+
+            {/* Attach button */}
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept={ATTACHMENT_ACCEPT}
+              onChange={handleFileChange}
+              className="hidden"
+              tabIndex={-1}
+              aria-hidden="true"
+            />
             <Tooltip>
               <TooltipTrigger asChild>
                 <Button
                   type="button"
                   variant="ghost"
                   size="sm"
-                  disabled={isInputDisabled}
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={isInputDisabled || !allowAttachments}
                   className={cn(
                     'shrink-0 size-8 rounded-full p-0',
                     'text-muted-foreground hover:text-foreground hover:bg-accent/50',
                     'transition-all duration-200'
                   )}
-                  aria-label="Add content"
+                  aria-label="Attach files"
                 >
                   <Plus className="size-4" />
                 </Button>
               </TooltipTrigger>
-              <TooltipContent>Add content</TooltipContent>
+              <TooltipContent>Attach files</TooltipContent>
             </Tooltip>
+            <TemplatePicker onInsert={insertTemplate} disabled={isInputDisabled} />
 
             <Textarea
               ref={textareaRef}
@@ -163,6 +396,7 @@ const MessageInput = ({
               value={content}
               onChange={handleInput}
               onKeyDown={handleKeyDown}
+              onPaste={handlePaste}
               placeholder={placeholder}
               disabled={isInputDisabled}
               background="transparent"
@@ -174,6 +408,8 @@ const MessageInput = ({
               )}
               rows={1}
               aria-label="Message input"
+              aria-autocomplete="list"
+              aria-controls={slashCommands.isOpen ? commandMenuId : undefined}
             />
 
             {/* Right side buttons */}
@@ -229,7 +465,13 @@ const MessageInput = ({
                       <Send className="size-4" />
                     </Button>
                   </TooltipTrigger>
-                  <TooltipContent>{canSubmit ? 'Send message' : 'Type a message'}</TooltipContent>
+                  <TooltipContent>
+                    {canSubmit
+                      ? 'Send message'
+                      : isProcessing
+                        ? 'Waiting for attachments'
+                        : 'Type a message'}
+                  </TooltipContent>
                 </Tooltip>
               )}
             </div>
@@ -2,13 +2,25 @@
 
 import { cn } from '@/shared/lib/utils'
 import { formatMessageTime } from '@/features/chat/lib/chat-utils'
+import { getMessageUsage, type ModelPricing } from '@/features/chat/lib/usage-utils'
 import React from 'react'
-import { useMessageActions } from '@/features/chat/hooks'
 
 import { EditableMessage } from '@/features/chat/components/chat'
 import { MessageActions } from '@/features/chat/components/chat'
 import MarkdownRenderer from './MarkdownRenderer'
-import type { Message } from '@/features/chat/types/conversation'
+import ToolCallCard from './ToolCallCard'
+import ReasoningSection from './ReasoningSection'
+import BranchSwitcher from './BranchSwitcher'
+import UsageBadge from './UsageBadge'
+import MessageAttachments from './MessageAttachments'
+import { ArtifactButton } from '@/features/chat/components/artifacts'
+import type {
+  Artifact,
+  Message,
+  MessageTool,
+  MessageUsage,
+  StreamEvent,
+} from '@/features/chat/types/conversation'
 
 /**
  * Props for the MessageItem component
@@ -17,6 +29,20 @@ import type { Message } from '@/features/chat/types/conversation'
  * @property conversationId - The ID of the conversation this message belongs to
  * @property isStreaming - Whether this message is currently streaming
  * @property streamingContent - The content being streamed for this message
+ * @property streamingReasoning - The reasoning being streamed for this message
+ * @property reasoningStartedAt - When the streaming message started reasoning
+ * @property reasoningEndedAt - When the streaming message finished reasoning
+ * @property streamingTools - The tool calls being streamed for this message
+ * @property streamingArtifacts - The artifacts being streamed for this message
+ * @property streamingUsage - The token usage reported so far for this streaming message
+ * @property pricing - Model pricing used to estimate costs the backend did not report
+ * @property branch - Position among sibling branches, with a callback to switch branches
+ * @property isEditing - Whether this message is being edited
+ * @property editParentId - The parent an edited version of this message is sent under
+ * @property onStartEdit - Called when the user starts editing this message
+ * @property onCancelEdit - Called when editing ends, whether saved or cancelled
+ * @property actionsDisabled - Whether message actions that change the conversation are disabled
+ * @property onStreamEvent - Handler for the events streamed by message actions
  * @property className - Additional CSS classes to apply
  */
 interface MessageItemProps {
@@ -24,6 +50,20 @@ interface MessageItemProps {
   conversationId: string
   isStreaming?: boolean
   streamingContent?: string
+  streamingReasoning?: string
+  reasoningStartedAt?: number | null
+  reasoningEndedAt?: number | null
+  streamingTools?: MessageTool[]
+  streamingArtifacts?: Artifact[]
+  streamingUsage?: MessageUsage | null
+  pricing?: ModelPricing | null
+  branch?: { index: number; total: number; onSelect: (index: number) => void }
+  isEditing?: boolean
+  editParentId?: string
+  onStartEdit?: () => void
+  onCancelEdit?: () => void
+  actionsDisabled?: boolean
+  onStreamEvent?: (event: StreamEvent) => void
   className?: string
 }
 
@@ -32,6 +72,20 @@ const MessageItem = ({
   conversationId,
   isStreaming = false,
   streamingContent = '',
+  streamingReasoning = '',
+  reasoningStartedAt = null,
+  reasoningEndedAt = null,
+  streamingTools = [],
+  streamingArtifacts = [],
+  streamingUsage = null,
+  pricing = null,
+  branch,
+  isEditing = false,
+  editParentId,
+  onStartEdit,
+  onCancelEdit,
+  actionsDisabled = false,
+  onStreamEvent,
   className = '',
 }: MessageItemProps) => {
   const isUser = message.role === 'user'
@@ -40,32 +94,21 @@ const MessageItem = ({
 
   // Use streaming content if this message is currently streaming, otherwise use message content
   const displayContent = isStreaming && streamingContent ? streamingContent : message.content
-
-  // Use our message actions hook
-  const { cancelEditing, isEditing, currentEditMessageId } = useMessageActions({ conversationId })
-
-  // Handle saving edited message
-  const handleSaveEdit = (content: string) => {
-    // The actual saving is handled by the useMessageActions hook
-    // This is just for any additional UI updates
-  }
-
-  // Handle canceling edit
-  const handleCancelEdit = () => {
-    cancelEditing()
-  }
-
-  // Determine if this message is currently being edited
-  const isCurrentlyEditing = isEditing && currentEditMessageId === message.id
+  const reasoning = isStreaming && streamingReasoning ? streamingReasoning : message.reasoning
+  const tools = isStreaming ? streamingTools : message.tools || []
+  const artifacts = isStreaming ? streamingArtifacts : message.artifacts || []
+  const usage = getMessageUsage(isStreaming && streamingUsage ? streamingUsage : message, pricing)
 
   // If the message is being edited, render the EditableMessage component
-  if (isCurrentlyEditing) {
+  if (isEditing) {
     return (
       <EditableMessage
         message={message}
         conversationId={conversationId}
-        onSave={handleSaveEdit}
-        onCancel={handleCancelEdit}
+        parentId={editParentId}
+        onStreamEvent={onStreamEvent}
+        onSave={() => onCancelEdit?.()}
+        onCancel={() => onCancelEdit?.()}
         className={className}
       />
     )
@@ -74,6 +117,7 @@ const MessageItem = ({
   // Otherwise, render the normal message view
   return (
     <div
+      data-message-id={message.id}
       className={cn(
         'group flex w-full gap-6 px-8 py-5',
         isUser ? 'justify-end' : 'justify-start',
@@ -81,6 +125,14 @@ const MessageItem = ({
       )}
     >
       <div className={cn('flex max-w-[80%] flex-col gap-2', isUser ? 'items-end' : 'items-start')}>
+        {/* Images and documents sent with the message */}
+        {message.parts && message.parts.length > 0 && (
+          <MessageAttachments
+            parts={message.parts}
+            className={isUser ? 'justify-end' : 'justify-start'}
+          />
+        )}
+
         <div
           className={cn(
             'relative px-4 py-3 transition-all duration-200',
@@ -89,15 +141,37 @@ const MessageItem = ({
               : 'bg-card text-foreground border border-border rounded-[0.65rem] rounded-bl-sm shadow-sm hover:shadow-md'
           )}
         >
+          {/* Reasoning, collapsed so it stays out of the answer */}
+          {reasoning && (
+            <ReasoningSection
+              reasoning={reasoning}
+              startedAt={isStreaming ? reasoningStartedAt : null}
+              endedAt={isStreaming ? reasoningEndedAt : null}
+              durationMs={message.reasoning_duration_ms}
+              className="mb-3"
+            />
+          )}
+
+          {/* Tool calls made while answering */}
+          {tools.length > 0 && (
+            <div className="mb-3 flex flex-col gap-2">
+              {tools.map(tool => (
+                <ToolCallCard key={tool.id} toolCall={tool} />
+              ))}
+            </div>
+          )}
+
           {/* Message content */}
           <div aria-live={isStreaming ? 'polite' : 'off'}>
-            {/* Show typing indicator if streaming and no content yet */}
+            {/* Show typing indicator if streaming and no content or reasoning yet */}
             {isStreaming && displayContent.length === 0 ? (
-              <div className="flex items-center gap-1.5 py-1" aria-label="AI is thinking">
-                <span className="size-2 rounded-full bg-muted-foreground animate-bounce [animation-delay:-0.3s]" />
-                <span className="size-2 rounded-full bg-muted-foreground animate-bounce [animation-delay:-0.15s]" />
-                <span className="size-2 rounded-full bg-muted-foreground animate-bounce" />
-              </div>
+              reasoning ? null : (
+                <div className="flex items-center gap-1.5 py-1" aria-label="AI is thinking">
+                  <span className="size-2 rounded-full bg-muted-foreground animate-bounce [animation-delay:-0.3s]" />
+                  <span className="size-2 rounded-full bg-muted-foreground animate-bounce [animation-delay:-0.15s]" />
+                  <span className="size-2 rounded-full bg-muted-foreground animate-bounce" />
+                </div>
+              )
             ) : (
               <>
                 {/* Display content with enhanced markdown rendering */}
@@ -117,6 +191,15 @@ const MessageItem = ({
             )}
           </div>
 
+          {/* Artifacts open in the side panel instead of cluttering the message */}
+          {artifacts.length > 0 && (
+            <div className="mt-3 flex flex-col gap-2">
+              {artifacts.map(artifact => (
+                <ArtifactButton key={artifact.id} artifact={artifact} />
+              ))}
+            </div>
+          )}
+
           {/* Timestamp */}
           <div
             className={cn(
@@ -126,17 +209,33 @@ const MessageItem = ({
           >
             <span>{formatMessageTime(message.created_at)}</span>
             {isEdited && <span className="italic ml-1">(edited)</span>}
+            {isAssistant && usage && <UsageBadge usage={usage} className="ml-2" />}
           </div>
         </div>
 
-        {/* Action toolbar for AI messages - positioned outside the bubble */}
-        {isAssistant && displayContent && !isStreaming && (
-          <div className="flex items-center gap-1 mt-1 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
-            <MessageActions
-              message={message}
-              conversationId={conversationId}
-              className="flex items-center gap-1"
-            />
+        {/* Branch switcher and action toolbar - positioned outside the bubble */}
+        {((branch && branch.total > 1) || (displayContent && !isStreaming)) && (
+          <div className="flex items-center gap-1 mt-1">
+            {branch && branch.total > 1 && (
+              <BranchSwitcher
+                index={branch.index}
+                total={branch.total}
+                onSelect={branch.onSelect}
+                disabled={actionsDisabled}
+              />
+            )}
+            {displayContent && !isStreaming && (
+              <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity duration-200">
+                <MessageActions
+                  message={message}
+                  conversationId={conversationId}
+                  disabled={actionsDisabled}
+                  onStreamEvent={onStreamEvent}
+                  onEdit={isUser ? onStartEdit : undefined}
+                  className="flex items-center gap-1"
+                />
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -1,15 +1,39 @@
 'use client'
 
-import { useEffect, useRef, memo } from 'react'
+import { Fragment, useEffect, useRef, useState, memo } from 'react'
 import { AlertCircle } from 'lucide-react'
 import { ScrollArea } from '@/shared/ui/scroll-area'
 import { Button } from '@/shared/ui/button'
 import { Alert, AlertDescription } from '@/shared/ui/alert'
 import MessageItem from './MessageItem'
+import ModelSwitchDivider from './ModelSwitchDivider'
 import ChatOnboarding from './ChatOnboarding'
 import ChatLoadingState from './ChatLoadingState'
+import QueuedMessage from './QueuedMessage'
 import { useMessages } from '@/features/chat/queries/useMessage'
-import type { Message } from '@/features/chat/types/conversation'
+import { useConversation } from '@/features/chat/queries/useConversation'
+import { useProviders } from '@/features/chat/hooks/use-providers'
+import {
+  useCancelQueuedMessage,
+  useEditQueuedMessage,
+  useOutboxMessages,
+} from '@/features/chat/queries/useOutbox'
+import {
+  getActivePath,
+  getModelSwitches,
+  ROOT_PARENT_KEY,
+  type BranchSelections,
+} from '@/features/chat/lib/message-tree'
+import { getModelPricing } from '@/features/chat/lib/usage-utils'
+import { useEditingState } from '@/features/chat/hooks/use-editing-state'
+import { cn } from '@/shared/lib/utils'
+import type {
+  Artifact,
+  Message,
+  MessageTool,
+  MessageUsage,
+  StreamEvent,
+} from '@/features/chat/types/conversation'
 
 /**
  * Props for the MessageList component
@@ -17,20 +41,55 @@ import type { Message } from '@/features/chat/types/conversation'
  * @property conversationId - The ID of the conversation to display messages for
  * @property streaming - Whether a message is currently streaming
  * @property streamingContent - The content being streamed for the current message
+ * @property streamingReasoning - The reasoning being streamed for the current message
+ * @property reasoningStartedAt - When the current message started reasoning
+ * @property reasoningEndedAt - When the current message finished reasoning
+ * @property streamingTools - The tool calls being streamed for the current message
+ * @property streamingArtifacts - The artifacts being streamed for the current message
+ * @property streamingUsage - The token usage reported so far for the current message
+ * @property branchSelections - The selected branch under each parent message
+ * @property onSelectBranch - Called when the user switches to another branch
+ * @property onStreamEvent - Handler for the events streamed by message actions such as regenerate
+ * @property highlightMessageId - A message to scroll to and highlight, e.g. a search hit
  * @property className - Additional CSS classes to apply
  */
 interface MessageListWithQueryProps {
   conversationId: string
   streaming?: boolean
   streamingContent?: string
+  streamingReasoning?: string
+  reasoningStartedAt?: number | null
+  reasoningEndedAt?: number | null
+  streamingTools?: MessageTool[]
+  streamingArtifacts?: Artifact[]
+  streamingUsage?: MessageUsage | null
+  branchSelections?: BranchSelections
+  onSelectBranch?: (parentKey: string, messageId: string) => void
+  onStreamEvent?: (event: StreamEvent) => void
+  highlightMessageId?: string | null
   className?: string
 }
 
+/**
+ * How long a message linked from search stays highlighted
+ */
+const HIGHLIGHT_DURATION_MS = 3000
+
 const MessageListWithQuery = memo(
   ({
     conversationId,
     streaming = false,
     streamingContent = '',
+    streamingReasoning = '',
+    reasoningStartedAt = null,
+    reasoningEndedAt = null,
+    streamingTools = [],
+    streamingArtifacts = [],
+    streamingUsage = null,
+    branchSelections,
+    onSelectBranch,
+    onStreamEvent,
+    highlightMessageId = null,
     className = '',
   }: MessageListWithQueryProps) => {
     const messagesEndRef = useRef<HTMLDivElement>(null)
@@ -39,6 +98,24 @@ const MessageListWithQuery = memo(
     // Fetch messages using React Query
     const { data: messages = [], isLoading, isError, refetch } = useMessages(conversationId)
 
+    // Model pricing is used to estimate costs the backend leaves out, per message since
+    // the conversation may have switched models
+    const { data: conversation } = useConversation(conversationId)
+    const { models } = useProviders()
+    const fallbackPricing = conversation?.model ?? null
+    const getPricing = (modelId?: string) => getModelPricing(modelId, models, fallbackPricing)
+
+    // Only the messages on the selected branch of the conversation tree are shown
+    const activePath = getActivePath(messages, branchSelections)
+
+    // Messages written offline, shown as pending until they are sent
+    const { data: queuedMessages = [] } = useOutboxMessages(conversationId)
+    const editQueuedMessage = useEditQueuedMessage(conversationId)
+    const cancelQueuedMessage = useCancelQueuedMessage(conversationId)
+
+    // The message being edited in place, if any
+    const { editingMessageId, startEditing, stopEditing } = useEditingState()
+
     // Auto-scroll to bottom when new messages arrive or streaming updates
     useEffect(() => {
       if (messagesEndRef.current && scrollAreaRef.current) {
@@ -47,7 +124,61 @@ const MessageListWithQuery = memo(
           scrollContainer.scrollTop = scrollContainer.scrollHeight
         }
       }
-    }, [messages.length, streaming, streamingContent]) // Only depend on message count and streaming state
+    }, [
+      activePath.length,
+      queuedMessages.length,
+      streaming,
+      streamingContent,
+      streamingTools,
+      streamingArtifacts,
+    ]) // Only depend on message count and streaming state
+
+    // Scroll to the linked message once its branch is shown, after the scroll to bottom above
+    const [highlightedId, setHighlightedId] = useState<string | null>(null)
+    const scrolledToRef = useRef<string | null>(null)
+    const isHighlightShown =
+      !!highlightMessageId && activePath.some(node => node.message.id === highlightMessageId)
+
+    useEffect(() => {
+      if (!highlightMessageId || !isHighlightShown) return
+      if (scrolledToRef.current === highlightMessageId) return
+      scrolledToRef.current = highlightMessageId
+
+      scrollAreaRef.current
+        ?.querySelector(`[data-message-id="${highlightMessageId}"]`)
+        ?.scrollIntoView({ block: 'center' })
+      setHighlightedId(highlightMessageId)
+    }, [highlightMessageId, isHighlightShown])
+
+    useEffect(() => {
+      if (!highlightedId) return
+      const timeout = setTimeout(() => setHighlightedId(null), HIGHLIGHT_DURATION_MS)
+      return () => clearTimeout(timeout)
+    }, [highlightedId])
+
+    // Until the assistant message exists on the server, stream into a placeholder
+    const needsStreamingPlaceholder =
+      streaming &&
+      activePath.length > 0 &&
+      activePath[activePath.length - 1].message.role !== 'assistant'
+    const streamingPlaceholder: Message = {
+      id: 'streaming-placeholder',
+      conversation_id: conversationId,
+      role: 'assistant',
+      content: '',
+      model_id: conversation?.model_id,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    }
+
+    // Mark where a message was answered by a different model than the one before
+    const modelSwitches = getModelSwitches([
+      ...activePath.map(node => node.message),
+      ...(needsStreamingPlaceholder ? [streamingPlaceholder] : []),
+    ])
+    const getModelName = (modelId: string) =>
+      models.find(({ id }) => id === modelId)?.display_name ??
+      (conversation?.model?.id === modelId ? conversation.model.display_name : 'another model')
 
     if (isLoading && messages.length === 0) {
       return <ChatLoadingState className={className} />
@@ -72,24 +203,81 @@ const MessageListWithQuery = memo(
     return (
       <ScrollArea ref={scrollAreaRef} className={`h-full ${className}`}>
         <div className="mx-auto max-w-4xl px-6 py-6 pb-32">
-          {messages.length === 0 ? (
+          {messages.length === 0 && queuedMessages.length === 0 ? (
             <ChatOnboarding />
           ) : (
             <div className="space-y-2">
-              {messages.map((message: Message, index: number) => {
+              {activePath.map(({ message, parentKey, siblings, siblingIndex }, index) => {
                 const isStreamingMessage =
-                  streaming && index === messages.length - 1 && message.role === 'assistant'
+                  streaming && index === activePath.length - 1 && message.role === 'assistant'
+
+                const switchedModelId = modelSwitches.get(message.id)
 
                 return (
-                  <MessageItem
-                    key={message.id}
-                    message={message}
-                    conversationId={conversationId}
-                    isStreaming={isStreamingMessage}
-                    streamingContent={isStreamingMessage ? streamingContent : undefined}
-                  />
+                  <Fragment key={message.id}>
+                    {switchedModelId && (
+                      <ModelSwitchDivider modelName={getModelName(switchedModelId)} />
+                    )}
+                    <MessageItem
+                      message={message}
+                      conversationId={conversationId}
+                      isStreaming={isStreamingMessage}
+                      streamingContent={isStreamingMessage ? streamingContent : undefined}
+                      streamingReasoning={isStreamingMessage ? streamingReasoning : undefined}
+                      reasoningStartedAt={isStreamingMessage ? reasoningStartedAt : undefined}
+                      reasoningEndedAt={isStreamingMessage ? reasoningEndedAt : undefined}
+                      streamingTools={isStreamingMessage ? streamingTools : undefined}
+                      streamingArtifacts={isStreamingMessage ? streamingArtifacts : undefined}
+                      streamingUsage={isStreamingMessage ? streamingUsage : undefined}
+                      pricing={getPricing(message.model_id)}
+                      branch={
+                        onSelectBranch
+                          ? {
+                              index: siblingIndex,
+                              total: siblings.length,
+                              onSelect: nextIndex =>
+                                onSelectBranch(parentKey, siblings[nextIndex].id),
+                            }
+                          : undefined
+                      }
+                      isEditing={editingMessageId === message.id}
+                      editParentId={parentKey === ROOT_PARENT_KEY ? undefined : parentKey}
+                      onStartEdit={() => startEditing(message.id)}
+                      onCancelEdit={stopEditing}
+                      actionsDisabled={streaming}
+                      onStreamEvent={onStreamEvent}
+                      className={cn(
+                        'rounded-xl transition-colors duration-700',
+                        message.id === highlightedId && 'bg-primary/10'
+                      )}
+                    />
+                  </Fragment>
                 )
               })}
+              {needsStreamingPlaceholder && (
+                <MessageItem
+                  key="streaming-placeholder"
+                  message={streamingPlaceholder}
+                  conversationId={conversationId}
+                  isStreaming
+                  streamingContent={streamingContent}
+                  streamingReasoning={streamingReasoning}
+                  reasoningStartedAt={reasoningStartedAt}
+                  reasoningEndedAt={reasoningEndedAt}
+                  streamingTools={streamingTools}
+                  streamingArtifacts={streamingArtifacts}
+                  streamingUsage={streamingUsage}
+                  pricing={getPricing(streamingPlaceholder.model_id)}
+                />
+              )}
+              {queuedMessages.map(queuedMessage => (
+                <QueuedMessage
+                  key={queuedMessage.id}
+                  message={queuedMessage}
+                  onEdit={content => editQueuedMessage.mutate({ message: queuedMessage, content })}
+                  onCancel={() => cancelQueuedMessage.mutate(queuedMessage.id)}
+                />
+              ))}
             </div>
           )}
           <div ref={messagesEndRef} />
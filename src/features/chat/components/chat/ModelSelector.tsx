@@ -17,29 +17,52 @@ import { toast } from 'sonner'
 import { showApiKeyError } from '@/features/chat/lib/toast-utils'
 import Link from 'next/link'
 import { useProviders, type AvailableModel } from '@/features/chat/hooks/use-providers'
+import { useConversationModel } from '@/features/chat/hooks/use-conversation-model'
+import { formatModelDetails } from '@/features/chat/lib/usage-utils'
 import { cn } from '@/shared/lib/utils'
 
+/**
+ * Props for the ModelSelector component
+ *
+ * @property conversationId - The conversation whose model is picked; without one,
+ * the default model for new conversations
+ */
 interface ModelSelectorProps {
+  conversationId?: string
   disabled?: boolean
   className?: string
 }
 
+/**
+ * Group models by provider, keeping the order they come in
+ */
+const groupByProvider = (models: AvailableModel[]): [string, AvailableModel[]][] => {
+  const groups = new Map<string, AvailableModel[]>()
+  models.forEach(model => {
+    groups.set(model.provider_id, [...(groups.get(model.provider_id) ?? []), model])
+  })
+  return [...groups.entries()]
+}
+
 /**
  * Component for selecting an AI model from available providers.
- * Shows configured and unconfigured models, with options to set up API keys.
+ * Shows the models of configured providers grouped by provider, with their context
+ * window and pricing, and the providers that still need an API key.
  */
-const ModelSelector = ({ disabled = false, className = '' }: ModelSelectorProps) => {
+const ModelSelector = ({
+  conversationId,
+  disabled = false,
+  className = '',
+}: ModelSelectorProps) => {
   const [open, setOpen] = useState(false)
+  const { error, refetch, configuredModels, unconfiguredModels } = useProviders()
   const {
-    models,
+    model: selectedModel,
+    modelName,
+    setModel,
     loading,
-    error,
-    selectedModel,
-    setSelectedModel,
-    refetch,
-    configuredModels,
-    unconfiguredModels,
-  } = useProviders()
+    isSaving,
+  } = useConversationModel(conversationId)
 
   // Show error notification if there's an error loading models
   if (error) {
@@ -83,7 +106,7 @@ const ModelSelector = ({ disabled = false, className = '' }: ModelSelectorProps)
 
   const handleModelSelect = (model: AvailableModel) => {
     if (model.has_api_key) {
-      setSelectedModel(model)
+      setModel(model)
       setOpen(false)
     } else {
       showApiKeyError(model.provider_display_name)
@@ -97,11 +120,9 @@ const ModelSelector = ({ disabled = false, className = '' }: ModelSelectorProps)
           variant="outline"
           role="combobox"
           aria-expanded={open}
-          aria-label={
-            selectedModel ? `Selected model: ${selectedModel.display_name}` : 'Select a model'
-          }
+          aria-label={modelName ? `Selected model: ${modelName}` : 'Select a model'}
           className={cn('justify-between h-9 text-sm', className)}
-          disabled={disabled || loading}
+          disabled={disabled || loading || isSaving}
         >
           {loading ? (
             <span className="text-muted-foreground">Loading models...</span>
@@ -112,71 +133,76 @@ const ModelSelector = ({ disabled = false, className = '' }: ModelSelectorProps)
                 {selectedModel.provider_display_name}
               </Badge>
             </div>
+          ) : modelName ? (
+            <span className="truncate">{modelName}</span>
           ) : (
             <span className="text-muted-foreground">Select a model</span>
           )}
           <ChevronDown className="ml-2 size-4 shrink-0 opacity-50" />
         </Button>
       </PopoverTrigger>
-      <PopoverContent className="w-80 p-0" align="start">
+      <PopoverContent className="w-96 p-0" align="start">
         <Command>
           <CommandInput placeholder="Search models..." />
           <CommandList>
             <CommandEmpty>No models found.</CommandEmpty>
 
-            {configuredModels.length > 0 && (
-              <CommandGroup heading="Available Models">
-                {configuredModels.map(model => (
-                  <CommandItem
-                    key={model.id}
-                    value={`${model.display_name} ${model.provider_display_name}`}
-                    onSelect={() => handleModelSelect(model)}
-                    className="cursor-pointer"
-                    aria-label={`${model.display_name} by ${model.provider_display_name}`}
-                    aria-selected={selectedModel?.id === model.id}
-                  >
-                    <Check
-                      className={cn(
-                        'mr-2 size-4',
-                        selectedModel?.id === model.id ? 'opacity-100' : 'opacity-0'
-                      )}
-                      aria-hidden="true"
-                    />
-                    <div className="flex items-center justify-between w-full">
-                      <div className="flex flex-col">
-                        <span>{model.display_name}</span>
-                        <span className="text-xs text-muted-foreground">
-                          {model.provider_display_name}
-                        </span>
+            {groupByProvider(configuredModels).map(([providerId, providerModels]) => (
+              <CommandGroup key={providerId} heading={providerModels[0].provider_display_name}>
+                {providerModels.map(model => {
+                  const details = formatModelDetails(model)
+
+                  return (
+                    <CommandItem
+                      key={model.id}
+                      value={`${model.display_name} ${model.name} ${model.provider_display_name}`}
+                      onSelect={() => handleModelSelect(model)}
+                      className="cursor-pointer"
+                      aria-label={`${model.display_name} by ${model.provider_display_name}`}
+                      aria-selected={selectedModel?.id === model.id}
+                    >
+                      <Check
+                        className={cn(
+                          'mr-2 size-4',
+                          selectedModel?.id === model.id ? 'opacity-100' : 'opacity-0'
+                        )}
+                        aria-hidden="true"
+                      />
+                      <div className="flex items-center justify-between gap-2 w-full min-w-0">
+                        <div className="flex flex-col min-w-0">
+                          <span className="truncate">{model.display_name}</span>
+                          {details && (
+                            <span className="text-xs text-muted-foreground">{details}</span>
+                          )}
+                        </div>
+                        {model.supports_vision && (
+                          <Badge variant="secondary" className="text-xs">
+                            Vision
+                          </Badge>
+                        )}
                       </div>
-                      <Badge
-                        variant="outline"
-                        className="text-xs bg-success/10 text-success border-success/20"
-                      >
-                        Ready
-                      </Badge>
-                    </div>
-                  </CommandItem>
-                ))}
+                    </CommandItem>
+                  )
+                })}
               </CommandGroup>
-            )}
+            ))}
 
             {unconfiguredModels.length > 0 && (
               <CommandGroup heading="Needs Configuration">
-                {unconfiguredModels.map(model => (
+                {groupByProvider(unconfiguredModels).map(([providerId, providerModels]) => (
                   <CommandItem
-                    key={model.id}
-                    value={`${model.display_name} ${model.provider_display_name}`}
-                    onSelect={() => handleModelSelect(model)}
+                    key={providerId}
+                    value={providerModels[0].provider_display_name}
+                    onSelect={() => handleModelSelect(providerModels[0])}
                     className="cursor-pointer opacity-60"
-                    aria-label={`${model.display_name} by ${model.provider_display_name} - needs setup`}
+                    aria-label={`${providerModels[0].provider_display_name} - needs setup`}
                   >
                     <Settings className="mr-2 size-4" aria-hidden="true" />
                     <div className="flex items-center justify-between w-full">
                       <div className="flex flex-col">
-                        <span>{model.display_name}</span>
+                        <span>{providerModels[0].provider_display_name}</span>
                         <span className="text-xs text-muted-foreground">
-                          {model.provider_display_name}
+                          {providerModels.length} model{providerModels.length === 1 ? '' : 's'}
                         </span>
                       </div>
                       <Badge
@@ -0,0 +1,31 @@
+'use client'
+
+import { Repeat } from 'lucide-react'
+import { cn } from '@/shared/lib/utils'
+
+interface ModelSwitchDividerProps {
+  modelName: string
+  className?: string
+}
+
+/**
+ * Divider shown in the message list where the conversation moves to another model
+ */
+const ModelSwitchDivider = ({ modelName, className = '' }: ModelSwitchDividerProps) => {
+  return (
+    <div
+      role="separator"
+      aria-label={`Switched to ${modelName}`}
+      className={cn('flex items-center gap-3 py-2 text-xs text-muted-foreground', className)}
+    >
+      <div className="h-px flex-1 bg-border" />
+      <span className="flex items-center gap-1.5">
+        <Repeat className="size-3" aria-hidden="true" />
+        Switched to <span className="font-medium text-foreground">{modelName}</span>
+      </span>
+      <div className="h-px flex-1 bg-border" />
+    </div>
+  )
+}
+
+export default ModelSwitchDivider
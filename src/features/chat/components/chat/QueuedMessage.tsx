@@ -0,0 +1,126 @@
+'use client'
+
+import { useState } from 'react'
+import { Clock, Pencil, X } from 'lucide-react'
+import { Button } from '@/shared/ui/button'
+import { Textarea } from '@/shared/ui/textarea'
+import { cn } from '@/shared/lib/utils'
+import { isValidMessage } from '@/features/chat/lib/chat-utils'
+import type { OutboxMessage } from '@/features/chat/lib/outbox'
+
+/**
+ * Props for the QueuedMessage component
+ *
+ * @property message - The queued message to display
+ * @property onEdit - Called with the new text when the user edits the message
+ * @property onCancel - Called when the user cancels the message
+ * @property className - Additional CSS classes to apply
+ */
+interface QueuedMessageProps {
+  message: OutboxMessage
+  onEdit: (content: string) => void
+  onCancel: () => void
+  className?: string
+}
+
+/**
+ * A "pending" bubble for a message waiting in the offline outbox.
+ * It can be edited or cancelled until it is sent.
+ */
+const QueuedMessage = ({ message, onEdit, onCancel, className = '' }: QueuedMessageProps) => {
+  const [isEditing, setIsEditing] = useState(false)
+  const [content, setContent] = useState(message.request.content)
+
+  const handleSave = () => {
+    if (!isValidMessage(content)) return
+
+    if (content.trim() !== message.request.content) {
+      onEdit(content.trim())
+    }
+    setIsEditing(false)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Save on Ctrl+Enter or Cmd+Enter
+    if ((e.ctrlKey || e.metaKey) && e.key === 'Enter') {
+      e.preventDefault()
+      handleSave()
+    }
+
+    // Cancel on Escape
+    if (e.key === 'Escape') {
+      e.preventDefault()
+      setContent(message.request.content)
+      setIsEditing(false)
+    }
+  }
+
+  return (
+    <div className={cn('group flex w-full justify-end gap-6 px-8 py-5', className)}>
+      <div className="flex max-w-[80%] flex-col items-end gap-2">
+        {isEditing ? (
+          <div className="flex w-full min-w-[280px] flex-col gap-2">
+            <Textarea
+              value={content}
+              onChange={e => setContent(e.target.value)}
+              onKeyDown={handleKeyDown}
+              className="min-h-[80px] text-sm"
+              aria-label="Edit queued message"
+              autoFocus
+            />
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setContent(message.request.content)
+                  setIsEditing(false)
+                }}
+              >
+                Cancel
+              </Button>
+              <Button size="sm" onClick={handleSave} disabled={!isValidMessage(content)}>
+                Save
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="rounded-[0.65rem] rounded-br-sm border border-dashed border-primary/50 bg-primary/10 px-4 py-3 text-foreground">
+            <p className="whitespace-pre-wrap break-words">{message.request.content}</p>
+          </div>
+        )}
+
+        <div className="flex items-center gap-1 text-xs text-muted-foreground">
+          <Clock className="size-3" aria-hidden="true" />
+          <span>
+            {message.attempts > 0 ? 'Pending · failed to send' : 'Pending · waiting for connection'}
+          </span>
+          {!isEditing && (
+            <>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setIsEditing(true)}
+                className="ml-1 h-6 w-6 p-0"
+                aria-label="Edit queued message"
+              >
+                <Pencil className="size-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onCancel}
+                className="h-6 w-6 p-0"
+                aria-label="Cancel queued message"
+              >
+                <X className="size-3" />
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default QueuedMessage
@@ -0,0 +1,91 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Brain, ChevronDown } from 'lucide-react'
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/shared/ui/collapsible'
+import { cn } from '@/shared/lib/utils'
+import { formatElapsedTime } from '@/features/chat/lib/chat-utils'
+
+/**
+ * Props for the ReasoningSection component
+ *
+ * @property reasoning - The thinking text emitted by the model
+ * @property startedAt - When the model started thinking (streaming only)
+ * @property endedAt - When the model stopped thinking (streaming only)
+ * @property durationMs - How long the model thought, for saved messages
+ * @property className - Additional CSS classes to apply
+ */
+interface ReasoningSectionProps {
+  reasoning: string
+  startedAt?: number | null
+  endedAt?: number | null
+  durationMs?: number
+  className?: string
+}
+
+/**
+ * A collapsed section holding the model's reasoning, kept apart from the answer.
+ * While the model is thinking the header shows a live elapsed-time counter.
+ */
+const ReasoningSection = ({
+  reasoning,
+  startedAt = null,
+  endedAt = null,
+  durationMs,
+  className = '',
+}: ReasoningSectionProps) => {
+  const [open, setOpen] = useState(false)
+  const [now, setNow] = useState(() => Date.now())
+  const isThinking = startedAt !== null && endedAt === null
+
+  // Tick while thinking so the counter stays live
+  useEffect(() => {
+    if (!isThinking) return
+
+    const interval = setInterval(() => setNow(Date.now()), 500)
+    return () => clearInterval(interval)
+  }, [isThinking])
+
+  const elapsed = startedAt !== null ? (endedAt ?? now) - startedAt : durationMs
+
+  const label = isThinking
+    ? 'Thinking…'
+    : elapsed !== undefined
+      ? `Thought for ${formatElapsedTime(elapsed)}`
+      : 'Thinking'
+
+  return (
+    <Collapsible
+      open={open}
+      onOpenChange={setOpen}
+      className={cn('w-full rounded-md border border-border bg-muted/30 text-sm', className)}
+    >
+      <CollapsibleTrigger
+        className="flex w-full items-center justify-between gap-2 px-3 py-2 text-left text-muted-foreground hover:text-foreground"
+        aria-label={open ? 'Hide reasoning' : 'Show reasoning'}
+      >
+        <span className="flex items-center gap-2">
+          <Brain className={cn('size-4', isThinking && 'animate-pulse')} aria-hidden="true" />
+          <span className="font-medium">{label}</span>
+          {isThinking && elapsed !== undefined && (
+            <span className="tabular-nums text-xs" aria-live="off">
+              {formatElapsedTime(elapsed)}
+            </span>
+          )}
+        </span>
+        <ChevronDown
+          className={cn('size-4 transition-transform', open && 'rotate-180')}
+          aria-hidden="true"
+        />
+      </CollapsibleTrigger>
+
+      <CollapsibleContent className="border-t border-border px-3 py-2">
+        <p className="whitespace-pre-wrap text-xs leading-relaxed text-muted-foreground">
+          {reasoning}
+        </p>
+      </CollapsibleContent>
+    </Collapsible>
+  )
+}
+
+export default ReasoningSection
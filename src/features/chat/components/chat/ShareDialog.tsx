@@ -0,0 +1,164 @@
+'use client'
+
+import { useEffect, useId, useState } from 'react'
+import { Check, Copy, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/shared/ui/dialog'
+import { Button } from '@/shared/ui/button'
+import { Input } from '@/shared/ui/input'
+import { Label } from '@/shared/ui/label'
+import { Switch } from '@/shared/ui/switch'
+import { useCreateShare } from '@/features/chat/queries/useConversation'
+import { copyShareUrl, getShareUrl } from '@/features/chat/lib/share-utils'
+import type { ConversationShare } from '@/features/chat/types/conversation'
+
+/**
+ * Props for the ShareDialog component
+ *
+ * @property messageId - The last message of the branch being shown, which is the one shared
+ */
+interface ShareDialogProps {
+  conversationId: string
+  messageId?: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+/**
+ * Dialog for creating a public read-only link to the conversation.
+ * Links can be revoked from the settings.
+ */
+const ShareDialog = ({ conversationId, messageId, open, onOpenChange }: ShareDialogProps) => {
+  const createShare = useCreateShare()
+  const [hideSystemPrompt, setHideSystemPrompt] = useState(true)
+  const [includeLaterMessages, setIncludeLaterMessages] = useState(false)
+  const [share, setShare] = useState<ConversationShare | null>(null)
+  const [copied, setCopied] = useState(false)
+  const hideSystemPromptId = useId()
+  const includeLaterMessagesId = useId()
+
+  useEffect(() => {
+    if (open) {
+      setShare(null)
+      setCopied(false)
+    }
+  }, [open])
+
+  async function handleCreate() {
+    try {
+      const created = await createShare.mutateAsync({
+        conversationId,
+        data: {
+          message_id: messageId,
+          hide_system_prompt: hideSystemPrompt,
+          include_later_messages: includeLaterMessages,
+        },
+      })
+      setShare(created)
+    } catch (error) {
+      console.error('Failed to create share link:', error)
+    }
+  }
+
+  async function handleCopy() {
+    if (!share) return
+
+    if (await copyShareUrl(share.token)) {
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } else {
+      toast.error('Failed to copy link')
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Share Conversation</DialogTitle>
+          <DialogDescription>
+            Anyone with the link can read this conversation without signing in. They can&apos;t
+            reply to it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {share ? (
+          <div className="flex items-center gap-2 py-4">
+            <Input
+              value={getShareUrl(share.token)}
+              readOnly
+              onFocus={e => e.target.select()}
+              aria-label="Share link"
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="icon"
+              onClick={handleCopy}
+              aria-label={copied ? 'Link copied to clipboard' : 'Copy link'}
+            >
+              {copied ? <Check className="size-4" /> : <Copy className="size-4" />}
+            </Button>
+          </div>
+        ) : (
+          <div className="grid gap-4 py-4">
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-1">
+                <Label htmlFor={hideSystemPromptId}>Hide system prompt</Label>
+                <p className="text-xs text-muted-foreground">
+                  Viewers only see the messages, not your instructions to the model.
+                </p>
+              </div>
+              <Switch
+                id={hideSystemPromptId}
+                checked={hideSystemPrompt}
+                onCheckedChange={setHideSystemPrompt}
+              />
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-1">
+                <Label htmlFor={includeLaterMessagesId}>Include later messages</Label>
+                <p className="text-xs text-muted-foreground">
+                  Messages you send after sharing show up on the link too. Otherwise it stays as it
+                  is now.
+                </p>
+              </div>
+              <Switch
+                id={includeLaterMessagesId}
+                checked={includeLaterMessages}
+                onCheckedChange={setIncludeLaterMessages}
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {share ? (
+            <Button type="button" onClick={() => onOpenChange(false)}>
+              Done
+            </Button>
+          ) : (
+            <>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="button" onClick={handleCreate} disabled={createShare.isPending}>
+                {createShare.isPending && <Loader2 className="size-4 animate-spin" />}
+                Create Link
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default ShareDialog
@@ -0,0 +1,98 @@
+'use client'
+
+import { AlertCircle } from 'lucide-react'
+import { Command, CommandGroup, CommandItem, CommandList } from '@/shared/ui/command'
+import { cn } from '@/shared/lib/utils'
+import type { SlashCommandOption } from '@/features/chat/lib/slash-commands'
+
+/**
+ * Props for the SlashCommandMenu component
+ *
+ * @property id - Id of the list, referenced by the composer for accessibility
+ * @property options - Commands or argument suggestions matching the input
+ * @property activeIndex - Index of the highlighted option
+ * @property error - Why the typed command can't be run, if anything
+ * @property onHighlight - Called with the index of the option under the pointer
+ * @property onSelect - Called when an option is clicked
+ * @property className - Additional CSS classes to apply
+ */
+interface SlashCommandMenuProps {
+  id: string
+  options: SlashCommandOption[]
+  activeIndex: number
+  error?: string | null
+  onHighlight: (index: number) => void
+  onSelect: (option: SlashCommandOption) => void
+  className?: string
+}
+
+/**
+ * Popup above the composer listing slash commands and their arguments.
+ * Keyboard navigation is handled by the composer so focus stays in the textarea.
+ */
+const SlashCommandMenu = ({
+  id,
+  options,
+  activeIndex,
+  error,
+  onHighlight,
+  onSelect,
+  className = '',
+}: SlashCommandMenuProps) => {
+  const isArgument = options[0]?.id.startsWith('argument-')
+
+  return (
+    <Command
+      shouldFilter={false}
+      value={options[activeIndex]?.id ?? ''}
+      onValueChange={value => {
+        const index = options.findIndex(option => option.id === value)
+        if (index !== -1) onHighlight(index)
+      }}
+      className={cn('h-auto rounded-xl border shadow-md', className)}
+    >
+      {options.length > 0 && (
+        <CommandList id={id}>
+          <CommandGroup heading={isArgument ? 'Suggestions' : 'Commands'}>
+            {options.map(option => (
+              <CommandItem
+                key={option.id}
+                value={option.id}
+                onMouseDown={e => e.preventDefault()}
+                onSelect={() => onSelect(option)}
+                className="cursor-pointer"
+              >
+                <span className="font-medium">{option.label}</span>
+                {option.hint && (
+                  <span className="font-mono text-xs text-muted-foreground">{option.hint}</span>
+                )}
+                {option.description && (
+                  <span className="ml-auto truncate text-xs text-muted-foreground">
+                    {option.description}
+                  </span>
+                )}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        </CommandList>
+      )}
+      {error && (
+        <p
+          className={cn(
+            'flex items-center gap-1.5 px-3 py-2 text-xs text-destructive',
+            options.length > 0 && 'border-t'
+          )}
+          role="alert"
+        >
+          <AlertCircle className="size-3.5 shrink-0" aria-hidden="true" />
+          {error}
+        </p>
+      )}
+      <p className="border-t px-3 py-1.5 text-xs text-muted-foreground">
+        ↑↓ to navigate · Tab to complete · Enter to run · Esc to dismiss
+      </p>
+    </Command>
+  )
+}
+
+export default SlashCommandMenu
@@ -0,0 +1,185 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, BookText } from 'lucide-react'
+import { Button } from '@/shared/ui/button'
+import { Input } from '@/shared/ui/input'
+import { Label } from '@/shared/ui/label'
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/shared/ui/command'
+import { Popover, PopoverContent, PopoverTrigger } from '@/shared/ui/popover'
+import { Tooltip, TooltipTrigger, TooltipContent } from '@/shared/ui/tooltip'
+import { cn } from '@/shared/lib/utils'
+import { usePromptTemplates } from '@/features/chat/hooks/use-prompt-templates'
+import {
+  fillTemplate,
+  getTemplateVariables,
+  type PromptTemplate,
+} from '@/features/chat/lib/prompt-templates'
+
+/**
+ * Props for the TemplatePicker component
+ *
+ * @property onInsert - Called with the prompt once its variables are filled in
+ * @property disabled - Whether the picker is disabled
+ * @property className - Additional CSS classes to apply to the trigger
+ */
+interface TemplatePickerProps {
+  onInsert: (text: string) => void
+  disabled?: boolean
+  className?: string
+}
+
+/**
+ * Button in the composer for inserting a prompt template. Templates with
+ * variables show a small form for the values before the prompt is inserted.
+ */
+const TemplatePicker = ({ onInsert, disabled = false, className = '' }: TemplatePickerProps) => {
+  const { templates } = usePromptTemplates()
+  const [open, setOpen] = useState(false)
+  const [template, setTemplate] = useState<PromptTemplate | null>(null)
+  const [values, setValues] = useState<Record<string, string>>({})
+
+  const variables = template ? getTemplateVariables(template.content) : []
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen)
+    if (!nextOpen) {
+      setTemplate(null)
+      setValues({})
+    }
+  }
+
+  const insert = (text: string) => {
+    onInsert(text)
+    handleOpenChange(false)
+  }
+
+  const handleSelect = (selected: PromptTemplate) => {
+    if (getTemplateVariables(selected.content).length === 0) {
+      insert(selected.content)
+    } else {
+      setTemplate(selected)
+    }
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (template) insert(fillTemplate(template.content, values))
+  }
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <PopoverTrigger asChild>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              disabled={disabled}
+              className={cn(
+                'shrink-0 size-8 rounded-full p-0',
+                'text-muted-foreground hover:text-foreground hover:bg-accent/50',
+                'transition-all duration-200',
+                className
+              )}
+              aria-label="Insert template"
+            >
+              <BookText className="size-4" />
+            </Button>
+          </PopoverTrigger>
+        </TooltipTrigger>
+        <TooltipContent>Insert template</TooltipContent>
+      </Tooltip>
+      <PopoverContent className="w-80 p-0" align="start" side="top">
+        {template ? (
+          <form onSubmit={handleSubmit} className="space-y-4 p-4">
+            <div className="flex items-center gap-2">
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="size-7"
+                onClick={() => setTemplate(null)}
+                aria-label="Back to templates"
+              >
+                <ArrowLeft className="size-4" />
+              </Button>
+              <h4 className="truncate text-sm font-medium">{template.name}</h4>
+            </div>
+
+            {variables.map((variable, index) => (
+              <div key={variable} className="space-y-1.5">
+                <Label htmlFor={`template-variable-${variable}`} className="font-mono text-xs">
+                  {variable}
+                </Label>
+                <Input
+                  id={`template-variable-${variable}`}
+                  value={values[variable] ?? ''}
+                  onChange={e => setValues(prev => ({ ...prev, [variable]: e.target.value }))}
+                  autoFocus={index === 0}
+                  className="h-8"
+                />
+              </div>
+            ))}
+
+            <p className="line-clamp-4 whitespace-pre-wrap rounded-md bg-muted/50 p-2 text-xs text-muted-foreground">
+              {fillTemplate(template.content, values)}
+            </p>
+
+            <Button
+              type="submit"
+              size="sm"
+              className="w-full"
+              disabled={variables.some(variable => !values[variable]?.trim())}
+            >
+              Insert
+            </Button>
+          </form>
+        ) : (
+          <Command>
+            <CommandInput placeholder="Search templates..." />
+            <CommandList>
+              <CommandEmpty>No templates found.</CommandEmpty>
+              {templates.length > 0 && (
+                <CommandGroup heading="Templates">
+                  {templates.map(item => (
+                    <CommandItem
+                      key={item.id}
+                      value={`${item.name} ${item.tags.join(' ')} ${item.id}`}
+                      onSelect={() => handleSelect(item)}
+                      className="cursor-pointer"
+                    >
+                      <div className="flex min-w-0 flex-col">
+                        <span className="truncate">{item.name}</span>
+                        <span className="truncate text-xs text-muted-foreground">
+                          {item.content}
+                        </span>
+                      </div>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+            </CommandList>
+            <Link
+              href="/settings/templates"
+              className="border-t px-3 py-2 text-xs text-muted-foreground hover:text-foreground"
+            >
+              Manage templates
+            </Link>
+          </Command>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+export default TemplatePicker
@@ -0,0 +1,141 @@
+'use client'
+
+import { useState } from 'react'
+import { CheckCircle2, ChevronDown, Clock, Loader2, Wrench, XCircle } from 'lucide-react'
+import { Badge } from '@/shared/ui/badge'
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/shared/ui/collapsible'
+import { cn } from '@/shared/lib/utils'
+import type { MessageTool, ToolExecutionStatus } from '@/features/chat/types/conversation'
+
+/**
+ * Props for the ToolCallCard component
+ *
+ * @property toolCall - The tool call to display
+ * @property defaultOpen - Whether the card starts expanded
+ * @property className - Additional CSS classes to apply
+ */
+interface ToolCallCardProps {
+  toolCall: MessageTool
+  defaultOpen?: boolean
+  className?: string
+}
+
+/**
+ * Label, icon and colors for each execution status
+ */
+const STATUS_DISPLAY: Record<
+  ToolExecutionStatus,
+  { label: string; icon: typeof Clock; className: string }
+> = {
+  pending: {
+    label: 'Pending',
+    icon: Clock,
+    className: 'text-muted-foreground',
+  },
+  running: {
+    label: 'Running',
+    icon: Loader2,
+    className: 'text-primary [&>svg]:animate-spin',
+  },
+  completed: {
+    label: 'Completed',
+    icon: CheckCircle2,
+    className: 'bg-success/10 text-success border-success/20',
+  },
+  failed: {
+    label: 'Failed',
+    icon: XCircle,
+    className: 'bg-destructive/10 text-destructive border-destructive/20',
+  },
+}
+
+/**
+ * Format a JSON value for display
+ */
+const formatJson = (value: unknown): string => {
+  try {
+    return JSON.stringify(value, null, 2)
+  } catch {
+    return String(value)
+  }
+}
+
+/**
+ * A collapsible card showing a tool call made by the model: its input, the output
+ * streamed so far, any error and the current execution status.
+ */
+const ToolCallCard = ({ toolCall, defaultOpen = false, className = '' }: ToolCallCardProps) => {
+  const [open, setOpen] = useState(defaultOpen)
+  const status = STATUS_DISPLAY[toolCall.execution_status] ?? STATUS_DISPLAY.pending
+  const StatusIcon = status.icon
+  const toolName = toolCall.tool?.display_name || toolCall.tool?.name || toolCall.tool_id
+  const hasInput = Object.keys(toolCall.input || {}).length > 0
+  const output = toolCall.output ? formatJson(toolCall.output) : toolCall.output_text
+
+  return (
+    <Collapsible
+      open={open}
+      onOpenChange={setOpen}
+      className={cn('w-full rounded-md border border-border bg-muted/30 text-sm', className)}
+    >
+      <CollapsibleTrigger
+        className="flex w-full items-center justify-between gap-2 px-3 py-2 text-left"
+        aria-label={`Tool call ${toolName}: ${status.label}`}
+      >
+        <span className="flex min-w-0 items-center gap-2">
+          <Wrench className="size-4 shrink-0 text-muted-foreground" aria-hidden="true" />
+          <span className="truncate font-medium">{toolName}</span>
+        </span>
+        <span className="flex shrink-0 items-center gap-2">
+          <Badge variant="outline" className={cn('text-xs', status.className)}>
+            <StatusIcon aria-hidden="true" />
+            {status.label}
+          </Badge>
+          <ChevronDown
+            className={cn(
+              'size-4 text-muted-foreground transition-transform',
+              open && 'rotate-180'
+            )}
+            aria-hidden="true"
+          />
+        </span>
+      </CollapsibleTrigger>
+
+      <CollapsibleContent className="space-y-3 border-t border-border px-3 py-2">
+        {hasInput && (
+          <div>
+            <p className="mb-1 text-xs font-medium text-muted-foreground">Input</p>
+            <pre className="max-h-60 overflow-auto rounded bg-background p-2 text-xs">
+              {formatJson(toolCall.input)}
+            </pre>
+          </div>
+        )}
+
+        {output && (
+          <div>
+            <p className="mb-1 text-xs font-medium text-muted-foreground">Output</p>
+            <pre
+              className="max-h-60 overflow-auto whitespace-pre-wrap rounded bg-background p-2 text-xs"
+              aria-live={toolCall.execution_status === 'running' ? 'polite' : 'off'}
+            >
+              {output}
+            </pre>
+          </div>
+        )}
+
+        {toolCall.error_message && (
+          <div>
+            <p className="mb-1 text-xs font-medium text-destructive">Error</p>
+            <p className="text-xs text-destructive">{toolCall.error_message}</p>
+          </div>
+        )}
+
+        {!hasInput && !output && !toolCall.error_message && (
+          <p className="text-xs text-muted-foreground">Waiting for the tool to run...</p>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  )
+}
+
+export default ToolCallCard
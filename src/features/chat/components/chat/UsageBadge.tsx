@@ -0,0 +1,64 @@
+'use client'
+
+import { Coins } from 'lucide-react'
+import { Tooltip, TooltipTrigger, TooltipContent } from '@/shared/ui/tooltip'
+import { cn } from '@/shared/lib/utils'
+import { formatCost, formatTokenCount, type UsageSummary } from '@/features/chat/lib/usage-utils'
+
+/**
+ * Props for the UsageBadge component
+ *
+ * @property usage - The token usage and cost to display
+ * @property label - Heading shown in the tooltip breakdown
+ * @property className - Additional CSS classes to apply
+ */
+interface UsageBadgeProps {
+  usage: UsageSummary
+  label?: string
+  className?: string
+}
+
+/**
+ * A compact token count and cost, with an input/output breakdown in a tooltip
+ */
+const UsageBadge = ({ usage, label = 'Usage', className = '' }: UsageBadgeProps) => {
+  const costPrefix = usage.isEstimated ? '~' : ''
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span
+          className={cn('inline-flex items-center gap-1 tabular-nums', className)}
+          aria-label={`${usage.totalTokens} tokens${
+            usage.totalCost !== null ? `, ${costPrefix}${formatCost(usage.totalCost)}` : ''
+          }`}
+        >
+          <Coins className="size-3" aria-hidden="true" />
+          <span>{formatTokenCount(usage.totalTokens)} tokens</span>
+          {usage.totalCost !== null && (
+            <span>
+              · {costPrefix}
+              {formatCost(usage.totalCost)}
+            </span>
+          )}
+        </span>
+      </TooltipTrigger>
+      <TooltipContent side="top">
+        <div className="space-y-1 text-xs">
+          <p className="font-medium">{label}</p>
+          <p>
+            Input: {usage.inputTokens.toLocaleString()} tokens
+            {usage.inputCost !== null && ` (${formatCost(usage.inputCost)})`}
+          </p>
+          <p>
+            Output: {usage.outputTokens.toLocaleString()} tokens
+            {usage.outputCost !== null && ` (${formatCost(usage.outputCost)})`}
+          </p>
+          {usage.isEstimated && <p className="opacity-70">Cost estimated from model pricing</p>}
+        </div>
+      </TooltipContent>
+    </Tooltip>
+  )
+}
+
+export default UsageBadge
@@ -1,10 +1,22 @@
+export { default as AttachmentPreview } from './AttachmentPreview'
+export { default as BranchSwitcher } from './BranchSwitcher'
 export { default as ChatHeader } from './ChatHeader'
 export { default as ChatLoadingState } from './ChatLoadingState'
 export { default as ChatOnboarding } from './ChatOnboarding'
+export { default as ConversationSettingsSheet } from './ConversationSettingsSheet'
 export { default as EditableMessage } from './EditableMessage'
 export { default as MarkdownRenderer } from './MarkdownRenderer'
 export { default as MessageActions } from './MessageActions'
+export { default as MessageAttachments } from './MessageAttachments'
 export { default as MessageInput } from './MessageInput'
 export { default as MessageItem } from './MessageItem'
 export { default as MessageList } from './MessageList'
 export { default as ModelSelector } from './ModelSelector'
+export { default as ModelSwitchDivider } from './ModelSwitchDivider'
+export { default as QueuedMessage } from './QueuedMessage'
+export { default as ReasoningSection } from './ReasoningSection'
+export { default as ShareDialog } from './ShareDialog'
+export { default as SlashCommandMenu } from './SlashCommandMenu'
+export { default as TemplatePicker } from './TemplatePicker'
+export { default as ToolCallCard } from './ToolCallCard'
+export { default as UsageBadge } from './UsageBadge'
@@ -0,0 +1,335 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import { AlertCircle, Check, Timer, X } from 'lucide-react'
+import { Badge } from '@/shared/ui/badge'
+import { Button } from '@/shared/ui/button'
+import { ScrollArea } from '@/shared/ui/scroll-area'
+import { cn } from '@/shared/lib/utils'
+import { messageService } from '@/api/services/message-service'
+import { useStreamingState } from '@/features/chat/hooks/use-streaming-state'
+import { messageKeys } from '@/features/chat/queries/useMessage'
+import { findPromptMessage } from '@/features/chat/lib/compare-utils'
+import { formatElapsedTime } from '@/features/chat/lib/chat-utils'
+import { getMessageUsage } from '@/features/chat/lib/usage-utils'
+import MarkdownRenderer from '@/features/chat/components/chat/MarkdownRenderer'
+import ReasoningSection from '@/features/chat/components/chat/ReasoningSection'
+import UsageBadge from '@/features/chat/components/chat/UsageBadge'
+import type { AvailableModel } from '@/features/chat/hooks/use-providers'
+import type { Message, StreamEvent } from '@/features/chat/types/conversation'
+
+/**
+ * A prompt sent to every compare column at once
+ *
+ * @property id - Changes for every run so columns know to start streaming
+ * @property content - The prompt text
+ * @property parentId - The message the prompt replies to
+ * @property signal - Aborted to stop every column of the run
+ */
+export interface CompareRun {
+  id: number
+  content: string
+  parentId?: string
+  signal: AbortSignal
+}
+
+/**
+ * Props for the CompareColumn component
+ *
+ * @property conversationId - The conversation the prompt is sent in
+ * @property model - The model answering in this column
+ * @property run - The current prompt, or null before the first one is sent
+ * @property onKeep - Called with the id of the user message whose answer is kept
+ * @property onAnswered - Called with the id of the user message this column's answer replies to
+ * @property onRemove - Called to remove this model from the comparison
+ * @property onRunningChange - Called when the column starts or stops streaming
+ * @property className - Additional CSS classes to apply
+ */
+interface CompareColumnProps {
+  conversationId: string
+  model: AvailableModel
+  run: CompareRun | null
+  onKeep: (userMessageId: string) => void
+  onAnswered?: (userMessageId: string) => void
+  onRemove?: () => void
+  onRunningChange?: (running: boolean) => void
+  className?: string
+}
+
+/**
+ * Timestamps used to report latency
+ */
+interface ColumnTiming {
+  startedAt: number
+  firstTokenAt: number | null
+  endedAt: number | null
+}
+
+/**
+ * One model's answer in compare mode. The column streams the prompt on its own
+ * branch of the conversation and reports latency and token usage.
+ */
+const CompareColumn = ({
+  conversationId,
+  model,
+  run,
+  onKeep,
+  onAnswered,
+  onRemove,
+  onRunningChange,
+  className = '',
+}: CompareColumnProps) => {
+  const queryClient = useQueryClient()
+  const {
+    streaming,
+    startStreaming,
+    appendStreamingContent,
+    appendStreamingReasoning,
+    setStreamingUsage,
+    finalizeStreaming,
+    stopStreaming,
+  } = useStreamingState()
+  const [timing, setTiming] = useState<ColumnTiming | null>(null)
+  const [userMessageId, setUserMessageId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [now, setNow] = useState(() => Date.now())
+  const startedRef = useRef(false)
+  const assistantMessageIdRef = useRef<string | null>(null)
+  const userMessageIdRef = useRef<string | null>(null)
+
+  /**
+   * Record the user message this column answered, and tell the view about it
+   */
+  const resolveUserMessage = (id: string) => {
+    userMessageIdRef.current = id
+    setUserMessageId(id)
+    onAnswered?.(id)
+  }
+
+  /**
+   * Refresh the saved messages once the answer is over, working out the user
+   * message from them when the stream didn't name it
+   */
+  async function syncMessages() {
+    const queryKey = messageKeys.list(conversationId)
+    if (userMessageIdRef.current || !run) {
+      queryClient.invalidateQueries({ queryKey })
+      return
+    }
+
+    await queryClient.refetchQueries({ queryKey })
+    const messages = queryClient.getQueryData<Message[]>(queryKey) ?? []
+    const id = findPromptMessage(messages, run, model.id, assistantMessageIdRef.current)
+    if (id) resolveUserMessage(id)
+  }
+
+  const markFirstToken = () =>
+    setTiming(prev => (prev && !prev.firstTokenAt ? { ...prev, firstTokenAt: Date.now() } : prev))
+
+  const markEnded = () =>
+    setTiming(prev => (prev && !prev.endedAt ? { ...prev, endedAt: Date.now() } : prev))
+
+  const handleStreamEvent = (event: StreamEvent) => {
+    switch (event.type) {
+      case 'message_start':
+        if (event.data?.user_message_id) {
+          resolveUserMessage(event.data.user_message_id)
+        }
+        if (event.data?.message_id) {
+          assistantMessageIdRef.current = event.data.message_id
+        }
+        if (!startedRef.current) {
+          startedRef.current = true
+          startStreaming(conversationId, event.data?.message_id || `compare-${model.id}`)
+        }
+        break
+
+      case 'content_delta':
+        markFirstToken()
+        appendStreamingContent(event.data, event.id)
+        break
+
+      case 'reasoning_delta':
+        markFirstToken()
+        appendStreamingReasoning(event.data, event.id)
+        break
+
+      case 'usage':
+        setStreamingUsage(event.data, event.id)
+        break
+
+      case 'message_end':
+        if (event.usage) {
+          setStreamingUsage(event.usage, event.id)
+        }
+        markEnded()
+        finalizeStreaming()
+        syncMessages()
+        break
+
+      case 'message_cancelled':
+        markEnded()
+        stopStreaming()
+        syncMessages()
+        break
+
+      case 'error':
+        setError(event.error || 'An error occurred during streaming')
+        markEnded()
+        finalizeStreaming()
+        break
+    }
+  }
+
+  // Keep the latest handler so the stream below is not restarted on every render
+  const handleStreamEventRef = useRef(handleStreamEvent)
+  handleStreamEventRef.current = handleStreamEvent
+
+  // Stream the prompt whenever a new run starts
+  useEffect(() => {
+    if (!run) return
+
+    const abortController = new AbortController()
+    const abort = () => abortController.abort()
+    run.signal.addEventListener('abort', abort)
+    startedRef.current = false
+    assistantMessageIdRef.current = null
+    userMessageIdRef.current = null
+    setTiming({ startedAt: Date.now(), firstTokenAt: null, endedAt: null })
+    setUserMessageId(null)
+    setError(null)
+
+    messageService.sendMessageStream(
+      conversationId,
+      { content: run.content, parent_id: run.parentId, model_id: model.id },
+      event => handleStreamEventRef.current(event),
+      abortController.signal
+    )
+
+    return () => {
+      run.signal.removeEventListener('abort', abort)
+      abortController.abort()
+    }
+  }, [run, model.id, conversationId])
+
+  // Tick while waiting so the elapsed time stays live
+  const isRunning = !!timing && !timing.endedAt
+  useEffect(() => {
+    if (!isRunning) return
+
+    const interval = setInterval(() => setNow(Date.now()), 250)
+    return () => clearInterval(interval)
+  }, [isRunning])
+
+  useEffect(() => {
+    onRunningChange?.(isRunning)
+  }, [isRunning, onRunningChange])
+
+  const usage = streaming.streamingUsage ? getMessageUsage(streaming.streamingUsage) : null
+  const totalTime = timing ? (timing.endedAt ?? now) - timing.startedAt : null
+  const firstTokenTime = timing?.firstTokenAt ? timing.firstTokenAt - timing.startedAt : null
+  const isDone = !!timing?.endedAt && !error
+
+  return (
+    <section
+      className={cn(
+        'flex min-h-0 min-w-0 flex-1 flex-col rounded-lg border border-border bg-card',
+        className
+      )}
+      aria-label={`Answer from ${model.display_name}`}
+    >
+      {/* Column header */}
+      <div className="flex items-center justify-between gap-2 border-b border-border px-3 py-2">
+        <div className="flex min-w-0 items-center gap-2">
+          <span className="truncate text-sm font-medium">{model.display_name}</span>
+          <Badge variant="secondary" className="text-xs">
+            {model.provider_display_name}
+          </Badge>
+        </div>
+        {onRemove && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="size-7 shrink-0"
+            onClick={onRemove}
+            disabled={isRunning}
+            aria-label={`Remove ${model.display_name} from comparison`}
+          >
+            <X className="size-4" />
+          </Button>
+        )}
+      </div>
+
+      {/* Latency and usage */}
+      {timing && (
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1 border-b border-border px-3 py-1.5 text-xs text-muted-foreground">
+          <span className="flex items-center gap-1 tabular-nums">
+            <Timer className="size-3" aria-hidden="true" />
+            {firstTokenTime !== null
+              ? `First token ${formatElapsedTime(firstTokenTime)}`
+              : 'Waiting for first token'}
+          </span>
+          {totalTime !== null && (
+            <span className="tabular-nums">Total {formatElapsedTime(totalTime)}</span>
+          )}
+          {usage && <UsageBadge usage={usage} />}
+        </div>
+      )}
+
+      {/* Answer */}
+      <ScrollArea className="flex-1 min-h-0">
+        <div className="p-3" aria-live={isRunning ? 'polite' : 'off'}>
+          {!run ? (
+            <p className="text-sm text-muted-foreground">Send a prompt to compare answers.</p>
+          ) : error ? (
+            <div className="flex items-start gap-2 text-sm text-destructive">
+              <AlertCircle className="mt-0.5 size-4 shrink-0" aria-hidden="true" />
+              <span>{error}</span>
+            </div>
+          ) : (
+            <>
+              {streaming.streamingReasoning && (
+                <ReasoningSection
+                  reasoning={streaming.streamingReasoning}
+                  startedAt={streaming.reasoningStartedAt}
+                  endedAt={streaming.reasoningEndedAt}
+                  className="mb-3"
+                />
+              )}
+              {streaming.streamingContent ? (
+                <MarkdownRenderer content={streaming.streamingContent} className="text-sm" />
+              ) : (
+                isRunning &&
+                !streaming.streamingReasoning && (
+                  <div className="flex items-center gap-1.5 py-1" aria-label="AI is thinking">
+                    <span className="size-2 rounded-full bg-muted-foreground animate-bounce [animation-delay:-0.3s]" />
+                    <span className="size-2 rounded-full bg-muted-foreground animate-bounce [animation-delay:-0.15s]" />
+                    <span className="size-2 rounded-full bg-muted-foreground animate-bounce" />
+                  </div>
+                )
+              )}
+            </>
+          )}
+        </div>
+      </ScrollArea>
+
+      {/* Keep action */}
+      <div className="border-t border-border p-2">
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full"
+          onClick={() => userMessageId && onKeep(userMessageId)}
+          disabled={!isDone || !userMessageId}
+          aria-label={`Keep the answer from ${model.display_name}`}
+        >
+          <Check className="mr-2 size-4" aria-hidden="true" />
+          Keep this answer
+        </Button>
+      </div>
+    </section>
+  )
+}
+
+export default CompareColumn
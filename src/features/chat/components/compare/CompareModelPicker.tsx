@@ -0,0 +1,116 @@
+'use client'
+
+import { useState } from 'react'
+import { Check, ChevronDown } from 'lucide-react'
+import { Button } from '@/shared/ui/button'
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/shared/ui/command'
+import { Popover, PopoverContent, PopoverTrigger } from '@/shared/ui/popover'
+import { cn } from '@/shared/lib/utils'
+import type { AvailableModel } from '@/features/chat/hooks/use-providers'
+
+/**
+ * Props for the CompareModelPicker component
+ *
+ * @property models - The configured models that can be compared
+ * @property selectedIds - Ids of the models currently being compared
+ * @property onChange - Called with the new list of selected model ids
+ * @property maxModels - The most models that can be compared at once
+ * @property disabled - Whether the picker is disabled
+ * @property className - Additional CSS classes to apply
+ */
+interface CompareModelPickerProps {
+  models: AvailableModel[]
+  selectedIds: string[]
+  onChange: (selectedIds: string[]) => void
+  maxModels: number
+  disabled?: boolean
+  className?: string
+}
+
+/**
+ * Multi-select for the models shown side by side in compare mode
+ */
+const CompareModelPicker = ({
+  models,
+  selectedIds,
+  onChange,
+  maxModels,
+  disabled = false,
+  className = '',
+}: CompareModelPickerProps) => {
+  const [open, setOpen] = useState(false)
+  const isFull = selectedIds.length >= maxModels
+
+  const toggleModel = (modelId: string) => {
+    if (selectedIds.includes(modelId)) {
+      onChange(selectedIds.filter(id => id !== modelId))
+    } else if (!isFull) {
+      onChange([...selectedIds, modelId])
+    }
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          aria-label={`Models to compare: ${selectedIds.length} selected`}
+          className={cn('justify-between h-9 text-sm', className)}
+          disabled={disabled}
+        >
+          <span>
+            Models ({selectedIds.length}/{maxModels})
+          </span>
+          <ChevronDown className="ml-2 size-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search models..." />
+          <CommandList>
+            <CommandEmpty>No models found.</CommandEmpty>
+            <CommandGroup heading={`Pick up to ${maxModels} models`}>
+              {models.map(model => {
+                const isSelected = selectedIds.includes(model.id)
+
+                return (
+                  <CommandItem
+                    key={model.id}
+                    value={`${model.display_name} ${model.provider_display_name}`}
+                    onSelect={() => toggleModel(model.id)}
+                    disabled={!isSelected && isFull}
+                    className="cursor-pointer"
+                    aria-label={`${model.display_name} by ${model.provider_display_name}`}
+                    aria-selected={isSelected}
+                  >
+                    <Check
+                      className={cn('mr-2 size-4', isSelected ? 'opacity-100' : 'opacity-0')}
+                      aria-hidden="true"
+                    />
+                    <div className="flex flex-col">
+                      <span>{model.display_name}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {model.provider_display_name}
+                      </span>
+                    </div>
+                  </CommandItem>
+                )
+              })}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+export default CompareModelPicker
@@ -0,0 +1,219 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import { Columns2, X } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/shared/ui/button'
+import { cn } from '@/shared/lib/utils'
+import { useProviders } from '@/features/chat/hooks/use-providers'
+import { useConversationModel } from '@/features/chat/hooks/use-conversation-model'
+import { messageKeys, useDeleteMessage } from '@/features/chat/queries/useMessage'
+import { findPromptCopies } from '@/features/chat/lib/compare-utils'
+import { MessageInput } from '@/features/chat/components/chat'
+import CompareColumn, { type CompareRun } from './CompareColumn'
+import CompareModelPicker from './CompareModelPicker'
+import type { Message } from '@/features/chat/types/conversation'
+
+const MIN_COMPARE_MODELS = 2
+const MAX_COMPARE_MODELS = 4
+
+/**
+ * Props for the CompareView component
+ *
+ * @property conversationId - The conversation the prompt is sent in
+ * @property parentId - The message the prompt replies to, on the active branch
+ * @property onKeep - Called with the id of the user message whose answer is kept
+ * @property onExit - Called to leave compare mode
+ * @property className - Additional CSS classes to apply
+ */
+interface CompareViewProps {
+  conversationId: string
+  parentId?: string
+  onKeep: (userMessageId: string) => void
+  onExit: () => void
+  className?: string
+}
+
+/**
+ * Compare mode for a conversation. One prompt is sent to two to four models at once
+ * and their answers stream side by side, each on its own branch of the conversation.
+ */
+const CompareView = ({
+  conversationId,
+  parentId,
+  onKeep,
+  onExit,
+  className = '',
+}: CompareViewProps) => {
+  const { configuredModels, loading } = useProviders()
+  const { model: conversationModel } = useConversationModel(conversationId)
+  const [modelIds, setModelIds] = useState<string[]>([])
+  const [run, setRun] = useState<CompareRun | null>(null)
+  const [runningIds, setRunningIds] = useState<string[]>([])
+  // The user message each column's copy of the prompt was saved as, by model id
+  const [answeredIds, setAnsweredIds] = useState<Record<string, string>>({})
+  const abortControllerRef = useRef<AbortController | null>(null)
+  // Messages saved before the run, so an earlier identical prompt isn't taken for a copy
+  const previousIdsRef = useRef<Set<string>>(new Set())
+  const [isKeeping, setIsKeeping] = useState(false)
+  const queryClient = useQueryClient()
+  const deleteMessage = useDeleteMessage(conversationId)
+
+  // Start with the conversation's model and the next configured one
+  useEffect(() => {
+    if (modelIds.length > 0 || configuredModels.length === 0) return
+
+    const initialIds = [
+      ...(conversationModel?.has_api_key ? [conversationModel.id] : []),
+      ...configuredModels.map(model => model.id),
+    ]
+    setModelIds([...new Set(initialIds)].slice(0, MIN_COMPARE_MODELS))
+  }, [configuredModels, conversationModel, modelIds.length])
+
+  const models = modelIds
+    .map(id => configuredModels.find(model => model.id === id))
+    .filter(model => model !== undefined)
+  const isRunning = runningIds.length > 0
+  const canSend = models.length >= MIN_COMPARE_MODELS && !isRunning
+
+  const handleRunningChange = useCallback((modelId: string, running: boolean) => {
+    setRunningIds(prev => {
+      if (running === prev.includes(modelId)) return prev
+      return running ? [...prev, modelId] : prev.filter(id => id !== modelId)
+    })
+  }, [])
+
+  const handleAnswered = useCallback((modelId: string, userMessageId: string) => {
+    setAnsweredIds(prev => ({ ...prev, [modelId]: userMessageId }))
+  }, [])
+
+  // Stop the current run when leaving compare mode
+  useEffect(() => () => abortControllerRef.current?.abort(), [])
+
+  // Changing the models clears the answers so new columns don't replay an old prompt
+  const handleModelsChange = (ids: string[]) => {
+    setModelIds(ids)
+    setRun(null)
+    setAnsweredIds({})
+  }
+
+  const handleSend = (content: string) => {
+    abortControllerRef.current?.abort()
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
+    previousIdsRef.current = new Set(
+      (queryClient.getQueryData<Message[]>(messageKeys.list(conversationId)) ?? []).map(
+        message => message.id
+      )
+    )
+    setAnsweredIds({})
+    setRun({ id: Date.now(), content, parentId, signal: abortController.signal })
+  }
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort()
+  }
+
+  /**
+   * Keep one answer. Each column saved its own copy of the prompt, so the other copies
+   * are deleted first; when they can't all be found or deleted, compare mode stays open.
+   */
+  async function handleKeep(userMessageId: string) {
+    if (!run || isKeeping) return
+    abortControllerRef.current?.abort()
+    setIsKeeping(true)
+
+    try {
+      const queryKey = messageKeys.list(conversationId)
+      await queryClient.refetchQueries({ queryKey })
+      const messages = queryClient.getQueryData<Message[]>(queryKey) ?? []
+      const copies = new Set([
+        userMessageId,
+        ...Object.values(answeredIds),
+        ...findPromptCopies(messages, run, previousIdsRef.current),
+      ])
+
+      if (copies.size < models.length) {
+        toast.error("Couldn't find every model's copy of the prompt", {
+          description: 'Try again, or exit compare mode to keep all the answers.',
+        })
+        return
+      }
+
+      copies.delete(userMessageId)
+      const results = await Promise.allSettled([...copies].map(id => deleteMessage.mutateAsync(id)))
+      // A failed delete is already reported by the mutation
+      if (results.some(result => result.status === 'rejected')) return
+
+      onKeep(userMessageId)
+    } finally {
+      setIsKeeping(false)
+    }
+  }
+
+  return (
+    <div className={cn('flex h-full flex-col', className)}>
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center justify-between gap-2 px-6 pb-3">
+        <div className="flex items-center gap-3">
+          <span className="flex items-center gap-2 text-sm font-medium">
+            <Columns2 className="size-4" aria-hidden="true" />
+            Compare models
+          </span>
+          <CompareModelPicker
+            models={configuredModels}
+            selectedIds={modelIds}
+            onChange={handleModelsChange}
+            maxModels={MAX_COMPARE_MODELS}
+            disabled={loading || isRunning}
+          />
+        </div>
+        <Button variant="ghost" size="sm" onClick={onExit} aria-label="Exit compare mode">
+          <X className="mr-2 size-4" aria-hidden="true" />
+          Exit compare
+        </Button>
+      </div>
+
+      {/* Columns */}
+      <div className="flex flex-1 min-h-0 gap-3 overflow-x-auto px-6 pb-32">
+        {models.length < MIN_COMPARE_MODELS ? (
+          <div className="flex flex-1 items-center justify-center text-sm text-muted-foreground">
+            {configuredModels.length < MIN_COMPARE_MODELS
+              ? 'Configure at least two models in settings to compare answers.'
+              : 'Pick at least two models to compare.'}
+          </div>
+        ) : (
+          models.map(model => (
+            <CompareColumn
+              key={model.id}
+              conversationId={conversationId}
+              model={model}
+              run={run}
+              onKeep={handleKeep}
+              onAnswered={userMessageId => handleAnswered(model.id, userMessageId)}
+              onRemove={
+                models.length > MIN_COMPARE_MODELS
+                  ? () => handleModelsChange(modelIds.filter(id => id !== model.id))
+                  : undefined
+              }
+              onRunningChange={running => handleRunningChange(model.id, running)}
+              className="min-w-[280px]"
+            />
+          ))
+        )}
+      </div>
+
+      <MessageInput
+        conversationId={conversationId}
+        onSend={handleSend}
+        onStopStreaming={handleStop}
+        streaming={isRunning}
+        disabled={!canSend && !isRunning}
+        placeholder={isRunning ? 'Models are responding...' : `Ask ${models.length} models at once`}
+      />
+    </div>
+  )
+}
+
+export default CompareView
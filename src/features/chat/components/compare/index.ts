@@ -0,0 +1,3 @@
+export { default as CompareColumn } from './CompareColumn'
+export { default as CompareModelPicker } from './CompareModelPicker'
+export { default as CompareView } from './CompareView'
@@ -2,10 +2,32 @@
 
 import { SidebarInset } from '@/shared/ui/sidebar'
 import { cn } from '@/shared/lib/utils'
-import { ChatHeader, MessageList, MessageInput } from '@/features/chat/components/chat'
+import {
+  ChatHeader,
+  ConversationSettingsSheet,
+  MessageList,
+  MessageInput,
+  ShareDialog,
+} from '@/features/chat/components/chat'
 import { toast } from 'sonner'
-import { useEffect } from 'react'
-import { useChat } from '@/features/chat/hooks'
+import { useEffect, useRef, useState } from 'react'
+import { useSearchParams } from 'next/navigation'
+import {
+  useBranchSelection,
+  useChat,
+  useConversationExport,
+  useConversationUsage,
+  useOutboxFlush,
+} from '@/features/chat/hooks'
+import { useMessages } from '@/features/chat/queries/useMessage'
+import { useConversation } from '@/features/chat/queries/useConversation'
+import {
+  countCustomSettings,
+  getConversationSettings,
+} from '@/features/chat/lib/conversation-settings'
+import { getActivePath, ROOT_PARENT_KEY } from '@/features/chat/lib/message-tree'
+import { useArtifactPanel } from '@/features/chat/components/artifacts'
+import { CompareView } from '@/features/chat/components/compare'
 
 interface ChatContainerProps {
   // Header props
@@ -38,6 +60,68 @@ const ChatContainer = ({
     fetchOnMount: true,
   })
 
+  // Send messages queued while offline once the connection is back
+  useOutboxFlush(conversationId, handleStreamEvent)
+
+  // The selected branch of the conversation tree; new messages reply to its last message
+  const { selections, selectBranch, selectMessage } = useBranchSelection(conversationId)
+  const { data: messages = [] } = useMessages(conversationId)
+  const activePath = getActivePath(messages, selections)
+  const leafMessageId = activePath[activePath.length - 1]?.message.id
+
+  // Search results link to a message with ?highlight=<id>; show the branch holding it
+  const searchParams = useSearchParams()
+  const highlightMessageId = searchParams.get('highlight')
+  const revealedMessageRef = useRef<string | null>(null)
+
+  useEffect(() => {
+    if (!highlightMessageId || revealedMessageRef.current === highlightMessageId) return
+    if (!messages.some(message => message.id === highlightMessageId)) return
+
+    revealedMessageRef.current = highlightMessageId
+    selectMessage(messages, highlightMessageId)
+  }, [highlightMessageId, messages, selectMessage])
+
+  // Compare mode streams one prompt to several models as sibling branches of the leaf
+  const [compareMode, setCompareMode] = useState(false)
+
+  const handleKeepAnswer = (userMessageId: string) => {
+    selectBranch(leafMessageId ?? ROOT_PARENT_KEY, userMessageId)
+    setCompareMode(false)
+    toast.success('Answer added to the conversation')
+  }
+
+  const { exportConversation } = useConversationExport()
+  const [showShareDialog, setShowShareDialog] = useState(false)
+
+  // System prompt and sampling settings, edited in a side sheet
+  const { data: conversation } = useConversation(conversationId)
+  const settings = getConversationSettings(conversation)
+  const [showSettings, setShowSettings] = useState(false)
+
+  // Running token usage, including the message that is still streaming
+  const { total: usageTotal } = useConversationUsage(
+    conversationId,
+    streaming.isStreaming ? streaming.streamingUsage : null
+  )
+
+  // Share streamed artifacts with the panel, opening it when a new artifact starts
+  const { openArtifact, setStreamingArtifacts } = useArtifactPanel()
+  const seenArtifactIdsRef = useRef(new Set<string>())
+
+  useEffect(() => {
+    setStreamingArtifacts(streaming.streamingArtifacts)
+
+    const newArtifact = streaming.streamingArtifacts.find(
+      artifact => !seenArtifactIdsRef.current.has(artifact.id)
+    )
+    streaming.streamingArtifacts.forEach(artifact => seenArtifactIdsRef.current.add(artifact.id))
+
+    if (newArtifact) {
+      openArtifact(newArtifact.id)
+    }
+  }, [streaming.streamingArtifacts, setStreamingArtifacts, openArtifact])
+
   // Display errors as toasts
   useEffect(() => {
     if (error) {
@@ -56,28 +140,74 @@ const ChatContainer = ({
           <ChatHeader
             title={title}
             showBackButton={showBackButton}
+            conversationId={conversationId}
             showModelSelector={showModelSelector}
             disabled={streaming.isStreaming}
+            usage={usageTotal}
+            showArtifactsToggle={true}
+            compareMode={compareMode}
+            onToggleCompare={() => setCompareMode(prev => !prev)}
+            onExport={format => exportConversation(conversationId, format)}
+            onShare={() => setShowShareDialog(true)}
+            onOpenSettings={() => setShowSettings(true)}
+            customSettingsCount={countCustomSettings(settings)}
           />
         </div>
       )}
 
-      {/* Scrollable Message Area - Takes remaining height */}
-      <div className="flex-1 min-h-0">
-        <MessageList
-          conversationId={conversationId}
-          streaming={streaming.isStreaming}
-          streamingContent={streaming.streamingContent}
-        />
-      </div>
-
-      {/* Fixed Input Area */}
-      <MessageInput
+      {compareMode ? (
+        <div className="flex-1 min-h-0">
+          <CompareView
+            conversationId={conversationId}
+            parentId={leafMessageId}
+            onKeep={handleKeepAnswer}
+            onExit={() => setCompareMode(false)}
+          />
+        </div>
+      ) : (
+        <>
+          {/* Scrollable Message Area - Takes remaining height */}
+          <div className="flex-1 min-h-0">
+            <MessageList
+              conversationId={conversationId}
+              streaming={streaming.isStreaming}
+              streamingContent={streaming.streamingContent}
+              streamingReasoning={streaming.streamingReasoning}
+              reasoningStartedAt={streaming.reasoningStartedAt}
+              reasoningEndedAt={streaming.reasoningEndedAt}
+              streamingTools={streaming.streamingTools}
+              streamingArtifacts={streaming.streamingArtifacts}
+              streamingUsage={streaming.streamingUsage}
+              branchSelections={selections}
+              onSelectBranch={selectBranch}
+              onStreamEvent={handleStreamEvent}
+              highlightMessageId={highlightMessageId}
+            />
+          </div>
+
+          {/* Fixed Input Area */}
+          <MessageInput
+            conversationId={conversationId}
+            parentId={leafMessageId}
+            onStreamEvent={handleStreamEvent}
+            streaming={streaming.isStreaming}
+            onStopStreaming={stopStreaming}
+            placeholder={streaming.isStreaming ? 'AI is responding...' : 'Ask anything'}
+          />
+        </>
+      )}
+
+      <ShareDialog
+        conversationId={conversationId}
+        messageId={leafMessageId}
+        open={showShareDialog}
+        onOpenChange={setShowShareDialog}
+      />
+      <ConversationSettingsSheet
         conversationId={conversationId}
-        onStreamEvent={handleStreamEvent}
-        streaming={streaming.isStreaming}
-        onStopStreaming={stopStreaming}
-        placeholder={streaming.isStreaming ? 'AI is responding...' : 'Ask anything'}
+        settings={settings}
+        open={showSettings}
+        onOpenChange={setShowSettings}
       />
     </SidebarInset>
   )
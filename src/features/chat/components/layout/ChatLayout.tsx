@@ -3,6 +3,7 @@
 import { useEffect } from 'react'
 import { SidebarProvider, useSidebar } from '@/shared/ui/sidebar'
 import ConversationSidebar from '@/features/chat/components/sidebar/ConversationSidebar'
+import { ArtifactPanel, ArtifactPanelProvider } from '@/features/chat/components/artifacts'
 import { useIsMobile } from '@/shared/hooks/use-mobile'
 import type { ConversationSummaryResponse } from '@/features/chat/types/conversation'
 
@@ -19,7 +20,7 @@ interface ChatLayoutProps {
 
 /**
  * The main layout component for the chat interface.
- * Provides the overall structure with a sidebar and main content area.
+ * Provides the overall structure with a sidebar, main content area and artifact panel.
  * Optimized for ChatGPT-like scrolling experience.
  */
 const ChatLayout = ({
@@ -31,16 +32,21 @@ const ChatLayout = ({
 }: ChatLayoutProps) => {
   return (
     <SidebarProvider defaultOpen={defaultSidebarOpen}>
-      <div className="flex h-screen w-full bg-background" data-testid="chat-layout">
-        {/* Sidebar */}
-        <ConversationSidebar
-          currentConversationId={currentConversationId}
-          onConversationSelect={onConversationSelect}
-        />
+      <ArtifactPanelProvider>
+        <div className="flex h-screen w-full bg-background" data-testid="chat-layout">
+          {/* Sidebar */}
+          <ConversationSidebar
+            currentConversationId={currentConversationId}
+            onConversationSelect={onConversationSelect}
+          />
 
-        {/* Main Content Area with Responsive Handling */}
-        <ChatLayoutContent>{children}</ChatLayoutContent>
-      </div>
+          {/* Main Content Area with Responsive Handling */}
+          <ChatLayoutContent>{children}</ChatLayoutContent>
+
+          {/* Resizable Artifact Panel */}
+          <ArtifactPanel conversationId={currentConversationId} />
+        </div>
+      </ArtifactPanelProvider>
     </SidebarProvider>
   )
 }
@@ -73,7 +79,7 @@ const ChatLayoutContent = ({ children }: { children: React.ReactNode }) => {
 
   return (
     <div
-      className="flex flex-1 flex-col h-screen relative"
+      className="flex flex-1 min-w-0 flex-col h-screen relative"
       onClick={handleContentClick}
       role="main"
       aria-label="Chat content area"
@@ -0,0 +1,113 @@
+'use client'
+
+import { AlertCircle, Loader2 } from 'lucide-react'
+import { MarkdownRenderer } from '@/features/chat/components/chat'
+import { useSharedConversation } from '@/features/chat/queries/useConversation'
+import { getActivePath } from '@/features/chat/lib/message-tree'
+import { formatMessageTime } from '@/features/chat/lib/chat-utils'
+import { cn } from '@/shared/lib/utils'
+
+/**
+ * Props for the SharedConversationView component
+ *
+ * @property token - The share link's token
+ */
+interface SharedConversationViewProps {
+  token: string
+}
+
+/**
+ * Read-only view of a conversation opened through a share link,
+ * without the sidebar, message input or message actions
+ */
+const SharedConversationView = ({ token }: SharedConversationViewProps) => {
+  const { data: conversation, isLoading, isError } = useSharedConversation(token)
+
+  if (isLoading) {
+    return (
+      <div className="flex h-screen items-center justify-center text-sm text-muted-foreground">
+        <Loader2 className="size-4 animate-spin mr-2" />
+        Loading conversation...
+      </div>
+    )
+  }
+
+  if (isError || !conversation) {
+    return (
+      <div className="flex h-screen flex-col items-center justify-center gap-2 text-center">
+        <AlertCircle className="size-6 text-muted-foreground" />
+        <h1 className="text-lg font-semibold">This link is not available</h1>
+        <p className="text-sm text-muted-foreground">It may have been revoked by its owner.</p>
+      </div>
+    )
+  }
+
+  // The server only sends the shared branch; the path keeps replies in order
+  const messages = getActivePath(
+    conversation.messages.filter(message => message.role !== 'system')
+  ).map(node => node.message)
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-10 border-b bg-background/80 px-6 py-4 backdrop-blur-sm">
+        <div className="mx-auto max-w-3xl">
+          <h1 className="truncate text-lg font-semibold">{conversation.title}</h1>
+          <p className="text-xs text-muted-foreground">
+            Shared conversation
+            {conversation.model && ` · ${conversation.model.display_name}`}
+            {` · ${new Date(conversation.shared_at).toLocaleDateString()}`}
+          </p>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-3xl py-6">
+        {conversation.system_prompt && (
+          <div className="mx-8 mb-4 rounded-md border border-dashed px-4 py-3 text-sm">
+            <p className="mb-1 text-xs font-medium text-muted-foreground">System prompt</p>
+            <p className="whitespace-pre-wrap">{conversation.system_prompt}</p>
+          </div>
+        )}
+
+        {messages.length === 0 ? (
+          <p className="py-12 text-center text-muted-foreground">No messages</p>
+        ) : (
+          messages.map(message => {
+            const isUser = message.role === 'user'
+
+            return (
+              <div
+                key={message.id}
+                className={cn('flex w-full px-8 py-5', isUser ? 'justify-end' : 'justify-start')}
+              >
+                <div
+                  className={cn(
+                    'max-w-[80%] px-4 py-3',
+                    isUser
+                      ? 'bg-primary text-primary-foreground rounded-[0.65rem] rounded-br-sm shadow-sm'
+                      : 'bg-card text-foreground border border-border rounded-[0.65rem] rounded-bl-sm shadow-sm'
+                  )}
+                >
+                  <MarkdownRenderer
+                    content={message.content}
+                    isUserMessage={isUser}
+                    className="leading-relaxed"
+                  />
+                  <div
+                    className={cn(
+                      'mt-2 text-xs',
+                      isUser ? 'text-primary-foreground/70' : 'text-muted-foreground'
+                    )}
+                  >
+                    {formatMessageTime(message.created_at)}
+                  </div>
+                </div>
+              </div>
+            )
+          })
+        )}
+      </main>
+    </div>
+  )
+}
+
+export default SharedConversationView
@@ -0,0 +1 @@
+export { default as SharedConversationView } from './SharedConversationView'
@@ -0,0 +1,155 @@
+'use client'
+
+import { useState } from 'react'
+import { ChevronRight, Folder, MoreHorizontal, Pencil, Trash2 } from 'lucide-react'
+import {
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuBadge,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from '@/shared/ui/sidebar'
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/shared/ui/collapsible'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/shared/ui/dropdown-menu'
+import { cn } from '@/shared/lib/utils'
+import {
+  CONVERSATION_DRAG_TYPE,
+  type ConversationFolder,
+} from '@/features/chat/lib/conversation-organization'
+import type { ConversationSummaryResponse } from '@/features/chat/types/conversation'
+import ConversationItem from './ConversationItem'
+import FolderDialog from './FolderDialog'
+
+/**
+ * Props for the ConversationFolderSection component
+ *
+ * @property collapsed - Whether the folder's conversations are hidden
+ * @property onDropConversation - Called with the id of a conversation dropped on the folder
+ * @property onDelete - Removes the folder; its conversations become unfiled
+ * @property selectedIds - Ids of the selected conversations while selecting
+ */
+interface ConversationFolderSectionProps {
+  folder: ConversationFolder
+  conversations: ConversationSummaryResponse[]
+  availableTags: string[]
+  currentConversationId?: string
+  collapsed: boolean
+  selectionMode?: boolean
+  selectedIds?: string[]
+  onCollapsedChange: (collapsed: boolean) => void
+  onConversationClick: (conversation: ConversationSummaryResponse) => void
+  onSelectConversation?: (conversation: ConversationSummaryResponse, range: boolean) => void
+  onDropConversation: (conversationId: string) => void
+  onRename: (name: string) => void
+  onDelete: () => void
+}
+
+/**
+ * A collapsible folder in the sidebar that conversations can be dragged into
+ */
+const ConversationFolderSection = ({
+  folder,
+  conversations,
+  availableTags,
+  currentConversationId,
+  collapsed,
+  selectionMode = false,
+  selectedIds = [],
+  onCollapsedChange,
+  onConversationClick,
+  onSelectConversation,
+  onDropConversation,
+  onRename,
+  onDelete,
+}: ConversationFolderSectionProps) => {
+  const [isDragOver, setIsDragOver] = useState(false)
+  const [showRenameDialog, setShowRenameDialog] = useState(false)
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes(CONVERSATION_DRAG_TYPE)) return
+    e.preventDefault()
+    e.dataTransfer.dropEffect = 'move'
+    setIsDragOver(true)
+  }
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault()
+    setIsDragOver(false)
+    const conversationId = e.dataTransfer.getData(CONVERSATION_DRAG_TYPE)
+    if (conversationId) onDropConversation(conversationId)
+  }
+
+  return (
+    <Collapsible open={!collapsed} onOpenChange={open => onCollapsedChange(!open)} asChild>
+      <SidebarMenuItem
+        onDragOver={handleDragOver}
+        onDragLeave={() => setIsDragOver(false)}
+        onDrop={handleDrop}
+        className={cn('rounded-md', isDragOver && 'bg-sidebar-accent ring-1 ring-primary/50')}
+      >
+        <CollapsibleTrigger asChild>
+          <SidebarMenuButton aria-label={`Folder: ${folder.name}`} className="group/folder">
+            <ChevronRight
+              className={cn('size-4 transition-transform', !collapsed && 'rotate-90')}
+            />
+            <Folder className="size-4" />
+            <span className="truncate">{folder.name}</span>
+          </SidebarMenuButton>
+        </CollapsibleTrigger>
+        <SidebarMenuBadge className="right-7">{conversations.length}</SidebarMenuBadge>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <SidebarMenuAction showOnHover aria-label="Folder options">
+              <MoreHorizontal className="size-4" />
+            </SidebarMenuAction>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent side="right" align="start">
+            <DropdownMenuItem onClick={() => setShowRenameDialog(true)}>
+              <Pencil className="size-4 mr-2" />
+              <span>Rename Folder</span>
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={onDelete} className="text-destructive">
+              <Trash2 className="size-4 mr-2" />
+              <span>Delete Folder</span>
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <CollapsibleContent>
+          {conversations.length === 0 ? (
+            <p className="py-1 pl-8 text-xs text-muted-foreground">Drag conversations here</p>
+          ) : (
+            <SidebarMenu className="pl-4">
+              {conversations.map(conversation => (
+                <ConversationItem
+                  key={conversation.id}
+                  conversation={conversation}
+                  availableTags={availableTags}
+                  isActive={conversation.id === currentConversationId}
+                  selectionMode={selectionMode}
+                  selected={selectedIds.includes(conversation.id)}
+                  onClick={onConversationClick}
+                  onSelect={onSelectConversation}
+                />
+              ))}
+            </SidebarMenu>
+          )}
+        </CollapsibleContent>
+
+        <FolderDialog
+          open={showRenameDialog}
+          onOpenChange={setShowRenameDialog}
+          initialName={folder.name}
+          onSave={onRename}
+        />
+      </SidebarMenuItem>
+    </Collapsible>
+  )
+}
+
+export default ConversationFolderSection
@@ -1,11 +1,32 @@
 'use client'
 
-import { MoreVertical, Edit, Trash2 } from 'lucide-react'
+import {
+  MoreVertical,
+  Edit,
+  Trash2,
+  Download,
+  Pin,
+  PinOff,
+  FolderInput,
+  FolderPlus,
+  Tag,
+  Plus,
+  Archive,
+  Square,
+  SquareCheck,
+} from 'lucide-react'
 import { SidebarMenuButton, SidebarMenuAction, SidebarMenuItem } from '@/shared/ui/sidebar'
 import {
   DropdownMenu,
+  DropdownMenuCheckboxItem,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from '@/shared/ui/dropdown-menu'
 import {
@@ -33,42 +54,126 @@ import { Label } from '@/shared/ui/label'
 import { useState, useId } from 'react'
 import { toast } from 'sonner'
 import {
+  useUpdateConversation,
   useUpdateConversationTitle,
   useDeleteConversation,
+  useArchiveConversation,
 } from '@/features/chat/queries/useConversation'
+import { useHasDraft } from '@/features/chat/hooks/use-conversation-draft'
+import { useConversationExport } from '@/features/chat/hooks/use-conversation-export'
+import { useConversationOrganization } from '@/features/chat/hooks/use-conversation-organization'
+import { EXPORT_FORMATS, type ExportFormat } from '@/features/chat/lib/export-utils'
+import {
+  CONVERSATION_DRAG_TYPE,
+  TAG_COLORS,
+  type TagColor,
+} from '@/features/chat/lib/conversation-organization'
+import { cn } from '@/shared/lib/utils'
+import FolderDialog from './FolderDialog'
+import TagDialog from './TagDialog'
 import type { ConversationSummaryResponse } from '@/features/chat/types/conversation'
 
+/**
+ * Props for the ConversationItem component
+ *
+ * @property availableTags - Tags used across conversations, offered in the tag menu
+ * @property selectionMode - Whether clicking selects the conversation instead of opening it
+ * @property onSelect - Toggles the conversation's selection; range is set for shift-clicks
+ */
 interface ConversationItemProps {
   conversation: ConversationSummaryResponse
+  availableTags?: string[]
   isActive?: boolean
+  selectionMode?: boolean
+  selected?: boolean
   onClick: (conversation: ConversationSummaryResponse) => void
+  onSelect?: (conversation: ConversationSummaryResponse, range: boolean) => void
   className?: string
   role?: string
 }
 
 /**
  * Component for displaying a single conversation item in the sidebar.
- * Provides options to edit the title and delete the conversation.
+ * Provides options to edit the title, pin, move, tag, export and delete the conversation,
+ * and can be dragged onto a folder.
  */
 const ConversationItem = ({
   conversation,
+  availableTags = [],
   isActive = false,
+  selectionMode = false,
+  selected = false,
   onClick,
+  onSelect,
   className = '',
   role,
 }: ConversationItemProps) => {
   const [showEditDialog, setShowEditDialog] = useState(false)
   const [showDeleteDialog, setShowDeleteDialog] = useState(false)
+  const [showFolderDialog, setShowFolderDialog] = useState(false)
+  const [showTagDialog, setShowTagDialog] = useState(false)
   const [editTitle, setEditTitle] = useState(conversation.title)
   const [isHovered, setIsHovered] = useState(false)
 
   const titleInputId = useId()
 
+  // Conversations with unsent text are marked as drafts
+  const hasDraft = useHasDraft(conversation.id)
+
   // React Query mutations
   const updateTitle = useUpdateConversationTitle()
+  const updateConversation = useUpdateConversation()
   const deleteConversation = useDeleteConversation()
+  const archiveConversation = useArchiveConversation()
+  const { exportConversation } = useConversationExport()
+  const { folders, createFolder, getTagColor, setTagColor } = useConversationOrganization()
+
+  const tags = conversation.tags || []
+  const menuTags = Array.from(new Set([...availableTags, ...tags])).sort()
+
+  function updateMetadata(data: Parameters<typeof updateConversation.mutate>[0]['data']) {
+    updateConversation.mutate({ id: conversation.id, data })
+  }
+
+  const handleTogglePin = () => {
+    updateMetadata({ is_pinned: !conversation.is_pinned })
+  }
+
+  const handleMove = (folderId: string | null) => {
+    if ((conversation.folder_id ?? null) !== folderId) {
+      updateMetadata({ folder_id: folderId })
+    }
+  }
+
+  const handleCreateFolder = (name: string) => {
+    handleMove(createFolder(name).id)
+  }
+
+  const handleToggleTag = (tag: string) => {
+    updateMetadata({
+      tags: tags.includes(tag) ? tags.filter(t => t !== tag) : [...tags, tag],
+    })
+  }
+
+  const handleCreateTag = (tag: string, color: TagColor) => {
+    setTagColor(tag, color)
+    if (!tags.includes(tag)) {
+      updateMetadata({ tags: [...tags, tag] })
+    }
+  }
 
-  const handleClick = () => {
+  const handleDragStart = (e: React.DragEvent) => {
+    e.dataTransfer.setData(CONVERSATION_DRAG_TYPE, conversation.id)
+    e.dataTransfer.effectAllowed = 'move'
+  }
+
+  // A shift-click selects, starting selection mode if it isn't on yet
+  const handleClick = (e: React.MouseEvent) => {
+    if (onSelect && (selectionMode || e.shiftKey)) {
+      e.preventDefault()
+      onSelect(conversation, e.shiftKey)
+      return
+    }
     onClick(conversation)
   }
 
@@ -107,6 +212,18 @@ const ConversationItem = ({
     }
   }
 
+  async function handleArchive() {
+    try {
+      await archiveConversation.mutateAsync(conversation.id)
+      toast.success('Conversation archived')
+    } catch (error) {
+      console.error('Failed to archive conversation:', error)
+      toast.error('Failed to archive conversation', {
+        description: 'Please try again later.',
+      })
+    }
+  }
+
   async function handleConfirmDelete() {
     try {
       await deleteConversation.mutateAsync(conversation.id)
@@ -132,12 +249,15 @@ const ConversationItem = ({
       <SidebarMenuItem
         className={className}
         role={role}
+        draggable={!selectionMode}
+        onDragStart={handleDragStart}
         onMouseEnter={() => setIsHovered(true)}
         onMouseLeave={() => setIsHovered(false)}
       >
         <SidebarMenuButton
           onClick={handleClick}
           isActive={isActive}
+          aria-pressed={selectionMode ? selected : undefined}
           className={`
               flex-1 items-center
               ${
@@ -146,10 +266,19 @@ const ConversationItem = ({
                   : 'text-muted-foreground'
               }
             `}
-          aria-label={`Conversation: ${conversation.title}`}
+          aria-label={`Conversation: ${conversation.title}${hasDraft ? ' (draft)' : ''}`}
           aria-current={isActive ? 'page' : undefined}
         >
-          <div className="flex flex-col min-w-0 flex-1">
+          <div className="flex items-center gap-2 min-w-0 flex-1">
+            {selectionMode &&
+              (selected ? (
+                <SquareCheck className="size-4 shrink-0 text-primary" aria-hidden="true" />
+              ) : (
+                <Square className="size-4 shrink-0 text-muted-foreground" aria-hidden="true" />
+              ))}
+            {conversation.is_pinned && (
+              <Pin className="size-3 shrink-0 text-muted-foreground" aria-label="Pinned" />
+            )}
             <span
               className={`
                 truncate font-medium
@@ -158,11 +287,25 @@ const ConversationItem = ({
             >
               {conversation.title}
             </span>
+            {hasDraft && (
+              <span className="shrink-0 text-xs font-medium italic text-primary">Draft</span>
+            )}
+            {tags.length > 0 && (
+              <span className="ml-auto flex shrink-0 items-center gap-0.5" aria-label="Tags">
+                {tags.map(tag => (
+                  <span
+                    key={tag}
+                    title={tag}
+                    className={cn('size-2 rounded-full', TAG_COLORS[getTagColor(tag)])}
+                  />
+                ))}
+              </span>
+            )}
           </div>
         </SidebarMenuButton>
 
         {/* Only show menu when this specific item is hovered */}
-        {isHovered && (
+        {isHovered && !selectionMode && (
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <SidebarMenuAction
@@ -180,6 +323,82 @@ const ConversationItem = ({
                 <Edit className="size-4 mr-2" />
                 <span>Edit Title</span>
               </DropdownMenuItem>
+              <DropdownMenuItem onClick={handleTogglePin}>
+                {conversation.is_pinned ? (
+                  <PinOff className="size-4 mr-2" />
+                ) : (
+                  <Pin className="size-4 mr-2" />
+                )}
+                <span>{conversation.is_pinned ? 'Unpin' : 'Pin'}</span>
+              </DropdownMenuItem>
+              <DropdownMenuSub>
+                <DropdownMenuSubTrigger>
+                  <FolderInput className="size-4 mr-2" />
+                  <span>Move to</span>
+                </DropdownMenuSubTrigger>
+                <DropdownMenuSubContent>
+                  <DropdownMenuRadioGroup
+                    value={conversation.folder_id ?? ''}
+                    onValueChange={value => handleMove(value || null)}
+                  >
+                    <DropdownMenuRadioItem value="">No folder</DropdownMenuRadioItem>
+                    {folders.map(folder => (
+                      <DropdownMenuRadioItem key={folder.id} value={folder.id}>
+                        {folder.name}
+                      </DropdownMenuRadioItem>
+                    ))}
+                  </DropdownMenuRadioGroup>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={() => setShowFolderDialog(true)}>
+                    <FolderPlus className="size-4 mr-2" />
+                    <span>New Folder...</span>
+                  </DropdownMenuItem>
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
+              <DropdownMenuSub>
+                <DropdownMenuSubTrigger>
+                  <Tag className="size-4 mr-2" />
+                  <span>Tags</span>
+                </DropdownMenuSubTrigger>
+                <DropdownMenuSubContent>
+                  {menuTags.map(tag => (
+                    <DropdownMenuCheckboxItem
+                      key={tag}
+                      checked={tags.includes(tag)}
+                      onCheckedChange={() => handleToggleTag(tag)}
+                      onSelect={e => e.preventDefault()}
+                    >
+                      <span className={cn('size-2 rounded-full', TAG_COLORS[getTagColor(tag)])} />
+                      {tag}
+                    </DropdownMenuCheckboxItem>
+                  ))}
+                  {menuTags.length > 0 && <DropdownMenuSeparator />}
+                  <DropdownMenuItem onClick={() => setShowTagDialog(true)}>
+                    <Plus className="size-4 mr-2" />
+                    <span>New Tag...</span>
+                  </DropdownMenuItem>
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
+              <DropdownMenuSub>
+                <DropdownMenuSubTrigger>
+                  <Download className="size-4 mr-2" />
+                  <span>Export</span>
+                </DropdownMenuSubTrigger>
+                <DropdownMenuSubContent>
+                  {Object.entries(EXPORT_FORMATS).map(([format, { label }]) => (
+                    <DropdownMenuItem
+                      key={format}
+                      onClick={() => exportConversation(conversation.id, format as ExportFormat)}
+                    >
+                      {label}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
+              <DropdownMenuItem onClick={handleArchive}>
+                <Archive className="size-4 mr-2" />
+                <span>Archive</span>
+              </DropdownMenuItem>
               <DropdownMenuItem onClick={handleDelete} className="text-destructive">
                 <Trash2 className="size-4 mr-2" />
                 <span>Delete Conversation</span>
@@ -235,6 +454,14 @@ const ConversationItem = ({
         </DialogContent>
       </Dialog>
 
+      <FolderDialog
+        open={showFolderDialog}
+        onOpenChange={setShowFolderDialog}
+        onSave={handleCreateFolder}
+      />
+
+      <TagDialog open={showTagDialog} onOpenChange={setShowTagDialog} onSave={handleCreateTag} />
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <AlertDialogContent>
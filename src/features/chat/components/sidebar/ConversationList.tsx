@@ -8,33 +8,152 @@ import {
   SidebarMenuButton,
 } from '@/shared/ui/sidebar'
 import ConversationItem from './ConversationItem'
-import { useEffect, useRef } from 'react'
+import ConversationFolderSection from './ConversationFolderSection'
+import { useEffect, useRef, useState } from 'react'
+import { cn } from '@/shared/lib/utils'
+import { useUpdateConversation } from '@/features/chat/queries/useConversation'
+import { useConversationOrganization } from '@/features/chat/hooks/use-conversation-organization'
+import {
+  CONVERSATION_DRAG_TYPE,
+  groupConversations,
+} from '@/features/chat/lib/conversation-organization'
 import type { ConversationSummaryResponse } from '@/features/chat/types/conversation'
 
+/**
+ * Props for the ConversationList component
+ *
+ * @property availableTags - Tags used across conversations, offered in each item's tag menu
+ * @property filtered - Whether the conversations are filtered, which changes the empty state
+ * @property selectionMode - Whether clicking a conversation selects it instead of opening it
+ * @property onSelectionChange - Called with the new selection; a shift-click also starts selecting
+ */
 interface ConversationListProps {
   conversations: ConversationSummaryResponse[]
+  availableTags?: string[]
+  filtered?: boolean
   currentConversationId?: string
   loading?: boolean
   hasMore?: boolean
+  selectionMode?: boolean
+  selectedIds?: string[]
   onConversationClick: (conversation: ConversationSummaryResponse) => void
+  onSelectionChange?: (selectedIds: string[]) => void
   onLoadMore?: () => void
   className?: string
 }
 
 /**
- * Component for displaying a list of conversations with infinite scrolling.
+ * Component for displaying conversations with infinite scrolling: pinned ones first,
+ * then folders, then the rest. Folders only show the conversations loaded so far.
  */
 const ConversationList = ({
   conversations,
+  availableTags = [],
+  filtered = false,
   currentConversationId,
   loading = false,
   hasMore = false,
+  selectionMode = false,
+  selectedIds = [],
   onConversationClick,
+  onSelectionChange,
   onLoadMore,
   className = '',
 }: ConversationListProps) => {
   const observerRef = useRef<IntersectionObserver | null>(null)
   const loadMoreRef = useRef<HTMLDivElement | null>(null)
+  const [isDragOverUnfiled, setIsDragOverUnfiled] = useState(false)
+  // The last conversation clicked while selecting, where shift-click ranges start
+  const selectionAnchorRef = useRef<string | null>(null)
+
+  const { folders, isFolderCollapsed, setFolderCollapsed, renameFolder, deleteFolder } =
+    useConversationOrganization()
+  const updateConversation = useUpdateConversation()
+  const sections = groupConversations(conversations, folders)
+
+  // Move a conversation into a folder, or out of any folder when null
+  function moveConversation(conversationId: string, folderId: string | null) {
+    const conversation = conversations.find(conv => conv.id === conversationId)
+    if (!conversation || (conversation.folder_id ?? null) === folderId) return
+
+    updateConversation.mutate({ id: conversationId, data: { folder_id: folderId } })
+  }
+
+  // Deleting a folder keeps its conversations, moving the loaded ones out of it
+  function handleDeleteFolder(folderId: string) {
+    deleteFolder(folderId)
+    conversations
+      .filter(conversation => conversation.folder_id === folderId)
+      .forEach(conversation => moveConversation(conversation.id, null))
+  }
+
+  // Select or deselect a conversation, or everything visible between it and the last one clicked
+  function handleSelect(conversation: ConversationSummaryResponse, range: boolean) {
+    if (!onSelectionChange) return
+
+    const anchorId = selectionAnchorRef.current
+    selectionAnchorRef.current = conversation.id
+
+    if (range && anchorId && selectionMode) {
+      const visibleIds = [
+        ...sections.pinned,
+        ...sections.folders.flatMap(({ folder, conversations: folderConversations }) =>
+          isFolderCollapsed(folder.id) ? [] : folderConversations
+        ),
+        ...sections.unfiled,
+      ].map(({ id }) => id)
+      const from = visibleIds.indexOf(anchorId)
+      const to = visibleIds.indexOf(conversation.id)
+
+      if (from !== -1 && to !== -1) {
+        const rangeIds = visibleIds.slice(Math.min(from, to), Math.max(from, to) + 1)
+        onSelectionChange(Array.from(new Set([...selectedIds, ...rangeIds])))
+        return
+      }
+    }
+
+    onSelectionChange(
+      selectedIds.includes(conversation.id)
+        ? selectedIds.filter(id => id !== conversation.id)
+        : [...selectedIds, conversation.id]
+    )
+  }
+
+  function handleUnfiledDragOver(e: React.DragEvent) {
+    if (!e.dataTransfer.types.includes(CONVERSATION_DRAG_TYPE)) return
+    e.preventDefault()
+    e.dataTransfer.dropEffect = 'move'
+    setIsDragOverUnfiled(true)
+  }
+
+  function handleUnfiledDrop(e: React.DragEvent) {
+    e.preventDefault()
+    setIsDragOverUnfiled(false)
+    const conversationId = e.dataTransfer.getData(CONVERSATION_DRAG_TYPE)
+    if (conversationId) moveConversation(conversationId, null)
+  }
+
+  const renderItem = (conversation: ConversationSummaryResponse) => {
+    // Ensure conversation has an id to use as key
+    if (!conversation || !conversation.id) {
+      console.warn('Conversation missing ID:', conversation)
+      return null
+    }
+
+    return (
+      <ConversationItem
+        key={conversation.id}
+        conversation={conversation}
+        availableTags={availableTags}
+        isActive={conversation.id === currentConversationId}
+        selectionMode={selectionMode}
+        selected={selectedIds.includes(conversation.id)}
+        onClick={onConversationClick}
+        onSelect={onSelectionChange && handleSelect}
+        role="listitem"
+      />
+    )
+  }
 
   // Setup intersection observer for infinite scrolling
   function setupObserver() {
@@ -86,37 +205,68 @@ const ConversationList = ({
   }
 
   // Show empty state when no conversations
-  if (conversations.length === 0) {
+  if (conversations.length === 0 && (filtered || folders.length === 0)) {
     return (
       <div
         className={`flex flex-col items-center justify-center py-8 text-center ${className}`}
         aria-label="No conversations"
       >
-        <p className="text-sm text-muted-foreground mb-2">No conversations yet</p>
-        <p className="text-xs text-muted-foreground">Start a new chat to begin</p>
+        {filtered ? (
+          <p className="text-sm text-muted-foreground">No conversations with these tags</p>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground mb-2">No conversations yet</p>
+            <p className="text-xs text-muted-foreground">Start a new chat to begin</p>
+          </>
+        )}
       </div>
     )
   }
 
   return (
     <SidebarMenu className={`space-y-2 ${className}`} aria-label="Conversation list" role="list">
-      {conversations.map(conversation => {
-        // Ensure conversation has an id to use as key
-        if (!conversation || !conversation.id) {
-          console.warn('Conversation missing ID:', conversation)
-          return null
-        }
+      {sections.pinned.length > 0 && (
+        <>
+          <li className="px-2 pt-1 text-xs font-medium text-muted-foreground">Pinned</li>
+          {sections.pinned.map(renderItem)}
+        </>
+      )}
 
-        return (
-          <ConversationItem
-            key={conversation.id}
-            conversation={conversation}
-            isActive={conversation.id === currentConversationId}
-            onClick={onConversationClick}
-            role="listitem"
-          />
-        )
-      })}
+      {sections.folders.map(({ folder, conversations: folderConversations }) => (
+        <ConversationFolderSection
+          key={folder.id}
+          folder={folder}
+          conversations={folderConversations}
+          availableTags={availableTags}
+          currentConversationId={currentConversationId}
+          collapsed={isFolderCollapsed(folder.id)}
+          selectionMode={selectionMode}
+          selectedIds={selectedIds}
+          onCollapsedChange={collapsed => setFolderCollapsed(folder.id, collapsed)}
+          onConversationClick={onConversationClick}
+          onSelectConversation={onSelectionChange && handleSelect}
+          onDropConversation={conversationId => moveConversation(conversationId, folder.id)}
+          onRename={name => renameFolder(folder.id, name)}
+          onDelete={() => handleDeleteFolder(folder.id)}
+        />
+      ))}
+
+      {/* Dropping here takes a conversation out of its folder */}
+      <li
+        onDragOver={handleUnfiledDragOver}
+        onDragLeave={() => setIsDragOverUnfiled(false)}
+        onDrop={handleUnfiledDrop}
+        className={cn(
+          'rounded-md',
+          isDragOverUnfiled && 'bg-sidebar-accent ring-1 ring-primary/50',
+          folders.length > 0 && sections.unfiled.length === 0 && 'min-h-8'
+        )}
+      >
+        {(sections.pinned.length > 0 || folders.length > 0) && sections.unfiled.length > 0 && (
+          <p className="px-2 pt-1 pb-2 text-xs font-medium text-muted-foreground">Other</p>
+        )}
+        <SidebarMenu className="space-y-2">{sections.unfiled.map(renderItem)}</SidebarMenu>
+      </li>
 
       {/* Infinite scroll trigger element */}
       {hasMore && (
@@ -0,0 +1,152 @@
+'use client'
+
+import { Loader2, MessageSquare } from 'lucide-react'
+import {
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarMenuSub,
+  SidebarMenuSubButton,
+  SidebarMenuSubItem,
+} from '@/shared/ui/sidebar'
+import { Button } from '@/shared/ui/button'
+import { useConversationSearch } from '@/features/chat/queries/useConversation'
+import { getSearchTerms, splitHighlights } from '@/features/chat/lib/search-utils'
+
+/**
+ * Matches shown per conversation before the rest are summarized
+ */
+const VISIBLE_MATCHES = 3
+
+/**
+ * Props for the ConversationSearchResults component
+ *
+ * @property query - The search query, already debounced
+ * @property currentConversationId - The conversation that is open, if any
+ * @property onSelect - Opens a conversation, scrolled to a message when one is given
+ */
+interface ConversationSearchResultsProps {
+  query: string
+  currentConversationId?: string
+  onSelect: (conversationId: string, messageId?: string) => void
+  className?: string
+}
+
+/**
+ * Text with the searched terms highlighted
+ */
+const HighlightedText = ({ text, terms }: { text: string; terms: string[] }) => (
+  <>
+    {splitHighlights(text, terms).map((segment, index) =>
+      segment.match ? (
+        <mark
+          key={index}
+          className="rounded-sm bg-yellow-200 text-foreground dark:bg-yellow-500/40"
+        >
+          {segment.text}
+        </mark>
+      ) : (
+        segment.text
+      )
+    )}
+  </>
+)
+
+/**
+ * Search results grouped by conversation, each with the messages that matched
+ */
+const ConversationSearchResults = ({
+  query,
+  currentConversationId,
+  onSelect,
+  className = '',
+}: ConversationSearchResultsProps) => {
+  const { data: results = [], isLoading, isError, refetch } = useConversationSearch(query)
+  const terms = getSearchTerms(query)
+
+  if (isLoading) {
+    return (
+      <div
+        className={`flex items-center justify-center py-8 text-xs text-muted-foreground ${className}`}
+        aria-busy="true"
+      >
+        <Loader2 className="size-3 animate-spin mr-2" />
+        <span>Searching...</span>
+      </div>
+    )
+  }
+
+  if (isError) {
+    return (
+      <div className={`flex flex-col items-center py-8 text-center ${className}`}>
+        <p className="text-sm text-muted-foreground mb-2">Search failed</p>
+        <Button variant="link" className="p-0 h-auto text-sm" onClick={() => refetch()}>
+          Retry
+        </Button>
+      </div>
+    )
+  }
+
+  if (results.length === 0) {
+    return (
+      <div
+        className={`flex flex-col items-center justify-center py-8 text-center ${className}`}
+        aria-label="No search results"
+      >
+        <p className="text-sm text-muted-foreground">No conversations match &quot;{query}&quot;</p>
+      </div>
+    )
+  }
+
+  return (
+    <SidebarMenu className={className} aria-label="Search results">
+      {results.map(result => (
+        <SidebarMenuItem key={result.conversation_id}>
+          <SidebarMenuButton
+            onClick={() => onSelect(result.conversation_id)}
+            isActive={result.conversation_id === currentConversationId}
+            className="font-medium"
+          >
+            <MessageSquare className="size-4" />
+            <span className="truncate">
+              <HighlightedText text={result.title || 'Untitled'} terms={terms} />
+            </span>
+          </SidebarMenuButton>
+
+          {result.matches.length > 0 && (
+            <SidebarMenuSub>
+              {result.matches.slice(0, VISIBLE_MATCHES).map(match => (
+                <SidebarMenuSubItem key={match.message_id}>
+                  <SidebarMenuSubButton
+                    asChild
+                    className="h-auto items-start py-1.5 [&>span:last-child]:whitespace-normal"
+                  >
+                    <button
+                      type="button"
+                      onClick={() => onSelect(result.conversation_id, match.message_id)}
+                      className="w-full text-left"
+                    >
+                      <span className="line-clamp-3 text-xs text-muted-foreground">
+                        <span className="font-medium text-sidebar-foreground">
+                          {match.role === 'user' ? 'You' : 'Assistant'}:{' '}
+                        </span>
+                        <HighlightedText text={match.snippet} terms={terms} />
+                      </span>
+                    </button>
+                  </SidebarMenuSubButton>
+                </SidebarMenuSubItem>
+              ))}
+              {result.matches.length > VISIBLE_MATCHES && (
+                <li className="px-2 text-xs text-muted-foreground">
+                  +{result.matches.length - VISIBLE_MATCHES} more in this conversation
+                </li>
+              )}
+            </SidebarMenuSub>
+          )}
+        </SidebarMenuItem>
+      ))}
+    </SidebarMenu>
+  )
+}
+
+export default ConversationSearchResults
@@ -0,0 +1,327 @@
+'use client'
+
+import { useState } from 'react'
+import { Archive, Download, FolderInput, Loader2, Trash2, X } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/shared/ui/button'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/shared/ui/alert-dialog'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/shared/ui/dialog'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/shared/ui/dropdown-menu'
+import {
+  useConversationBatch,
+  type BatchAction,
+  type BatchReport,
+} from '@/features/chat/hooks/use-conversation-batch'
+import { useConversationOrganization } from '@/features/chat/hooks/use-conversation-organization'
+import { EXPORT_FORMATS, type ExportFormat } from '@/features/chat/lib/export-utils'
+import type { ConversationSummaryResponse } from '@/features/chat/types/conversation'
+
+/**
+ * Props for the ConversationSelectionBar component
+ *
+ * @property selectedConversations - The conversations actions apply to
+ * @property selectableCount - How many conversations are loaded and could be selected
+ * @property onComplete - Called after an action with its report, to update the selection
+ * @property onClose - Leaves selection mode
+ */
+interface ConversationSelectionBarProps {
+  selectedConversations: ConversationSummaryResponse[]
+  selectableCount: number
+  onSelectAll: () => void
+  onClearSelection: () => void
+  onComplete: (report: BatchReport) => void
+  onClose: () => void
+}
+
+const plural = (count: number) => `${count} conversation${count === 1 ? '' : 's'}`
+
+/**
+ * Wording for each action, as a verb in progress and in the past
+ */
+const ACTION_LABELS: Record<BatchAction['type'], { running: string; done: string }> = {
+  delete: { running: 'Deleting', done: 'Deleted' },
+  archive: { running: 'Archiving', done: 'Archived' },
+  move: { running: 'Moving', done: 'Moved' },
+  export: { running: 'Exporting', done: 'Exported' },
+}
+
+/**
+ * Toolbar shown while conversations are being selected in the sidebar.
+ * Applies delete, archive, move or export to all of them after one confirmation,
+ * and lists any that failed.
+ */
+const ConversationSelectionBar = ({
+  selectedConversations,
+  selectableCount,
+  onSelectAll,
+  onClearSelection,
+  onComplete,
+  onClose,
+}: ConversationSelectionBarProps) => {
+  const { runBatch, progress, isRunning } = useConversationBatch()
+  const { folders } = useConversationOrganization()
+  const [pendingAction, setPendingAction] = useState<BatchAction | null>(null)
+  const [runningAction, setRunningAction] = useState<BatchAction['type'] | null>(null)
+  const [report, setReport] = useState<BatchReport | null>(null)
+
+  const count = selectedConversations.length
+  const hasSelection = count > 0 && !isRunning
+
+  const describeAction = (action: BatchAction) => {
+    switch (action.type) {
+      case 'delete':
+        return `${plural(count)} and all of their messages will be permanently deleted. This action cannot be undone.`
+      case 'archive':
+        return `${plural(count)} will be hidden from the sidebar. You can restore them from the archive.`
+      case 'move': {
+        const folder = folders.find(({ id }) => id === action.folderId)
+        return folder
+          ? `${plural(count)} will be moved to "${folder.name}".`
+          : `${plural(count)} will be taken out of their folders.`
+      }
+      case 'export':
+        return `${plural(count)} will be downloaded as a zip.`
+    }
+  }
+
+  async function handleRun(action: BatchAction) {
+    setPendingAction(null)
+    setRunningAction(action.type)
+    const result = await runBatch(action, selectedConversations)
+    setRunningAction(null)
+    const label = ACTION_LABELS[action.type].done
+
+    if (result.failed.length === 0) {
+      toast.success(`${label} ${plural(result.succeeded.length)}`)
+    } else {
+      setReport(result)
+    }
+    onComplete(result)
+  }
+
+  return (
+    <div className="mx-2 mb-2 space-y-2 rounded-md border bg-sidebar-accent/50 p-2">
+      <div className="flex items-center gap-2 text-xs">
+        <span className="font-medium">{count} selected</span>
+        {count < selectableCount ? (
+          <button
+            type="button"
+            onClick={onSelectAll}
+            disabled={isRunning}
+            className="text-primary hover:underline disabled:opacity-50"
+          >
+            Select all {selectableCount}
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={onClearSelection}
+            disabled={isRunning}
+            className="text-primary hover:underline disabled:opacity-50"
+          >
+            Clear
+          </button>
+        )}
+        <Button
+          variant="ghost"
+          size="icon"
+          className="ml-auto size-6"
+          onClick={onClose}
+          disabled={isRunning}
+          aria-label="Done selecting"
+        >
+          <X className="size-4" />
+        </Button>
+      </div>
+
+      {progress ? (
+        <div className="space-y-1">
+          <div className="flex items-center text-xs text-muted-foreground">
+            <Loader2 className="size-3 animate-spin mr-2" />
+            <span>
+              {runningAction && ACTION_LABELS[runningAction].running}{' '}
+              {Math.min(progress.done + 1, progress.total)} of {progress.total}...
+            </span>
+          </div>
+          <div
+            role="progressbar"
+            aria-valuemin={0}
+            aria-valuemax={progress.total}
+            aria-valuenow={progress.done}
+            className="h-1.5 w-full overflow-hidden rounded-full bg-muted"
+          >
+            <div
+              className="h-full bg-primary transition-all"
+              style={{ width: `${(progress.done / progress.total) * 100}%` }}
+            />
+          </div>
+        </div>
+      ) : (
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="size-8"
+            title="Archive"
+            aria-label="Archive selected conversations"
+            disabled={!hasSelection}
+            onClick={() => setPendingAction({ type: 'archive' })}
+          >
+            <Archive className="size-4" />
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="size-8"
+                title="Move to folder"
+                aria-label="Move selected conversations"
+                disabled={!hasSelection}
+              >
+                <FolderInput className="size-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent side="right" align="start">
+              <DropdownMenuLabel>Move to</DropdownMenuLabel>
+              <DropdownMenuItem onClick={() => setPendingAction({ type: 'move', folderId: null })}>
+                No Folder
+              </DropdownMenuItem>
+              {folders.length > 0 && <DropdownMenuSeparator />}
+              {folders.map(folder => (
+                <DropdownMenuItem
+                  key={folder.id}
+                  onClick={() => setPendingAction({ type: 'move', folderId: folder.id })}
+                >
+                  {folder.name}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="size-8"
+                title="Export"
+                aria-label="Export selected conversations"
+                disabled={!hasSelection}
+              >
+                <Download className="size-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent side="right" align="start">
+              <DropdownMenuLabel>Export as zip of</DropdownMenuLabel>
+              {Object.entries(EXPORT_FORMATS).map(([format, { label }]) => (
+                <DropdownMenuItem
+                  key={format}
+                  onClick={() => handleRun({ type: 'export', format: format as ExportFormat })}
+                >
+                  {label}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="ml-auto size-8 text-destructive hover:text-destructive"
+            title="Delete"
+            aria-label="Delete selected conversations"
+            disabled={!hasSelection}
+            onClick={() => setPendingAction({ type: 'delete' })}
+          >
+            <Trash2 className="size-4" />
+          </Button>
+        </div>
+      )}
+
+      {/* One confirmation for the whole selection */}
+      <AlertDialog open={!!pendingAction} onOpenChange={open => !open && setPendingAction(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingAction?.type === 'delete'
+                ? 'Delete Conversations'
+                : pendingAction?.type === 'archive'
+                  ? 'Archive Conversations'
+                  : 'Move Conversations'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingAction && describeAction(pendingAction)}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => pendingAction && handleRun(pendingAction)}
+              className={pendingAction?.type === 'delete' ? 'bg-destructive' : undefined}
+            >
+              {pendingAction?.type === 'delete'
+                ? `Delete ${plural(count)}`
+                : pendingAction?.type === 'archive'
+                  ? `Archive ${plural(count)}`
+                  : `Move ${plural(count)}`}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Partial failures */}
+      <Dialog open={!!report} onOpenChange={open => !open && setReport(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>
+              {report &&
+                `${ACTION_LABELS[report.action.type].done} ${report.succeeded.length} of ${plural(
+                  report.succeeded.length + report.failed.length
+                )}`}
+            </DialogTitle>
+            <DialogDescription>
+              These conversations failed and are still selected so you can try again.
+            </DialogDescription>
+          </DialogHeader>
+          <ul className="max-h-64 space-y-2 overflow-y-auto text-sm">
+            {report?.failed.map(({ id, title, reason }) => (
+              <li key={id}>
+                <p className="truncate font-medium">{title}</p>
+                <p className="text-xs text-destructive">{reason}</p>
+              </li>
+            ))}
+          </ul>
+          <DialogFooter>
+            <Button type="button" onClick={() => setReport(null)}>
+              Close
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
+
+export default ConversationSelectionBar
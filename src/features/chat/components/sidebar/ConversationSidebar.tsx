@@ -1,26 +1,54 @@
 'use client'
 
-import { AlertCircle, Settings } from 'lucide-react'
+import {
+  AlertCircle,
+  Archive,
+  Download,
+  FolderPlus,
+  ListChecks,
+  Search,
+  Settings,
+  X,
+} from 'lucide-react'
 import {
   Sidebar,
   SidebarContent,
   SidebarFooter,
   SidebarGroup,
+  SidebarGroupAction,
   SidebarGroupContent,
   SidebarGroupLabel,
   SidebarHeader,
+  SidebarInput,
   useSidebar,
 } from '@/shared/ui/sidebar'
 import { Alert, AlertDescription } from '@/shared/ui/alert'
 import { Button } from '@/shared/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from '@/shared/ui/dropdown-menu'
 import ConversationList from './ConversationList'
+import ConversationSearchResults from './ConversationSearchResults'
+import ConversationSelectionBar from './ConversationSelectionBar'
+import FolderDialog from './FolderDialog'
 import NewChatButton from './NewChatButton'
 import { useRouter } from 'next/navigation'
 import {
   useInfiniteConversations,
   useCreateConversation,
 } from '@/features/chat/queries/useConversation'
-import { useState } from 'react'
+import { useConversationExport } from '@/features/chat/hooks/use-conversation-export'
+import { EXPORT_FORMATS, type ExportFormat } from '@/features/chat/lib/export-utils'
+import { MIN_SEARCH_LENGTH } from '@/features/chat/lib/search-utils'
+import { TAG_COLORS } from '@/features/chat/lib/conversation-organization'
+import { useConversationOrganization } from '@/features/chat/hooks/use-conversation-organization'
+import type { BatchReport } from '@/features/chat/hooks/use-conversation-batch'
+import { cn } from '@/shared/lib/utils'
+import { useEffect, useState } from 'react'
 import { toast } from 'sonner'
 import type { ConversationSummaryResponse } from '@/features/chat/types/conversation'
 
@@ -30,9 +58,14 @@ interface ConversationSidebarProps {
   className?: string
 }
 
+/**
+ * Delay before a search is sent, so typing doesn't send a request per key
+ */
+const SEARCH_DEBOUNCE_MS = 300
+
 /**
  * Sidebar component for displaying and managing conversations.
- * Provides navigation between conversations and creation of new conversations.
+ * Provides navigation between conversations, search and creation of new conversations.
  */
 const ConversationSidebar = ({
   currentConversationId,
@@ -42,6 +75,22 @@ const ConversationSidebar = ({
   const router = useRouter()
   const { isMobile, setOpenMobile } = useSidebar()
   const [isCreating, setIsCreating] = useState(false)
+  const [searchQuery, setSearchQuery] = useState('')
+  const [debouncedQuery, setDebouncedQuery] = useState('')
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(searchQuery.trim()), SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timeout)
+  }, [searchQuery])
+
+  const isSearching = debouncedQuery.length >= MIN_SEARCH_LENGTH
+
+  const [selectedTags, setSelectedTags] = useState<string[]>([])
+  const [showFolderDialog, setShowFolderDialog] = useState(false)
+  const { createFolder, getTagColor } = useConversationOrganization()
+
+  const [selectionMode, setSelectionMode] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
 
   // Fetch conversations with infinite scrolling
   const { data, fetchNextPage, hasNextPage, isFetchingNextPage, isLoading, isError, refetch } =
@@ -55,9 +104,45 @@ const ConversationSidebar = ({
   // Create conversation mutation
   const createConversation = useCreateConversation()
 
+  // Export every conversation into a zip
+  const { exportAllConversations, isExporting } = useConversationExport()
+
   // Flatten the pages of conversations into a single array
   const conversations = data?.pages.flat() || []
 
+  // Every tag in use, and the conversations that have all the selected ones
+  const availableTags = Array.from(
+    new Set(conversations.flatMap(conversation => conversation.tags || []))
+  ).sort()
+  const activeTags = selectedTags.filter(tag => availableTags.includes(tag))
+  const filteredConversations = conversations.filter(conversation =>
+    activeTags.every(tag => conversation.tags?.includes(tag))
+  )
+
+  // Only conversations still listed stay selected, e.g. after a tag filter changes
+  const selectedConversations = filteredConversations.filter(conversation =>
+    selectedIds.includes(conversation.id)
+  )
+
+  function handleSelectionChange(ids: string[]) {
+    setSelectedIds(ids)
+    setSelectionMode(true)
+  }
+
+  function exitSelectionMode() {
+    setSelectionMode(false)
+    setSelectedIds([])
+  }
+
+  // Keep the ones that failed selected so they can be retried
+  function handleBatchComplete(report: BatchReport) {
+    setSelectedIds(report.failed.map(({ id }) => id))
+  }
+
+  function toggleTagFilter(tag: string) {
+    setSelectedTags(prev => (prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]))
+  }
+
   // Handle creating a new conversation
   async function handleNewConversation() {
     if (isCreating) return
@@ -97,6 +182,19 @@ const ConversationSidebar = ({
     }
   }
 
+  // Open a search result, scrolled to the matching message when there is one
+  function handleSearchResultSelect(conversationId: string, messageId?: string) {
+    router.push(
+      messageId
+        ? `/chat/${conversationId}?highlight=${encodeURIComponent(messageId)}`
+        : `/chat/${conversationId}`
+    )
+
+    if (isMobile) {
+      setOpenMobile(false)
+    }
+  }
+
   // Handle loading more conversations
   function handleLoadMore() {
     if (!isFetchingNextPage && hasNextPage) {
@@ -136,7 +234,56 @@ const ConversationSidebar = ({
           />
         </div>
 
-        {isError && (
+        <div className="relative px-2">
+          <Search className="absolute left-4 top-1/2 -translate-y-1/2 size-4 text-muted-foreground" />
+          <SidebarInput
+            type="search"
+            value={searchQuery}
+            onChange={e => setSearchQuery(e.target.value)}
+            onKeyDown={e => e.key === 'Escape' && setSearchQuery('')}
+            placeholder="Search conversations..."
+            className="pl-8 pr-8 [&::-webkit-search-cancel-button]:hidden"
+            aria-label="Search conversations"
+          />
+          {searchQuery && (
+            <button
+              type="button"
+              onClick={() => setSearchQuery('')}
+              className="absolute right-4 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+              aria-label="Clear search"
+            >
+              <X className="size-4" />
+            </button>
+          )}
+        </div>
+
+        {!isSearching && availableTags.length > 0 && (
+          <div className="flex flex-wrap gap-1 px-2 pt-2" aria-label="Filter by tag">
+            {availableTags.map(tag => {
+              const isSelected = activeTags.includes(tag)
+
+              return (
+                <button
+                  key={tag}
+                  type="button"
+                  onClick={() => toggleTagFilter(tag)}
+                  aria-pressed={isSelected}
+                  className={cn(
+                    'flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs transition-colors',
+                    isSelected
+                      ? 'border-primary bg-primary/10 text-foreground'
+                      : 'text-muted-foreground hover:bg-sidebar-accent'
+                  )}
+                >
+                  <span className={cn('size-2 rounded-full', TAG_COLORS[getTagColor(tag)])} />
+                  {tag}
+                </button>
+              )
+            })}
+          </div>
+        )}
+
+        {isError && !isSearching && (
           <Alert variant="destructive" className="mx-2 mb-2">
             <AlertCircle className="h-4 w-4" />
             <AlertDescription className="flex items-center justify-between">
@@ -152,22 +299,99 @@ const ConversationSidebar = ({
           </Alert>
         )}
 
-        <SidebarGroup>
-          <SidebarGroupLabel>Conversations</SidebarGroupLabel>
-          <SidebarGroupContent>
-            <ConversationList
-              conversations={conversations}
-              currentConversationId={currentConversationId}
-              loading={isLoading}
-              hasMore={!!hasNextPage}
-              onConversationClick={handleConversationSelect}
-              onLoadMore={handleLoadMore}
-            />
-          </SidebarGroupContent>
-        </SidebarGroup>
+        {isSearching ? (
+          <SidebarGroup>
+            <SidebarGroupLabel>Search results</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <ConversationSearchResults
+                query={debouncedQuery}
+                currentConversationId={currentConversationId}
+                onSelect={handleSearchResultSelect}
+              />
+            </SidebarGroupContent>
+          </SidebarGroup>
+        ) : (
+          <SidebarGroup>
+            <SidebarGroupLabel>Conversations</SidebarGroupLabel>
+            <SidebarGroupAction
+              title="Select conversations"
+              aria-label="Select conversations"
+              aria-pressed={selectionMode}
+              className={cn('right-17', selectionMode && 'text-primary')}
+              onClick={() => (selectionMode ? exitSelectionMode() : setSelectionMode(true))}
+              disabled={conversations.length === 0}
+            >
+              <ListChecks />
+            </SidebarGroupAction>
+            <SidebarGroupAction
+              title="New folder"
+              aria-label="New folder"
+              className="right-10"
+              onClick={() => setShowFolderDialog(true)}
+            >
+              <FolderPlus />
+            </SidebarGroupAction>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <SidebarGroupAction
+                  title="Export all conversations"
+                  aria-label="Export all conversations"
+                  disabled={isExporting || conversations.length === 0}
+                >
+                  <Download />
+                </SidebarGroupAction>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent side="right" align="start">
+                <DropdownMenuLabel>Export all as zip of</DropdownMenuLabel>
+                {Object.entries(EXPORT_FORMATS).map(([format, { label }]) => (
+                  <DropdownMenuItem
+                    key={format}
+                    onClick={() => exportAllConversations(format as ExportFormat)}
+                  >
+                    {label}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <SidebarGroupContent>
+              {selectionMode && (
+                <ConversationSelectionBar
+                  selectedConversations={selectedConversations}
+                  selectableCount={filteredConversations.length}
+                  onSelectAll={() => setSelectedIds(filteredConversations.map(({ id }) => id))}
+                  onClearSelection={() => setSelectedIds([])}
+                  onComplete={handleBatchComplete}
+                  onClose={exitSelectionMode}
+                />
+              )}
+              <ConversationList
+                conversations={filteredConversations}
+                availableTags={availableTags}
+                filtered={activeTags.length > 0}
+                currentConversationId={currentConversationId}
+                loading={isLoading}
+                hasMore={!!hasNextPage}
+                selectionMode={selectionMode}
+                selectedIds={selectedIds}
+                onConversationClick={handleConversationSelect}
+                onSelectionChange={handleSelectionChange}
+                onLoadMore={handleLoadMore}
+              />
+            </SidebarGroupContent>
+          </SidebarGroup>
+        )}
       </SidebarContent>
 
       <SidebarFooter>
+        <Button
+          variant="ghost"
+          className="w-full h-9 justify-start text-sidebar-foreground"
+          onClick={() => router.push('/chat/archived')}
+          aria-label="Archived conversations"
+        >
+          <Archive className="size-4 mr-2" />
+          <span>Archived</span>
+        </Button>
         <Button
           variant="outline"
           className="w-full h-9 text-sidebar-foreground border-border"
@@ -178,6 +402,12 @@ const ConversationSidebar = ({
           <span>Settings</span>
         </Button>
       </SidebarFooter>
+
+      <FolderDialog
+        open={showFolderDialog}
+        onOpenChange={setShowFolderDialog}
+        onSave={name => createFolder(name)}
+      />
     </Sidebar>
   )
 }
@@ -0,0 +1,93 @@
+'use client'
+
+import { useEffect, useId, useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/shared/ui/dialog'
+import { Button } from '@/shared/ui/button'
+import { Input } from '@/shared/ui/input'
+import { Label } from '@/shared/ui/label'
+
+/**
+ * Props for the FolderDialog component
+ *
+ * @property initialName - The current name when renaming, empty when creating
+ * @property onSave - Called with the trimmed name
+ */
+interface FolderDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  initialName?: string
+  onSave: (name: string) => void
+}
+
+/**
+ * Dialog for naming a new folder or renaming one
+ */
+const FolderDialog = ({ open, onOpenChange, initialName = '', onSave }: FolderDialogProps) => {
+  const [name, setName] = useState(initialName)
+  const nameInputId = useId()
+  const isRename = !!initialName
+
+  useEffect(() => {
+    if (open) setName(initialName)
+  }, [open, initialName])
+
+  const handleSave = () => {
+    if (!name.trim()) return
+    onSave(name.trim())
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>{isRename ? 'Rename Folder' : 'New Folder'}</DialogTitle>
+          <DialogDescription>
+            {isRename
+              ? 'Enter a new name for this folder.'
+              : 'Group conversations by dragging them into the folder.'}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor={nameInputId} className="text-right">
+              Name
+            </Label>
+            <Input
+              id={nameInputId}
+              value={name}
+              onChange={e => setName(e.target.value)}
+              onKeyDown={e => {
+                if (e.key === 'Enter') {
+                  e.preventDefault()
+                  handleSave()
+                }
+              }}
+              className="col-span-3"
+              placeholder="e.g. Research"
+              autoFocus
+              maxLength={50}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={!name.trim()}>
+            {isRename ? 'Save Changes' : 'Create Folder'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default FolderDialog
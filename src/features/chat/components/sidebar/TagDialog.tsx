@@ -0,0 +1,121 @@
+'use client'
+
+import { useEffect, useId, useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/shared/ui/dialog'
+import { Button } from '@/shared/ui/button'
+import { Input } from '@/shared/ui/input'
+import { Label } from '@/shared/ui/label'
+import { cn } from '@/shared/lib/utils'
+import {
+  getDefaultTagColor,
+  normalizeTag,
+  TAG_COLORS,
+  type TagColor,
+} from '@/features/chat/lib/conversation-organization'
+
+/**
+ * Props for the TagDialog component
+ *
+ * @property onSave - Called with the normalized tag and its color
+ */
+interface TagDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSave: (tag: string, color: TagColor) => void
+}
+
+/**
+ * Dialog for adding a new colored tag to a conversation
+ */
+const TagDialog = ({ open, onOpenChange, onSave }: TagDialogProps) => {
+  const [name, setName] = useState('')
+  const [color, setColor] = useState<TagColor | null>(null)
+  const nameInputId = useId()
+
+  useEffect(() => {
+    if (open) {
+      setName('')
+      setColor(null)
+    }
+  }, [open])
+
+  // Until a color is picked, preview the one the tag would get anyway
+  const selectedColor = color ?? getDefaultTagColor(normalizeTag(name))
+
+  const handleSave = () => {
+    const tag = normalizeTag(name)
+    if (!tag) return
+    onSave(tag, selectedColor)
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>New Tag</DialogTitle>
+          <DialogDescription>Tags can be used to filter the conversation list.</DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor={nameInputId} className="text-right">
+              Name
+            </Label>
+            <Input
+              id={nameInputId}
+              value={name}
+              onChange={e => setName(e.target.value)}
+              onKeyDown={e => {
+                if (e.key === 'Enter') {
+                  e.preventDefault()
+                  handleSave()
+                }
+              }}
+              className="col-span-3"
+              placeholder="e.g. work"
+              autoFocus
+              maxLength={30}
+            />
+          </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label className="text-right">Color</Label>
+            <div className="col-span-3 flex flex-wrap gap-2" role="radiogroup" aria-label="Color">
+              {(Object.keys(TAG_COLORS) as TagColor[]).map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  role="radio"
+                  aria-checked={selectedColor === option}
+                  aria-label={option}
+                  onClick={() => setColor(option)}
+                  className={cn(
+                    'size-6 rounded-full ring-offset-2 ring-offset-background',
+                    TAG_COLORS[option],
+                    selectedColor === option && 'ring-2 ring-ring'
+                  )}
+                />
+              ))}
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={!normalizeTag(name)}>
+            Add Tag
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default TagDialog
@@ -2,3 +2,8 @@ export * from './ConversationItem'
 export * from './ConversationList'
 export * from './ConversationSidebar'
 export * from './NewChatButton'
+export * from './ConversationSearchResults'
+export * from './ConversationFolderSection'
+export * from './FolderDialog'
+export * from './TagDialog'
+export * from './ConversationSelectionBar'
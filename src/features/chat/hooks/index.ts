@@ -4,3 +4,15 @@ export * from './use-message-actions'
 export * from './use-streaming-state'
 export * from './use-editing-state'
 export * from './use-selected-model'
+export * from './use-conversation-model'
+export * from './use-conversation-usage'
+export * from './use-branch-selection'
+export * from './use-outbox-flush'
+export * from './use-conversation-draft'
+export * from './use-attachments'
+export * from './use-slash-commands'
+export * from './use-prompt-templates'
+export * from './use-conversation-export'
+export * from './use-conversation-import'
+export * from './use-conversation-organization'
+export * from './use-conversation-batch'
@@ -0,0 +1,206 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { toast } from 'sonner'
+import { v4 as uuidv4 } from 'uuid'
+import { attachmentService } from '@/api/services/attachment-service'
+import {
+  extractDocumentText,
+  getAttachmentKind,
+  MAX_ATTACHMENTS,
+  validateAttachment,
+  type AttachmentKind,
+} from '@/features/chat/lib/attachment-utils'
+import type { MessagePart } from '@/features/chat/types/conversation'
+
+/**
+ * A file attached to the message being written
+ *
+ * @property status - `uploading` for images, `extracting` for documents, then `ready` or `error`
+ * @property progress - Upload progress from 0 to 100
+ * @property previewUrl - Object URL used for image thumbnails
+ * @property part - The message part sent once the file is ready
+ */
+export interface PendingAttachment {
+  id: string
+  file: File
+  kind: AttachmentKind
+  status: 'uploading' | 'extracting' | 'ready' | 'error'
+  progress: number
+  previewUrl?: string
+  part?: MessagePart
+  error?: string
+}
+
+/**
+ * Options for the attachments hook
+ *
+ * @property allowImages - Whether the selected model can read images
+ * @property imageBlockedMessage - Shown when an image is attached to a model without vision
+ */
+interface UseAttachmentsOptions {
+  allowImages: boolean
+  imageBlockedMessage: string
+}
+
+/**
+ * Hook for managing the files attached to a message. Images are uploaded with
+ * progress; text, CSV and PDF files are read in the browser into context blocks.
+ */
+export const useAttachments = ({ allowImages, imageBlockedMessage }: UseAttachmentsOptions) => {
+  const [attachments, setAttachments] = useState<PendingAttachment[]>([])
+  const controllersRef = useRef(new Map<string, AbortController>())
+  const attachmentsRef = useRef(attachments)
+  attachmentsRef.current = attachments
+
+  // Stop uploads and release thumbnails on unmount
+  useEffect(() => {
+    const controllers = controllersRef.current
+
+    return () => {
+      controllers.forEach(controller => controller.abort())
+      attachmentsRef.current.forEach(attachment => {
+        if (attachment.previewUrl) URL.revokeObjectURL(attachment.previewUrl)
+      })
+    }
+  }, [])
+
+  const updateAttachment = (id: string, changes: Partial<PendingAttachment>) => {
+    setAttachments(prev =>
+      prev.map(attachment => (attachment.id === id ? { ...attachment, ...changes } : attachment))
+    )
+  }
+
+  /**
+   * Upload an image, reporting progress as it goes
+   */
+  async function uploadImage(attachment: PendingAttachment) {
+    const controller = new AbortController()
+    controllersRef.current.set(attachment.id, controller)
+
+    try {
+      const uploaded = await attachmentService.uploadAttachment(
+        attachment.file,
+        progress => updateAttachment(attachment.id, { progress }),
+        controller.signal
+      )
+
+      updateAttachment(attachment.id, {
+        status: 'ready',
+        progress: 100,
+        part: {
+          type: 'image',
+          attachment_id: uploaded.id,
+          url: uploaded.url,
+          name: attachment.file.name,
+          mime_type: attachment.file.type,
+        },
+      })
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return
+
+      updateAttachment(attachment.id, {
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Failed to upload attachment',
+      })
+    } finally {
+      controllersRef.current.delete(attachment.id)
+    }
+  }
+
+  /**
+   * Read a document into a text context block
+   */
+  async function extractDocument(attachment: PendingAttachment) {
+    try {
+      const text = await extractDocumentText(attachment.file)
+
+      updateAttachment(attachment.id, {
+        status: 'ready',
+        progress: 100,
+        part: {
+          type: 'document',
+          name: attachment.file.name,
+          mime_type: attachment.file.type || 'text/plain',
+          text,
+        },
+      })
+    } catch (error) {
+      updateAttachment(attachment.id, {
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Failed to read file',
+      })
+    }
+  }
+
+  function addFiles(files: File[]) {
+    const room = MAX_ATTACHMENTS - attachments.length
+    if (files.length > room) {
+      toast.error(`You can attach up to ${MAX_ATTACHMENTS} files to a message`)
+    }
+
+    for (const file of files.slice(0, Math.max(room, 0))) {
+      const validationError = validateAttachment(file)
+      if (validationError) {
+        toast.error(validationError)
+        continue
+      }
+
+      const kind = getAttachmentKind(file) as AttachmentKind
+      if (kind === 'image' && !allowImages) {
+        toast.error(imageBlockedMessage)
+        continue
+      }
+
+      const attachment: PendingAttachment = {
+        id: uuidv4(),
+        file,
+        kind,
+        status: kind === 'image' ? 'uploading' : 'extracting',
+        progress: 0,
+        previewUrl: kind === 'image' ? URL.createObjectURL(file) : undefined,
+      }
+
+      setAttachments(prev => [...prev, attachment])
+
+      if (kind === 'image') {
+        uploadImage(attachment)
+      } else {
+        extractDocument(attachment)
+      }
+    }
+  }
+
+  function removeAttachment(id: string) {
+    controllersRef.current.get(id)?.abort()
+    controllersRef.current.delete(id)
+
+    const attachment = attachments.find(item => item.id === id)
+    if (attachment?.previewUrl) URL.revokeObjectURL(attachment.previewUrl)
+
+    setAttachments(prev => prev.filter(item => item.id !== id))
+  }
+
+  function clearAttachments() {
+    attachments.forEach(attachment => {
+      if (attachment.previewUrl) URL.revokeObjectURL(attachment.previewUrl)
+    })
+    setAttachments([])
+  }
+
+  const parts = attachments
+    .filter(attachment => attachment.status === 'ready' && attachment.part)
+    .map(attachment => attachment.part as MessagePart)
+
+  return {
+    attachments,
+    parts,
+    isProcessing: attachments.some(
+      attachment => attachment.status === 'uploading' || attachment.status === 'extracting'
+    ),
+    hasImages: attachments.some(attachment => attachment.kind === 'image'),
+    addFiles,
+    removeAttachment,
+    clearAttachments,
+  }
+}
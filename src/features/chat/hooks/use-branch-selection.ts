@@ -0,0 +1,88 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import {
+  getPathTo,
+  resolveParentKeys,
+  ROOT_PARENT_KEY,
+  type BranchSelections,
+} from '@/features/chat/lib/message-tree'
+import type { Message } from '@/features/chat/types/conversation'
+
+const BRANCH_SELECTIONS_KEY = 'conversation_branches'
+
+/**
+ * Read the stored branch selections of every conversation
+ */
+const readAllSelections = (): Record<string, BranchSelections> => {
+  try {
+    const stored = localStorage.getItem(BRANCH_SELECTIONS_KEY)
+    return stored ? JSON.parse(stored) : {}
+  } catch (error) {
+    console.warn('Failed to parse stored branch selections:', error)
+    localStorage.removeItem(BRANCH_SELECTIONS_KEY)
+    return {}
+  }
+}
+
+/**
+ * Get the stored branch selections of a conversation, e.g. to export the branch being shown
+ */
+export const getStoredBranchSelections = (conversationId: string): BranchSelections => {
+  if (typeof window === 'undefined') return {}
+  return readAllSelections()[conversationId] || {}
+}
+
+/**
+ * Hook for managing which branch of a conversation tree is shown,
+ * persisted per conversation in localStorage
+ */
+export const useBranchSelection = (conversationId: string) => {
+  const [selections, setSelections] = useState<BranchSelections>({})
+
+  // Load the conversation's selections from localStorage
+  useEffect(() => {
+    if (typeof window !== 'undefined' && conversationId) {
+      setSelections(readAllSelections()[conversationId] || {})
+    }
+  }, [conversationId])
+
+  function saveSelections(updated: BranchSelections) {
+    setSelections(updated)
+
+    // Persist to localStorage
+    if (typeof window !== 'undefined' && conversationId) {
+      localStorage.setItem(
+        BRANCH_SELECTIONS_KEY,
+        JSON.stringify({ ...readAllSelections(), [conversationId]: updated })
+      )
+    }
+  }
+
+  function selectBranch(parentKey: string, messageId: string) {
+    saveSelections({
+      ...selections,
+      [parentKey]: { id: messageId, selected_at: new Date().toISOString() },
+    })
+  }
+
+  /**
+   * Switch every branch on the way to a message so it is shown, e.g. a search hit
+   */
+  function selectMessage(messages: Message[], messageId: string) {
+    const parentKeys = resolveParentKeys(messages)
+    const selected_at = new Date().toISOString()
+    const updated = { ...selections }
+
+    getPathTo(messages, messageId).forEach(message => {
+      updated[parentKeys.get(message.id) ?? ROOT_PARENT_KEY] = { id: message.id, selected_at }
+    })
+    saveSelections(updated)
+  }
+
+  return {
+    selections,
+    selectBranch,
+    selectMessage,
+  }
+}
@@ -9,10 +9,14 @@ import {
   useUpdateConversation,
 } from '@/features/chat/queries/useConversation'
 import { useSendMessage } from '@/features/chat/queries/useMessage'
-import { useProviders } from '@/features/chat/hooks/use-providers'
+import { useConversationModel } from '@/features/chat/hooks/use-conversation-model'
+import { showStreamFrameWarning } from '@/features/chat/lib/toast-utils'
 import { type ApiError } from '@/shared/lib/react-query/errorHandling'
 import type {
+  Artifact,
   Message,
+  MessageTool,
+  MessageUsage,
   StreamEvent,
   PostMessageRequest,
   ConversationDetailResponse,
@@ -38,7 +42,13 @@ interface UseChatReturn {
   streaming: {
     isStreaming: boolean
     streamingContent: string
+    streamingReasoning: string
+    reasoningStartedAt: number | null
+    reasoningEndedAt: number | null
     streamingMessageId: string | null
+    streamingTools: MessageTool[]
+    streamingArtifacts: Artifact[]
+    streamingUsage: MessageUsage | null
   }
 
   // Actions
@@ -102,14 +112,22 @@ export const useChat = (options: UseChatOptions = {}): UseChatReturn => {
   const prevErrorRef = useRef<ApiError | null>(null)
   const processedDataRef = useRef(false)
 
-  // Get providers and models
-  const { selectedModel } = useProviders()
+  // The model this conversation answers with
+  const { model } = useConversationModel(conversationId)
 
   // Get streaming state
   const {
     streaming,
     startStreaming,
-    updateStreamingContent,
+    appendStreamingContent,
+    appendStreamingReasoning,
+    startToolCall,
+    appendToolOutput,
+    completeToolCall,
+    startArtifact,
+    appendArtifactContent,
+    completeArtifact,
+    setStreamingUsage,
     finalizeStreaming,
     stopStreaming: stopStreamingState,
   } = useStreamingState()
@@ -196,19 +214,65 @@ export const useChat = (options: UseChatOptions = {}): UseChatReturn => {
   function handleStreamEvent(event: StreamEvent): void {
     switch (event.type) {
       case 'message_start':
-        // A new message is starting
+        // A new message is starting, show a streaming placeholder for it
+        startStreaming(conversationId || '', `temp-${uuidv4()}`)
         break
 
       case 'content_delta':
-        // Update streaming content with new delta
+        // Append the new delta to the content received so far
         if (typeof event.data === 'string') {
-          updateStreamingContent(event.data)
+          appendStreamingContent(event.data, event.id)
         }
         break
 
+      case 'reasoning_delta':
+        // Thinking tokens are kept apart from the answer
+        if (typeof event.data === 'string') {
+          appendStreamingReasoning(event.data, event.id)
+        }
+        break
+
+      case 'tool_call_start':
+        // The model started calling a tool
+        startToolCall(event.data, event.id)
+        break
+
+      case 'tool_call_delta':
+        // The tool streamed more output
+        appendToolOutput(event.data, event.id)
+        break
+
+      case 'tool_call_result':
+        // The tool finished or failed
+        completeToolCall(event.data, event.id)
+        break
+
+      case 'artifact_start':
+        // The model started generating an artifact
+        startArtifact(event.data, event.id)
+        break
+
+      case 'artifact_delta':
+        // More artifact content arrived
+        appendArtifactContent(event.data, event.id)
+        break
+
+      case 'artifact_end':
+        // The artifact is complete
+        completeArtifact(event.data, event.id)
+        break
+
+      case 'usage':
+        // Token usage for the message so far
+        setStreamingUsage(event.data, event.id)
+        break
+
       case 'message_end':
-        // Message is complete, finalize it
-        finalizeStreaming(streaming.streamingContent)
+        // Message is complete, finalize it with the accumulated content
+        if (event.usage) {
+          setStreamingUsage(event.usage, event.id)
+        }
+        finalizeStreaming()
         break
 
       case 'message_cancelled':
@@ -227,6 +291,11 @@ export const useChat = (options: UseChatOptions = {}): UseChatReturn => {
         stopStreamingState()
         break
 
+      case 'frame_error':
+        // A malformed frame was skipped, the stream continues
+        showStreamFrameWarning(event.error)
+        break
+
       default:
         console.warn('Unknown stream event type:', event)
     }
@@ -245,7 +314,7 @@ export const useChat = (options: UseChatOptions = {}): UseChatReturn => {
       // Create message request
       const messageRequest: PostMessageRequest = {
         content,
-        model_id: selectedModel?.id,
+        model_id: model?.id,
       }
 
       // Generate a temporary ID for the assistant message
@@ -0,0 +1,111 @@
+'use client'
+
+import { useState } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import { conversationService } from '@/api/services/conversation-service'
+import { conversationKeys } from '@/features/chat/queries/useConversation'
+import { useConversationExport } from '@/features/chat/hooks/use-conversation-export'
+import type { ExportFormat } from '@/features/chat/lib/export-utils'
+import type { ConversationSummaryResponse } from '@/features/chat/types/conversation'
+import type { ApiError } from '@/shared/lib/react-query/errorHandling'
+
+/**
+ * An operation applied to every selected conversation
+ *
+ * @property folderId - For move, the target folder, or null to take them out of folders
+ */
+export type BatchAction =
+  | { type: 'delete' }
+  | { type: 'archive' }
+  | { type: 'move'; folderId: string | null }
+  | { type: 'export'; format: ExportFormat }
+
+/**
+ * Outcome of a batch operation
+ *
+ * @property succeeded - Ids of the conversations the action went through for
+ * @property failed - Conversations it didn't, and why
+ */
+export interface BatchReport {
+  action: BatchAction
+  succeeded: string[]
+  failed: { id: string; title: string; reason: string }[]
+}
+
+/**
+ * Hook for applying one action to many conversations, one request at a time,
+ * collecting the ones that fail instead of stopping
+ */
+export const useConversationBatch = () => {
+  const queryClient = useQueryClient()
+  const { exportConversations } = useConversationExport()
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null)
+
+  const applyAction = (
+    action: Exclude<BatchAction, { type: 'export' }>,
+    id: string
+  ): Promise<unknown> => {
+    switch (action.type) {
+      case 'delete':
+        return conversationService.deleteConversation(id)
+      case 'archive':
+        return conversationService.archiveConversation(id)
+      case 'move':
+        return conversationService.updateConversation(id, { folder_id: action.folderId })
+    }
+  }
+
+  async function runBatch(
+    action: BatchAction,
+    conversations: ConversationSummaryResponse[]
+  ): Promise<BatchReport> {
+    const report: BatchReport = { action, succeeded: [], failed: [] }
+    setProgress({ done: 0, total: conversations.length })
+
+    try {
+      // An export downloads a single zip, so it goes through the export hook as a whole
+      if (action.type === 'export') {
+        const { failed } = await exportConversations(conversations, action.format, (done, total) =>
+          setProgress({ done, total })
+        )
+        const failedIds = new Set(failed.map(({ id }) => id))
+        report.succeeded = conversations.map(({ id }) => id).filter(id => !failedIds.has(id))
+        report.failed = failed
+        return report
+      }
+
+      for (const [index, conversation] of conversations.entries()) {
+        try {
+          await applyAction(action, conversation.id)
+          report.succeeded.push(conversation.id)
+        } catch (error) {
+          report.failed.push({
+            id: conversation.id,
+            title: conversation.title,
+            reason: (error as ApiError).message || 'Request failed',
+          })
+        }
+
+        setProgress({ done: index + 1, total: conversations.length })
+      }
+
+      if (action.type === 'delete') {
+        report.succeeded.forEach(id =>
+          queryClient.removeQueries({ queryKey: conversationKeys.detail(id) })
+        )
+      }
+      queryClient.invalidateQueries({ queryKey: conversationKeys.lists() })
+      queryClient.invalidateQueries({ queryKey: conversationKeys.archived() })
+
+      return report
+    } finally {
+      setProgress(null)
+    }
+  }
+
+  return {
+    runBatch,
+    progress,
+    isRunning: progress !== null,
+  }
+}
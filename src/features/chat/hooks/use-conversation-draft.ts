@@ -0,0 +1,124 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react'
+
+const DRAFTS_KEY = 'conversation_drafts'
+const DRAFTS_CHANGE_EVENT = 'conversation-drafts-change'
+
+/**
+ * How long typing has to pause before the draft is written (in milliseconds)
+ */
+const DRAFT_SAVE_DELAY = 500
+
+/**
+ * Read the stored drafts of every conversation
+ */
+const readDrafts = (): Record<string, string> => {
+  if (typeof window === 'undefined') return {}
+
+  try {
+    const stored = localStorage.getItem(DRAFTS_KEY)
+    return stored ? JSON.parse(stored) : {}
+  } catch (error) {
+    console.warn('Failed to parse stored drafts:', error)
+    localStorage.removeItem(DRAFTS_KEY)
+    return {}
+  }
+}
+
+/**
+ * Store the draft of a conversation, removing it when it is empty
+ */
+const writeDraft = (conversationId: string, text: string) => {
+  const drafts = readDrafts()
+  if (text.trim()) {
+    drafts[conversationId] = text
+  } else {
+    delete drafts[conversationId]
+  }
+
+  localStorage.setItem(DRAFTS_KEY, JSON.stringify(drafts))
+  window.dispatchEvent(new Event(DRAFTS_CHANGE_EVENT))
+}
+
+/**
+ * Listen for draft changes in this tab and in other tabs
+ */
+const subscribeToDrafts = (onChange: () => void) => {
+  window.addEventListener(DRAFTS_CHANGE_EVENT, onChange)
+  window.addEventListener('storage', onChange)
+
+  return () => {
+    window.removeEventListener(DRAFTS_CHANGE_EVENT, onChange)
+    window.removeEventListener('storage', onChange)
+  }
+}
+
+/**
+ * Hook for keeping the unsent text of a conversation in localStorage.
+ * Writes are debounced while typing and flushed when the conversation changes.
+ */
+export const useConversationDraft = (conversationId: string) => {
+  const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const pendingRef = useRef<string | null>(null)
+
+  // Write the pending draft right away when switching conversations or unmounting
+  useEffect(() => {
+    return () => {
+      if (timeoutRef.current) {
+        clearTimeout(timeoutRef.current)
+        timeoutRef.current = null
+      }
+      if (pendingRef.current !== null && conversationId) {
+        writeDraft(conversationId, pendingRef.current)
+        pendingRef.current = null
+      }
+    }
+  }, [conversationId])
+
+  const getDraft = useCallback(() => readDrafts()[conversationId] ?? '', [conversationId])
+
+  function saveDraft(text: string) {
+    if (!conversationId) return
+
+    pendingRef.current = text
+    if (timeoutRef.current) {
+      clearTimeout(timeoutRef.current)
+    }
+
+    timeoutRef.current = setTimeout(() => {
+      writeDraft(conversationId, text)
+      pendingRef.current = null
+      timeoutRef.current = null
+    }, DRAFT_SAVE_DELAY)
+  }
+
+  function clearDraft() {
+    if (timeoutRef.current) {
+      clearTimeout(timeoutRef.current)
+      timeoutRef.current = null
+    }
+    pendingRef.current = null
+
+    if (conversationId) {
+      writeDraft(conversationId, '')
+    }
+  }
+
+  return {
+    getDraft,
+    saveDraft,
+    clearDraft,
+  }
+}
+
+/**
+ * Hook for checking whether a conversation has unsent text
+ */
+export const useHasDraft = (conversationId: string) => {
+  return useSyncExternalStore(
+    subscribeToDrafts,
+    () => !!readDrafts()[conversationId],
+    () => false
+  )
+}
@@ -0,0 +1,232 @@
+'use client'
+
+import { createElement, useState } from 'react'
+import { flushSync } from 'react-dom'
+import { createRoot } from 'react-dom/client'
+import { useQueryClient } from '@tanstack/react-query'
+import ReactMarkdown from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import remarkMath from 'remark-math'
+import rehypeKatex from 'rehype-katex'
+import { toast } from 'sonner'
+import { conversationService } from '@/api/services/conversation-service'
+import { messageService } from '@/api/services/message-service'
+import { conversationKeys } from '@/features/chat/queries/useConversation'
+import { messageKeys } from '@/features/chat/queries/useMessage'
+import { getStoredBranchSelections } from '@/features/chat/hooks/use-branch-selection'
+import { getActivePath } from '@/features/chat/lib/message-tree'
+import { createZip, type ZipEntry } from '@/features/chat/lib/zip'
+import {
+  conversationToHtml,
+  conversationToJson,
+  conversationToMarkdown,
+  downloadFile,
+  EXPORT_FORMATS,
+  getExportFilename,
+  type ExportFormat,
+} from '@/features/chat/lib/export-utils'
+import type {
+  ConversationDetailResponse,
+  ConversationSummaryResponse,
+  Message,
+} from '@/features/chat/types/conversation'
+import type { ApiError } from '@/shared/lib/react-query/errorHandling'
+
+/**
+ * Conversations fetched per request when exporting all of them
+ */
+const EXPORT_PAGE_SIZE = 100
+
+/**
+ * Render markdown to HTML with the same plugins as the chat. Math is rendered by KaTeX
+ * as MathML, which browsers display without KaTeX's stylesheet and fonts.
+ */
+const renderMarkdownToHtml = (content: string): string => {
+  const container = document.createElement('div')
+  const root = createRoot(container)
+
+  flushSync(() => {
+    root.render(
+      createElement(
+        ReactMarkdown,
+        {
+          remarkPlugins: [remarkGfm, remarkMath],
+          rehypePlugins: [[rehypeKatex, { output: 'mathml' }]],
+        },
+        content
+      )
+    )
+  })
+
+  const html = container.innerHTML
+  root.unmount()
+  return html
+}
+
+/**
+ * Render a conversation in the given format. Markdown and HTML follow the branch
+ * shown in the chat; JSON keeps the whole tree.
+ */
+const renderConversation = (
+  conversation: ConversationDetailResponse,
+  messages: Message[],
+  format: ExportFormat
+): string => {
+  if (format === 'json') {
+    return conversationToJson(conversation, messages)
+  }
+
+  const path = getActivePath(messages, getStoredBranchSelections(conversation.id)).map(
+    node => node.message
+  )
+  return format === 'md'
+    ? conversationToMarkdown(conversation, path)
+    : conversationToHtml(conversation, path, renderMarkdownToHtml)
+}
+
+/**
+ * Hook for downloading conversations as Markdown, JSON or standalone HTML,
+ * one at a time or all together in a zip
+ */
+export const useConversationExport = () => {
+  const queryClient = useQueryClient()
+  const [isExporting, setIsExporting] = useState(false)
+
+  /**
+   * Load a conversation together with its messages, as the chat shows them
+   */
+  const loadConversation = (id: string) =>
+    Promise.all([
+      queryClient.fetchQuery({
+        queryKey: conversationKeys.detail(id),
+        queryFn: () => conversationService.getConversation(id),
+      }),
+      // Not the lenient getMessages, so a conversation whose messages fail to load is
+      // reported as failed rather than exported empty
+      queryClient.fetchQuery({
+        queryKey: messageKeys.list(id),
+        queryFn: () => messageService.fetchMessages(id),
+      }),
+    ])
+
+  /**
+   * Page through every active or every archived conversation
+   */
+  async function loadSummaries(isActive: boolean) {
+    const summaries: ConversationSummaryResponse[] = []
+    for (let offset = 0; ; offset += EXPORT_PAGE_SIZE) {
+      const page = await conversationService.getConversations({
+        isActive,
+        limit: EXPORT_PAGE_SIZE,
+        offset,
+      })
+      summaries.push(...page)
+      if (page.length < EXPORT_PAGE_SIZE) break
+    }
+    return summaries
+  }
+
+  async function exportConversation(id: string, format: ExportFormat) {
+    try {
+      const [conversation, messages] = await loadConversation(id)
+
+      downloadFile(
+        renderConversation(conversation, messages, format),
+        getExportFilename(conversation.title, format),
+        EXPORT_FORMATS[format].mimeType
+      )
+    } catch (error) {
+      console.error('Failed to export conversation:', error)
+      toast.error('Failed to export conversation', {
+        description: 'Please try again later.',
+      })
+    }
+  }
+
+  /**
+   * Download the given conversations in one zip. Conversations that fail to load
+   * are left out and returned with the reason.
+   */
+  async function exportConversations(
+    summaries: ConversationSummaryResponse[],
+    format: ExportFormat,
+    onProgress?: (done: number, total: number) => void
+  ): Promise<{ exported: number; failed: { id: string; title: string; reason: string }[] }> {
+    const entries: ZipEntry[] = []
+    const usedNames = new Set<string>()
+    const failed: { id: string; title: string; reason: string }[] = []
+
+    for (const [index, summary] of summaries.entries()) {
+      onProgress?.(index, summaries.length)
+
+      try {
+        const [conversation, messages] = await loadConversation(summary.id)
+
+        // Keep file names unique when titles repeat
+        const baseName = getExportFilename(conversation.title, format).replace(/\.\w+$/, '')
+        let name = `${baseName}.${format}`
+        for (let n = 2; usedNames.has(name); n++) {
+          name = `${baseName}-${n}.${format}`
+        }
+        usedNames.add(name)
+
+        entries.push({ name, content: renderConversation(conversation, messages, format) })
+      } catch (error) {
+        failed.push({
+          id: summary.id,
+          title: summary.title,
+          reason: (error as ApiError).message || 'Failed to load conversation',
+        })
+      }
+    }
+    onProgress?.(summaries.length, summaries.length)
+
+    if (entries.length > 0) {
+      const date = new Date().toISOString().slice(0, 10)
+      downloadFile(createZip(entries), `conversations-${date}.zip`, 'application/zip')
+    }
+
+    return { exported: entries.length, failed }
+  }
+
+  async function exportAllConversations(format: ExportFormat) {
+    if (isExporting) return
+    setIsExporting(true)
+    const toastId = toast.loading('Preparing export...')
+
+    try {
+      // Every conversation, archived ones included
+      const summaries = [...(await loadSummaries(true)), ...(await loadSummaries(false))]
+
+      const { exported, failed } = await exportConversations(summaries, format, (done, total) => {
+        if (done < total) {
+          toast.loading(`Exporting conversation ${done + 1} of ${total}...`, { id: toastId })
+        }
+      })
+
+      if (failed.length === 0) {
+        toast.success(`Exported ${exported} conversations`, { id: toastId })
+      } else {
+        toast.error(`Exported ${exported} of ${summaries.length} conversations`, {
+          id: toastId,
+          description: `Could not export: ${failed.map(({ title }) => title).join(', ')}`,
+        })
+      }
+    } catch (error) {
+      console.error('Failed to export conversations:', error)
+      toast.error('Failed to export conversations', {
+        id: toastId,
+        description: 'Please try again later.',
+      })
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return {
+    exportConversation,
+    exportConversations,
+    exportAllConversations,
+    isExporting,
+  }
+}
@@ -0,0 +1,96 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import { conversationService } from '@/api/services/conversation-service'
+import { conversationKeys } from '@/features/chat/queries/useConversation'
+import type { ParsedConversation } from '@/features/chat/lib/conversation-import'
+import type { ApiError } from '@/shared/lib/react-query/errorHandling'
+
+/**
+ * Outcome of an import
+ *
+ * @property imported - Conversations created, with their new ids
+ * @property failed - Conversations the server rejected, and why
+ * @property skippedMessages - Messages left out across the imported conversations
+ * @property skippedFiles - Attachments whose contents weren't in the export
+ * @property cancelled - Whether the import was stopped before the end
+ */
+export interface ImportReport {
+  imported: { id: string; title: string }[]
+  failed: { title: string; reason: string }[]
+  skippedMessages: number
+  skippedFiles: number
+  cancelled: boolean
+}
+
+/**
+ * Hook for uploading parsed conversations one at a time, with progress and
+ * a way to stop between conversations
+ */
+export const useConversationImport = () => {
+  const queryClient = useQueryClient()
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null)
+  const cancelledRef = useRef(false)
+
+  async function importConversations(
+    conversations: ParsedConversation[],
+    modelName?: string
+  ): Promise<ImportReport> {
+    cancelledRef.current = false
+    const report: ImportReport = {
+      imported: [],
+      failed: [],
+      skippedMessages: 0,
+      skippedFiles: 0,
+      cancelled: false,
+    }
+    setProgress({ done: 0, total: conversations.length })
+
+    for (const [index, parsed] of conversations.entries()) {
+      if (cancelledRef.current) {
+        report.cancelled = true
+        break
+      }
+
+      const { title } = parsed.conversation
+      let conversationId: string | null = null
+
+      try {
+        const conversation = await conversationService.createConversation({
+          ...parsed.conversation,
+          model_name: modelName,
+        })
+        conversationId = conversation.id
+
+        await conversationService.importMessages(conversation.id, parsed.messages)
+
+        report.imported.push({ id: conversation.id, title })
+        report.skippedMessages += parsed.skippedMessages
+        report.skippedFiles += parsed.skippedFiles
+      } catch (error) {
+        report.failed.push({ title, reason: (error as ApiError).message || 'Upload failed' })
+
+        // Don't leave an empty conversation behind when its messages were rejected
+        if (conversationId) {
+          await conversationService.deleteConversation(conversationId).catch(() => {})
+        }
+      }
+
+      setProgress({ done: index + 1, total: conversations.length })
+    }
+
+    queryClient.invalidateQueries({ queryKey: conversationKeys.lists() })
+    setProgress(null)
+    return report
+  }
+
+  return {
+    importConversations,
+    cancelImport: () => {
+      cancelledRef.current = true
+    },
+    progress,
+    isImporting: progress !== null,
+  }
+}
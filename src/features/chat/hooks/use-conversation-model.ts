@@ -0,0 +1,56 @@
+'use client'
+
+import { useProviders } from '@/features/chat/hooks/use-providers'
+import { useConversation, useUpdateConversation } from '@/features/chat/queries/useConversation'
+import type { AvailableModel } from '@/features/chat/hooks/use-selected-model'
+
+/**
+ * Hook for the model of one conversation
+ *
+ * Each conversation remembers its own model, so switching it here leaves other
+ * conversations alone. Without a conversation (a new chat) this is the default
+ * model that new conversations start with.
+ *
+ * @param conversationId The conversation, or undefined or 'new' for a chat not created yet
+ */
+export const useConversationModel = (conversationId?: string) => {
+  const hasConversation = !!conversationId && conversationId !== 'new'
+  const { models, defaultModel, setDefaultModel, loading } = useProviders()
+  const { data: conversation, isLoading: conversationLoading } = useConversation(
+    hasConversation ? conversationId : ''
+  )
+  const updateConversation = useUpdateConversation()
+
+  const model = hasConversation
+    ? (models.find(({ id }) => id === conversation?.model_id) ?? null)
+    : defaultModel
+
+  // Name to show when the conversation's model is no longer offered
+  const modelName = model?.display_name ?? conversation?.model?.display_name ?? null
+
+  /**
+   * Use a model for the next messages, resolving to false when it couldn't be saved
+   */
+  async function setModel(next: AvailableModel): Promise<boolean> {
+    if (!hasConversation) {
+      setDefaultModel(next)
+      return true
+    }
+
+    try {
+      await updateConversation.mutateAsync({ id: conversationId, data: { model_id: next.id } })
+      return true
+    } catch {
+      // The mutation already shows the error
+      return false
+    }
+  }
+
+  return {
+    model,
+    modelName,
+    setModel,
+    loading: loading || (hasConversation && conversationLoading),
+    isSaving: updateConversation.isPending,
+  }
+}
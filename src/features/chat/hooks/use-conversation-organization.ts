@@ -0,0 +1,155 @@
+'use client'
+
+import { useSyncExternalStore } from 'react'
+import { v4 as uuidv4 } from 'uuid'
+import {
+  getDefaultTagColor,
+  normalizeTag,
+  type ConversationFolder,
+  type TagColor,
+} from '@/features/chat/lib/conversation-organization'
+
+const ORGANIZATION_KEY = 'conversation_organization'
+const ORGANIZATION_CHANGE_EVENT = 'conversation-organization-change'
+
+/**
+ * Sidebar organization kept in the browser. Which folder a conversation is in,
+ * its tags and pin live on the conversation itself.
+ *
+ * @property collapsed_folders - Ids of the folders the user collapsed
+ * @property tag_colors - Colors picked for tags; other tags get a default color
+ */
+interface ConversationOrganization {
+  folders: ConversationFolder[]
+  collapsed_folders: string[]
+  tag_colors: Record<string, TagColor>
+}
+
+const EMPTY_ORGANIZATION: ConversationOrganization = {
+  folders: [],
+  collapsed_folders: [],
+  tag_colors: {},
+}
+
+// The last parsed value, so every read of unchanged storage returns the same object
+let cachedRaw: string | null = null
+let cachedOrganization: ConversationOrganization = EMPTY_ORGANIZATION
+
+/**
+ * Read the stored organization
+ */
+const readOrganization = (): ConversationOrganization => {
+  if (typeof window === 'undefined') return EMPTY_ORGANIZATION
+
+  const stored = localStorage.getItem(ORGANIZATION_KEY)
+  if (stored === cachedRaw) return cachedOrganization
+
+  try {
+    cachedOrganization = stored
+      ? { ...EMPTY_ORGANIZATION, ...JSON.parse(stored) }
+      : EMPTY_ORGANIZATION
+  } catch (error) {
+    console.warn('Failed to parse stored conversation folders:', error)
+    localStorage.removeItem(ORGANIZATION_KEY)
+    cachedOrganization = EMPTY_ORGANIZATION
+  }
+  cachedRaw = stored
+  return cachedOrganization
+}
+
+/**
+ * Store changes to the organization and let every instance know
+ */
+const updateOrganization = (
+  update: (organization: ConversationOrganization) => Partial<ConversationOrganization>
+) => {
+  const organization = readOrganization()
+  localStorage.setItem(
+    ORGANIZATION_KEY,
+    JSON.stringify({ ...organization, ...update(organization) })
+  )
+  window.dispatchEvent(new Event(ORGANIZATION_CHANGE_EVENT))
+}
+
+/**
+ * Listen for changes in this tab and in other tabs
+ */
+const subscribeToOrganization = (onChange: () => void) => {
+  window.addEventListener(ORGANIZATION_CHANGE_EVENT, onChange)
+  window.addEventListener('storage', onChange)
+
+  return () => {
+    window.removeEventListener(ORGANIZATION_CHANGE_EVENT, onChange)
+    window.removeEventListener('storage', onChange)
+  }
+}
+
+/**
+ * Hook for the sidebar's folders, their collapsed state and tag colors,
+ * kept in localStorage
+ */
+export const useConversationOrganization = () => {
+  const organization = useSyncExternalStore(
+    subscribeToOrganization,
+    readOrganization,
+    () => EMPTY_ORGANIZATION
+  )
+
+  function createFolder(name: string): ConversationFolder {
+    const folder: ConversationFolder = {
+      id: uuidv4(),
+      name: name.trim(),
+      created_at: new Date().toISOString(),
+    }
+
+    updateOrganization(({ folders }) => ({ folders: [...folders, folder] }))
+    return folder
+  }
+
+  function renameFolder(id: string, name: string) {
+    updateOrganization(({ folders }) => ({
+      folders: folders.map(folder =>
+        folder.id === id ? { ...folder, name: name.trim() } : folder
+      ),
+    }))
+  }
+
+  /**
+   * Remove a folder. Conversations still pointing at it show as unfiled.
+   */
+  function deleteFolder(id: string) {
+    updateOrganization(({ folders, collapsed_folders }) => ({
+      folders: folders.filter(folder => folder.id !== id),
+      collapsed_folders: collapsed_folders.filter(folderId => folderId !== id),
+    }))
+  }
+
+  function setFolderCollapsed(id: string, collapsed: boolean) {
+    updateOrganization(({ collapsed_folders }) => ({
+      collapsed_folders: collapsed
+        ? [...collapsed_folders.filter(folderId => folderId !== id), id]
+        : collapsed_folders.filter(folderId => folderId !== id),
+    }))
+  }
+
+  function getTagColor(tag: string): TagColor {
+    return organization.tag_colors[normalizeTag(tag)] ?? getDefaultTagColor(normalizeTag(tag))
+  }
+
+  function setTagColor(tag: string, color: TagColor) {
+    updateOrganization(({ tag_colors }) => ({
+      tag_colors: { ...tag_colors, [normalizeTag(tag)]: color },
+    }))
+  }
+
+  return {
+    folders: organization.folders,
+    isFolderCollapsed: (id: string) => organization.collapsed_folders.includes(id),
+    createFolder,
+    renameFolder,
+    deleteFolder,
+    setFolderCollapsed,
+    getTagColor,
+    setTagColor,
+  }
+}
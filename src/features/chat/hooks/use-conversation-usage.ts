@@ -0,0 +1,41 @@
+'use client'
+
+import { useProviders } from '@/features/chat/hooks/use-providers'
+import { useConversation } from '@/features/chat/queries/useConversation'
+import { useMessages } from '@/features/chat/queries/useMessage'
+import { getMessageUsage, getModelPricing, sumUsage } from '@/features/chat/lib/usage-utils'
+import type { MessageUsage } from '@/features/chat/types/conversation'
+
+/**
+ * Hook for the running token usage and cost of a conversation
+ *
+ * Adds up the usage of every loaded message plus the message currently streaming.
+ * Costs the backend does not report are computed from the pricing of the model that
+ * wrote each message, or the conversation's model when that one isn't listed.
+ *
+ * @param conversationId The conversation to total
+ * @param streamingUsage Usage reported so far for a message that is still streaming
+ */
+export const useConversationUsage = (
+  conversationId: string,
+  streamingUsage?: MessageUsage | null
+) => {
+  const { data: messages = [] } = useMessages(conversationId)
+  const { data: conversation } = useConversation(conversationId)
+  const { models } = useProviders()
+
+  const fallbackPricing = conversation?.model ?? null
+  const pricing = getModelPricing(conversation?.model_id, models, fallbackPricing)
+
+  const total = sumUsage([
+    ...messages.map(message =>
+      getMessageUsage(message, getModelPricing(message.model_id, models, fallbackPricing))
+    ),
+    streamingUsage ? getMessageUsage(streamingUsage, pricing) : null,
+  ])
+
+  return {
+    total,
+    pricing,
+  }
+}
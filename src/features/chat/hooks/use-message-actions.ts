@@ -3,8 +3,18 @@
 import { useState } from 'react'
 import { toast } from 'sonner'
 import { useEditingState } from '@/features/chat/hooks/use-editing-state'
-import { useDeleteMessage, useRegenerateMessage } from '@/features/chat/queries/useMessage'
-import type { Message, EditSessionInfo, StreamEvent } from '@/features/chat/types/conversation'
+import {
+  useDeleteMessage,
+  useRegenerateMessage,
+  useSendMessage,
+} from '@/features/chat/queries/useMessage'
+import { getMessageCopyText } from '@/features/chat/lib/chat-utils'
+import type {
+  Message,
+  MessagePart,
+  EditSessionInfo,
+  StreamEvent,
+} from '@/features/chat/types/conversation'
 
 interface UseMessageActionsOptions {
   conversationId?: string
@@ -13,7 +23,7 @@ interface UseMessageActionsOptions {
 
 interface UseMessageActionsReturn {
   // Copy actions
-  copyMessage: (message: Message) => void
+  copyMessage: (message: Message, options?: { includeReasoning?: boolean }) => void
   copyCode: (code: string) => void
 
   // Code extraction
@@ -22,7 +32,8 @@ interface UseMessageActionsReturn {
   // Edit actions
   startEditing: (messageId: string) => void
   cancelEditing: () => void
-  saveEdit: (content: string) => void
+  saveEdit: (content: string, parentId?: string, parts?: MessagePart[]) => Promise<void>
+  isSavingEdit: boolean
   updateEditContent: (content: string) => void
   isEditing: boolean
   currentEditMessageId: string | null
@@ -98,13 +109,13 @@ export const useMessageActions = (
   const deleteMessageMutation = useDeleteMessage(conversationId || '')
 
   /**
-   * Copy a message's content to clipboard
+   * Copy a message's content to clipboard. Reasoning is only included when requested.
    */
-  function copyMessage(message: Message) {
+  function copyMessage(message: Message, options: { includeReasoning?: boolean } = {}) {
     if (!message.content) return
 
     try {
-      navigator.clipboard.writeText(message.content)
+      navigator.clipboard.writeText(getMessageCopyText(message, options.includeReasoning))
       toast.success('Message copied to clipboard')
     } catch (error) {
       console.error('Failed to copy message:', error)
@@ -181,26 +192,28 @@ export const useMessageActions = (
     }
   }
 
+  // Get send message mutation, used to resend edited messages
+  const sendMessageMutation = useSendMessage(conversationId || '', onStreamEvent)
+
   /**
-   * Save the edited message
+   * Save an edited message by sending it as a new message under the original's parent.
+   * The reply streams in on the new branch while the old exchange stays as a sibling.
    */
-  function saveEdit(content: string) {
-    if (!conversationId || !currentEditMessageId || !editSession) return
+  async function saveEdit(content: string, parentId?: string, parts?: MessagePart[]) {
+    if (!conversationId) return
 
     try {
-      // We'll use React Query to update the message in the next version
-      // For now, just reset the editing state
+      // Attachments of the original message are sent again with the new text
+      await sendMessageMutation.mutateAsync({ content: content.trim(), parent_id: parentId, parts })
 
       // Reset editing state
       setIsEditing(false)
       setCurrentEditMessageId(null)
       setEditSession(null)
       stopEditing()
-
-      toast.success('Message updated')
     } catch (error) {
-      console.error('Failed to update message:', error)
-      toast.error('Failed to update message')
+      console.error('Failed to send edited message:', error)
+      toast.error('Failed to send edited message')
     }
   }
 
@@ -263,8 +276,6 @@ export const useMessageActions = (
         messageId,
         data,
       })
-
-      toast.success('Message regenerated')
     } catch (error) {
       console.error('Failed to regenerate message:', error)
       toast.error('Failed to regenerate message')
@@ -285,6 +296,7 @@ export const useMessageActions = (
     startEditing,
     cancelEditing,
     saveEdit,
+    isSavingEdit: sendMessageMutation.isPending,
     updateEditContent,
     isEditing,
     currentEditMessageId,
@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { QueryClient } from '@tanstack/react-query'
+import { messageService } from '@/api/services/message-service'
+import type { OutboxMessage } from '@/features/chat/lib/outbox'
+import type { StreamEvent } from '@/features/chat/types/conversation'
+import { flushOutbox } from './use-outbox-flush'
+
+// An in-memory outbox in place of IndexedDB
+const outbox = vi.hoisted(() => new Map<string, OutboxMessage>())
+
+vi.mock('@/features/chat/lib/outbox', () => ({
+  isOffline: () => false,
+  getOutboxMessages: async (conversationId: string) =>
+    [...outbox.values()].filter(message => message.conversation_id === conversationId),
+  putOutboxMessage: async (message: OutboxMessage) => {
+    outbox.set(message.id, message)
+  },
+  removeOutboxMessage: async (id: string) => {
+    outbox.delete(id)
+  },
+}))
+
+vi.mock('sonner', () => ({ toast: { error: vi.fn() } }))
+
+vi.mock('@/api/services/message-service', () => ({
+  messageService: { sendMessageStream: vi.fn(), getMessages: vi.fn() },
+}))
+
+const queued: OutboxMessage = {
+  id: 'q1',
+  conversation_id: 'c1',
+  request: { content: 'Hello' },
+  replies_to_queued: false,
+  attempts: 1,
+  created_at: new Date().toISOString(),
+}
+
+/**
+ * Make the stream deliver the given events, like runStream does
+ */
+const streamEvents = (events: StreamEvent[]) => {
+  vi.mocked(messageService.sendMessageStream).mockImplementation(
+    async (_conversationId, _request, onEvent) => {
+      events.forEach(event => onEvent(event))
+    }
+  )
+}
+
+const flush = () => flushOutbox({ conversationId: 'c1', queryClient: new QueryClient() })
+
+describe('flushOutbox', () => {
+  beforeEach(() => {
+    outbox.clear()
+    outbox.set(queued.id, queued)
+  })
+
+  it('keeps a message whose request never reached the server', async () => {
+    // runStream announces the message before making the request, then the fetch fails
+    streamEvents([
+      { type: 'message_start' },
+      { type: 'error', error: 'Failed to fetch', code: 'NETWORK_ERROR' },
+    ])
+
+    await flush()
+
+    expect(outbox.get('q1')).toMatchObject({ request: { content: 'Hello' }, attempts: 2 })
+  })
+
+  it('removes a message the server received even when its reply failed', async () => {
+    streamEvents([
+      { type: 'message_start', data: { message_id: 'a1', user_message_id: 'u1' } },
+      { type: 'error', error: 'Model overloaded', code: 'STREAM_NOT_RESUMABLE' },
+    ])
+
+    await flush()
+
+    expect(outbox.has('q1')).toBe(false)
+  })
+
+  it('removes a message once it is sent', async () => {
+    streamEvents([
+      { type: 'message_start', data: { message_id: 'a1' } },
+      { type: 'content_delta', data: 'Hi', id: '1' },
+      { type: 'message_end', id: '2' },
+    ])
+
+    await flush()
+
+    expect(outbox.size).toBe(0)
+  })
+})
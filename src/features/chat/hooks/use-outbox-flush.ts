@@ -0,0 +1,231 @@
+'use client'
+
+import { useCallback, useEffect, useRef } from 'react'
+import { useQueryClient, type QueryClient } from '@tanstack/react-query'
+import { v4 as uuidv4 } from 'uuid'
+import { messageService } from '@/api/services/message-service'
+import { messageKeys } from '@/features/chat/queries/useMessage'
+import { outboxKeys } from '@/features/chat/queries/useOutbox'
+import {
+  getOutboxMessages,
+  isOffline,
+  putOutboxMessage,
+  removeOutboxMessage,
+  type OutboxMessage,
+} from '@/features/chat/lib/outbox'
+import {
+  isRetryableError,
+  showQueryError,
+  type ApiError,
+} from '@/shared/lib/react-query/errorHandling'
+import type { Message, StreamEvent } from '@/features/chat/types/conversation'
+
+/**
+ * Attempts per queued message before the user is asked to retry, matching mutations
+ */
+const MAX_OUTBOX_ATTEMPTS = 2
+
+/**
+ * What flushing a conversation's outbox works with
+ *
+ * @property onStreamEvent - Receives the events of the replies as they stream
+ * @property onRetry - Called when the user asks to retry after a failed send
+ */
+export interface FlushOutboxOptions {
+  conversationId: string
+  queryClient: QueryClient
+  onStreamEvent?: (event: StreamEvent) => void
+  onRetry?: () => void
+}
+
+/**
+ * Whether an event came from the server. The stream reports a `message_start` of its
+ * own before the request is made, which says nothing about whether the message arrived.
+ */
+const isServerEvent = (event: StreamEvent): boolean =>
+  !!event.id ||
+  (event.type === 'message_start' && !!(event.data?.message_id || event.data?.user_message_id))
+
+/**
+ * Post one queued message, resolving with the id of the reply or the error that stopped it.
+ * `received` tells whether the server answered at all, in which case it has the message.
+ */
+const sendQueued = async (
+  { conversationId, onStreamEvent }: FlushOutboxOptions,
+  message: OutboxMessage,
+  parentId?: string
+) => {
+  let replyId: string | undefined
+  let error: ApiError | undefined
+  let received = false
+
+  await messageService.sendMessageStream(
+    conversationId,
+    { ...message.request, parent_id: parentId },
+    event => {
+      if (isServerEvent(event)) {
+        received = true
+      }
+      if (event.type === 'message_start' && event.data?.message_id) {
+        replyId = event.data.message_id
+      }
+
+      // Failures are reported once retries are used up, so just end the stream here
+      if (event.type === 'error') {
+        error = {
+          message: event.error || 'Failed to send queued message',
+          details: event.details,
+          status: event.status,
+          code: event.code,
+        }
+        onStreamEvent?.({ type: 'message_cancelled' })
+        return
+      }
+
+      onStreamEvent?.(event)
+    }
+  )
+
+  return { replyId, error, received }
+}
+
+/**
+ * Resolve the parent of a queued message. A message that followed another queued
+ * message replies to that message's answer, or to the newest message once it is gone.
+ */
+const resolveParentId = async (
+  { conversationId, queryClient }: FlushOutboxOptions,
+  message: OutboxMessage,
+  previousReplyId?: string
+) => {
+  if (!message.replies_to_queued) return message.request.parent_id
+  if (previousReplyId) return previousReplyId
+
+  const messages = await queryClient.fetchQuery({
+    queryKey: messageKeys.list(conversationId),
+    queryFn: () => messageService.getMessages(conversationId),
+    staleTime: 0,
+  })
+  return messages[messages.length - 1]?.id ?? message.request.parent_id
+}
+
+/**
+ * Send a conversation's queued messages in order. A message that can't be sent goes
+ * back in the outbox, and the messages after it wait, so they keep their order.
+ */
+export const flushOutbox = async (options: FlushOutboxOptions) => {
+  const { conversationId, queryClient, onRetry } = options
+  const queued = await getOutboxMessages(conversationId)
+  let previousReplyId: string | undefined
+
+  for (const message of queued) {
+    const parentId = await resolveParentId(options, message, previousReplyId)
+
+    // Swap the pending bubble for a regular optimistic message while it is sent
+    const optimisticMessage: Message = {
+      id: `temp-${uuidv4()}`,
+      conversation_id: conversationId,
+      parent_id: parentId,
+      role: 'user',
+      content: message.request.content,
+      parts: message.request.parts,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    }
+    queryClient.setQueryData(
+      outboxKeys.list(conversationId),
+      (old: OutboxMessage[] | undefined) => old?.filter(item => item.id !== message.id) ?? []
+    )
+    queryClient.setQueryData(messageKeys.list(conversationId), (old: Message[] | undefined) =>
+      old ? [...old, optimisticMessage] : [optimisticMessage]
+    )
+
+    let attempts = message.attempts
+    let result = await sendQueued(options, message, parentId)
+
+    // Retry with exponential backoff while the error is retryable, as long as the
+    // server never answered, since sending again would post the message twice
+    while (result.error && !result.received) {
+      attempts += 1
+      if (attempts >= MAX_OUTBOX_ATTEMPTS || isOffline() || !isRetryableError(result.error)) {
+        break
+      }
+
+      const retryDelay = Math.min(1000 * 2 ** attempts, 10000)
+      await new Promise(resolve => setTimeout(resolve, retryDelay))
+      result = await sendQueued(options, message, parentId)
+    }
+
+    if (result.error && result.received) {
+      // The server has the message, so it leaves the outbox even though its reply failed
+      await removeOutboxMessage(message.id)
+      queryClient.invalidateQueries({ queryKey: outboxKeys.list(conversationId) })
+      queryClient.invalidateQueries({ queryKey: messageKeys.list(conversationId) })
+      showQueryError(result.error)
+      return
+    }
+
+    if (result.error) {
+      // Put the message back in the outbox and stop, so later messages keep their order
+      queryClient.setQueryData(messageKeys.list(conversationId), (old: Message[] | undefined) =>
+        old?.filter(item => item.id !== optimisticMessage.id)
+      )
+      await putOutboxMessage({ ...message, attempts })
+      queryClient.invalidateQueries({ queryKey: outboxKeys.list(conversationId) })
+
+      if (!isOffline()) {
+        showQueryError(result.error, onRetry)
+      }
+      return
+    }
+
+    await removeOutboxMessage(message.id)
+    queryClient.invalidateQueries({ queryKey: outboxKeys.list(conversationId) })
+    queryClient.invalidateQueries({ queryKey: messageKeys.list(conversationId) })
+    previousReplyId = result.replyId
+  }
+}
+
+/**
+ * Hook that sends a conversation's queued messages in order whenever the browser
+ * comes back online. The replies stream through `onStreamEvent` like any other message.
+ */
+export const useOutboxFlush = (
+  conversationId: string,
+  onStreamEvent?: (event: StreamEvent) => void
+) => {
+  const queryClient = useQueryClient()
+  const flushingRef = useRef(false)
+
+  // Keep the latest handler so the online listener is not re-registered on every render
+  const onStreamEventRef = useRef(onStreamEvent)
+  onStreamEventRef.current = onStreamEvent
+
+  const flush = useCallback(async () => {
+    if (flushingRef.current || !conversationId || isOffline()) return
+    flushingRef.current = true
+
+    try {
+      await flushOutbox({
+        conversationId,
+        queryClient,
+        onStreamEvent: event => onStreamEventRef.current?.(event),
+        onRetry: () => flush(),
+      })
+    } catch (error) {
+      console.error('Failed to flush outbox:', error)
+    } finally {
+      flushingRef.current = false
+    }
+  }, [conversationId, queryClient])
+
+  // Flush when the connection comes back, and on load in case messages were left over
+  useEffect(() => {
+    flush()
+
+    window.addEventListener('online', flush)
+    return () => window.removeEventListener('online', flush)
+  }, [flush])
+
+  return { flush }
+}
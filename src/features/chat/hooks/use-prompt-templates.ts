@@ -0,0 +1,144 @@
+'use client'
+
+import { useSyncExternalStore } from 'react'
+import { v4 as uuidv4 } from 'uuid'
+import {
+  normalizeTags,
+  type PromptTemplate,
+  type PromptTemplateInput,
+} from '@/features/chat/lib/prompt-templates'
+
+const TEMPLATES_KEY = 'prompt_templates'
+const TEMPLATES_CHANGE_EVENT = 'prompt-templates-change'
+
+const NO_TEMPLATES: PromptTemplate[] = []
+
+// The last parsed value, so every read of unchanged storage returns the same array
+let cachedRaw: string | null = null
+let cachedTemplates: PromptTemplate[] = NO_TEMPLATES
+
+/**
+ * Read the stored templates
+ */
+const readTemplates = (): PromptTemplate[] => {
+  if (typeof window === 'undefined') return NO_TEMPLATES
+
+  const stored = localStorage.getItem(TEMPLATES_KEY)
+  if (stored === cachedRaw) return cachedTemplates
+
+  try {
+    cachedTemplates = stored ? JSON.parse(stored) : NO_TEMPLATES
+  } catch (error) {
+    console.warn('Failed to parse stored prompt templates:', error)
+    localStorage.removeItem(TEMPLATES_KEY)
+    cachedTemplates = NO_TEMPLATES
+  }
+  cachedRaw = stored
+  return cachedTemplates
+}
+
+/**
+ * Store the templates and let every instance know
+ */
+const writeTemplates = (templates: PromptTemplate[]) => {
+  localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates))
+  window.dispatchEvent(new Event(TEMPLATES_CHANGE_EVENT))
+}
+
+/**
+ * Listen for template changes in this tab and in other tabs
+ */
+const subscribeToTemplates = (onChange: () => void) => {
+  window.addEventListener(TEMPLATES_CHANGE_EVENT, onChange)
+  window.addEventListener('storage', onChange)
+
+  return () => {
+    window.removeEventListener(TEMPLATES_CHANGE_EVENT, onChange)
+    window.removeEventListener('storage', onChange)
+  }
+}
+
+/**
+ * Hook for the prompt template library, kept in localStorage and
+ * shared between the settings page and the message input
+ */
+export const usePromptTemplates = () => {
+  const templates = useSyncExternalStore(subscribeToTemplates, readTemplates, () => NO_TEMPLATES)
+
+  // Every tag in use, for filtering
+  const tags = Array.from(new Set(templates.flatMap(template => template.tags))).sort()
+
+  function createTemplate(input: PromptTemplateInput): PromptTemplate {
+    const now = new Date().toISOString()
+    const template: PromptTemplate = {
+      id: uuidv4(),
+      name: input.name.trim(),
+      content: input.content,
+      tags: normalizeTags(input.tags),
+      created_at: now,
+      updated_at: now,
+    }
+
+    writeTemplates([...readTemplates(), template])
+    return template
+  }
+
+  function updateTemplate(id: string, input: PromptTemplateInput) {
+    writeTemplates(
+      readTemplates().map(template =>
+        template.id === id
+          ? {
+              ...template,
+              name: input.name.trim(),
+              content: input.content,
+              tags: normalizeTags(input.tags),
+              updated_at: new Date().toISOString(),
+            }
+          : template
+      )
+    )
+  }
+
+  function deleteTemplate(id: string) {
+    writeTemplates(readTemplates().filter(template => template.id !== id))
+  }
+
+  /**
+   * Add imported templates, skipping ones that already exist with the same name and prompt
+   */
+  function importTemplates(inputs: PromptTemplateInput[]) {
+    const existing = readTemplates()
+    const now = new Date().toISOString()
+    const added: PromptTemplate[] = []
+
+    for (const input of inputs) {
+      const isDuplicate = [...existing, ...added].some(
+        template => template.name === input.name && template.content === input.content
+      )
+      if (isDuplicate) continue
+
+      added.push({
+        id: uuidv4(),
+        name: input.name,
+        content: input.content,
+        tags: normalizeTags(input.tags),
+        created_at: now,
+        updated_at: now,
+      })
+    }
+
+    if (added.length > 0) {
+      writeTemplates([...existing, ...added])
+    }
+    return { added: added.length, skipped: inputs.length - added.length }
+  }
+
+  return {
+    templates,
+    tags,
+    createTemplate,
+    updateTemplate,
+    deleteTemplate,
+    importTemplates,
+  }
+}
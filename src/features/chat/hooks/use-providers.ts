@@ -22,8 +22,9 @@ export const useProviders = (options: UseProvidersOptions = {}) => {
     // Data
     providers: providersQuery.providers,
     userSettings: providersQuery.userSettings,
+    providerModels: providersQuery.providerModels,
     models: providersQuery.models,
-    selectedModel: providersQuery.selectedModel,
+    defaultModel: providersQuery.defaultModel,
 
     // Computed data
     configuredModels: providersQuery.configuredModels,
@@ -34,7 +35,7 @@ export const useProviders = (options: UseProvidersOptions = {}) => {
     error: providersQuery.error,
 
     // Actions
-    setSelectedModel: providersQuery.setSelectedModel,
+    setDefaultModel: providersQuery.setDefaultModel,
     updateUserSettings: providersQuery.updateUserSettings,
 
     // Refetch actions
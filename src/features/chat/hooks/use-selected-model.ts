@@ -3,7 +3,11 @@
 import { useState, useEffect } from 'react'
 
 /**
- * Available model interface
+ * A model that can be picked for a conversation, with the provider it belongs to
+ *
+ * @property has_api_key - Whether the user has set up the provider, so the model can be used
+ * @property input_token_cost - Price per input token in US dollars, when known
+ * @property output_token_cost - Price per output token in US dollars, when known
  */
 export interface AvailableModel {
   id: string
@@ -14,48 +18,65 @@ export interface AvailableModel {
   provider_id: string
   is_active: boolean
   has_api_key: boolean
+  supports_vision?: boolean
+  context_window?: number
+  max_output_tokens?: number
+  input_token_cost?: number
+  output_token_cost?: number
 }
 
-const SELECTED_MODEL_KEY = 'selected_model'
+// Kept under its old key so the model picked before conversations had their own carries over
+const DEFAULT_MODEL_KEY = 'selected_model'
+const DEFAULT_MODEL_CHANGE_EVENT = 'default-model-change'
 
 /**
- * Hook for managing selected model state with localStorage persistence
- * This replaces the ProviderProvider functionality
+ * Hook for the model new conversations start with, persisted in localStorage.
+ * Existing conversations keep their own model, see useConversationModel.
  */
-export const useSelectedModel = () => {
-  const [selectedModel, setSelectedModelState] = useState<AvailableModel | null>(null)
+export const useDefaultModel = () => {
+  const [defaultModel, setDefaultModelState] = useState<AvailableModel | null>(null)
 
-  // Load from localStorage on mount
+  // Load from localStorage on mount, and again whenever another instance changes it
   useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const stored = localStorage.getItem(SELECTED_MODEL_KEY)
+    if (typeof window === 'undefined') return
+
+    const loadDefaultModel = () => {
+      const stored = localStorage.getItem(DEFAULT_MODEL_KEY)
       if (stored) {
         try {
           const model = JSON.parse(stored)
-          setSelectedModelState(model)
+          setDefaultModelState(model)
         } catch (error) {
-          console.warn('Failed to parse stored selected model:', error)
-          localStorage.removeItem(SELECTED_MODEL_KEY)
+          console.warn('Failed to parse stored default model:', error)
+          localStorage.removeItem(DEFAULT_MODEL_KEY)
         }
+      } else {
+        setDefaultModelState(null)
       }
     }
+
+    loadDefaultModel()
+
+    window.addEventListener(DEFAULT_MODEL_CHANGE_EVENT, loadDefaultModel)
+    return () => window.removeEventListener(DEFAULT_MODEL_CHANGE_EVENT, loadDefaultModel)
   }, [])
 
-  function setSelectedModel(model: AvailableModel | null) {
-    setSelectedModelState(model)
+  function setDefaultModel(model: AvailableModel | null) {
+    setDefaultModelState(model)
 
     // Persist to localStorage
     if (typeof window !== 'undefined') {
       if (model) {
-        localStorage.setItem(SELECTED_MODEL_KEY, JSON.stringify(model))
+        localStorage.setItem(DEFAULT_MODEL_KEY, JSON.stringify(model))
       } else {
-        localStorage.removeItem(SELECTED_MODEL_KEY)
+        localStorage.removeItem(DEFAULT_MODEL_KEY)
       }
+      window.dispatchEvent(new Event(DEFAULT_MODEL_CHANGE_EVENT))
     }
   }
 
   return {
-    selectedModel,
-    setSelectedModel,
+    defaultModel,
+    setDefaultModel,
   }
 }
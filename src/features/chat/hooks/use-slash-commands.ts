@@ -0,0 +1,187 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { toast } from 'sonner'
+import {
+  useCreateConversation,
+  useUpdateConversation,
+} from '@/features/chat/queries/useConversation'
+import { useProviders } from '@/features/chat/hooks/use-providers'
+import { useConversationModel } from '@/features/chat/hooks/use-conversation-model'
+import { useConversationExport } from '@/features/chat/hooks/use-conversation-export'
+import {
+  getSlashCommandOptions,
+  matchSlashCommand,
+  parseSlashCommand,
+  validateSlashCommand,
+  type SlashCommandContext,
+  type SlashCommandOption,
+} from '@/features/chat/lib/slash-commands'
+
+/**
+ * Options for the slash commands hook
+ *
+ * @property input - The current text of the composer
+ * @property onInputChange - Replaces the text of the composer
+ * @property onClear - Clears the composer, including attachments
+ * @property enabled - Whether commands are recognized
+ */
+interface UseSlashCommandsOptions {
+  conversationId: string
+  input: string
+  onInputChange: (value: string) => void
+  onClear: () => void
+  enabled?: boolean
+}
+
+/**
+ * Hook that turns composer input starting with `/` into commands. It provides the
+ * popup options and keyboard handling, and runs commands against the chat hooks.
+ */
+export const useSlashCommands = ({
+  conversationId,
+  input,
+  onInputChange,
+  onClear,
+  enabled = true,
+}: UseSlashCommandsOptions) => {
+  const router = useRouter()
+  const { configuredModels, defaultModel } = useProviders()
+  const { setModel } = useConversationModel(conversationId)
+  const updateConversation = useUpdateConversation()
+  const createConversation = useCreateConversation()
+  const { exportConversation } = useConversationExport()
+
+  const [activeIndex, setActiveIndex] = useState(0)
+  const [dismissedInput, setDismissedInput] = useState<string | null>(null)
+  const [runError, setRunError] = useState<string | null>(null)
+
+  // Start from the first option whenever the input changes
+  useEffect(() => {
+    setActiveIndex(0)
+    setRunError(null)
+  }, [input])
+
+  const context: SlashCommandContext = {
+    hasConversation: !!conversationId && conversationId !== 'new',
+    models: configuredModels,
+    selectModel: async model => {
+      if (await setModel(model)) {
+        toast.success(`Switched to ${model.display_name}`)
+      }
+    },
+    updateConversation: (data, successMessage) => {
+      updateConversation.mutate(
+        { id: conversationId, data },
+        { onSuccess: () => toast.success(successMessage) }
+      )
+    },
+    createConversation: () => {
+      createConversation.mutate(
+        {
+          title: 'New Conversation',
+          model_name: defaultModel?.name
+            ? `${defaultModel.provider_name || ''}/${defaultModel.name}`
+            : undefined,
+        },
+        { onSuccess: conversation => router.push(`/chat/${conversation.id}`) }
+      )
+    },
+    exportConversation: format => {
+      exportConversation(conversationId, format)
+    },
+    clearInput: onClear,
+  }
+
+  const parsed = enabled ? parseSlashCommand(input) : null
+  const options = parsed ? getSlashCommandOptions(input, context) : []
+  const match = parsed ? matchSlashCommand(input, context) : null
+
+  // Report a bad argument as soon as one is typed, and a missing one once run
+  const liveError =
+    match && match.argument ? validateSlashCommand(match.command, match.argument, context) : null
+  const error = runError ?? (options.length === 0 ? liveError : null)
+
+  const isOpen = !!parsed && dismissedInput !== input && (options.length > 0 || !!error)
+  const currentIndex = Math.min(activeIndex, Math.max(options.length - 1, 0))
+
+  /**
+   * Run a command, returning false when the input isn't one
+   */
+  const runCommand = (value: string): boolean => {
+    const command = matchSlashCommand(value, context)
+    if (!command) return false
+
+    const validationError = validateSlashCommand(command.command, command.argument, context)
+    if (validationError) {
+      setRunError(validationError)
+      setDismissedInput(null)
+      return true
+    }
+
+    onInputChange('')
+    command.command.run(command.argument, context)
+    return true
+  }
+
+  /**
+   * Use a popup option, running it when it is complete
+   */
+  const selectOption = (option: SlashCommandOption) => {
+    if (option.runs) {
+      runCommand(option.completion)
+    } else {
+      onInputChange(option.completion)
+    }
+  }
+
+  /**
+   * Handle popup navigation keys, returning true when the key was used
+   */
+  const handleKeyDown = (e: React.KeyboardEvent): boolean => {
+    if (!isOpen) return false
+
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      if (options.length === 0) return false
+      e.preventDefault()
+      const step = e.key === 'ArrowDown' ? 1 : -1
+      setActiveIndex((currentIndex + step + options.length) % options.length)
+      return true
+    }
+
+    if (e.key === 'Tab' && options.length > 0) {
+      e.preventDefault()
+      onInputChange(options[currentIndex].completion)
+      return true
+    }
+
+    if (e.key === 'Escape') {
+      e.preventDefault()
+      setDismissedInput(input)
+      return true
+    }
+
+    if (e.key === 'Enter' && !e.shiftKey && options.length > 0) {
+      e.preventDefault()
+      selectOption(options[currentIndex])
+      return true
+    }
+
+    return false
+  }
+
+  return {
+    isOpen,
+    options,
+    activeIndex: currentIndex,
+    error,
+    setActiveIndex,
+    selectOption,
+    handleKeyDown,
+    /**
+     * Run the input as a command on submit, returning false to send it as a message
+     */
+    submit: () => enabled && runCommand(input),
+  }
+}
@@ -1,6 +1,17 @@
 'use client'
 
 import { useState } from 'react'
+import type {
+  Artifact,
+  ArtifactDeltaData,
+  ArtifactEndData,
+  ArtifactStartData,
+  MessageTool,
+  MessageUsage,
+  ToolCallDeltaData,
+  ToolCallResultData,
+  ToolCallStartData,
+} from '@/features/chat/types/conversation'
 
 /**
  * Streaming state interface
@@ -8,8 +19,15 @@ import { useState } from 'react'
 interface StreamingState {
   isStreaming: boolean
   streamingContent: string
+  streamingReasoning: string
+  reasoningStartedAt: number | null
+  reasoningEndedAt: number | null
   streamingMessageId: string | null
   conversationId: string | null
+  lastEventId: string | null
+  streamingTools: MessageTool[]
+  streamingArtifacts: Artifact[]
+  streamingUsage: MessageUsage | null
 }
 
 /**
@@ -18,8 +36,15 @@ interface StreamingState {
 const initialStreamingState: StreamingState = {
   isStreaming: false,
   streamingContent: '',
+  streamingReasoning: '',
+  reasoningStartedAt: null,
+  reasoningEndedAt: null,
   streamingMessageId: null,
   conversationId: null,
+  lastEventId: null,
+  streamingTools: [],
+  streamingArtifacts: [],
+  streamingUsage: null,
 }
 
 /**
@@ -33,8 +58,15 @@ export const useStreamingState = () => {
     setStreaming({
       isStreaming: true,
       streamingContent: '',
+      streamingReasoning: '',
+      reasoningStartedAt: null,
+      reasoningEndedAt: null,
       streamingMessageId: messageId,
       conversationId,
+      lastEventId: null,
+      streamingTools: [],
+      streamingArtifacts: [],
+      streamingUsage: null,
     })
   }
 
@@ -45,11 +77,191 @@ export const useStreamingState = () => {
     }))
   }
 
-  const finalizeStreaming = (finalContent: string) => {
+  /**
+   * Append a streamed delta, keeping everything received so far so that a resumed
+   * stream continues where it left off
+   */
+  const appendStreamingContent = (delta: string, eventId?: string) => {
+    setStreaming(prev => ({
+      ...prev,
+      streamingContent: prev.streamingContent + delta,
+      // The model stops thinking once the answer starts
+      reasoningEndedAt:
+        prev.reasoningStartedAt !== null && prev.reasoningEndedAt === null
+          ? Date.now()
+          : prev.reasoningEndedAt,
+      lastEventId: eventId ?? prev.lastEventId,
+    }))
+  }
+
+  /**
+   * Append streamed reasoning, timing how long the model thinks
+   */
+  const appendStreamingReasoning = (delta: string, eventId?: string) => {
+    setStreaming(prev => ({
+      ...prev,
+      streamingReasoning: prev.streamingReasoning + delta,
+      reasoningStartedAt: prev.reasoningStartedAt ?? Date.now(),
+      lastEventId: eventId ?? prev.lastEventId,
+    }))
+  }
+
+  /**
+   * Track a tool call the model has started
+   */
+  const startToolCall = (data: ToolCallStartData, eventId?: string) => {
+    const now = new Date().toISOString()
+
+    setStreaming(prev => ({
+      ...prev,
+      lastEventId: eventId ?? prev.lastEventId,
+      streamingTools: [
+        // A resumed stream may replay the start event
+        ...prev.streamingTools.filter(tool => tool.id !== data.id),
+        {
+          id: data.id,
+          message_id: prev.streamingMessageId || '',
+          tool_id: data.tool_id,
+          tool: data.tool,
+          input: data.input,
+          execution_status: 'pending',
+          created_at: now,
+          updated_at: now,
+        },
+      ],
+    }))
+  }
+
+  /**
+   * Append streamed output to a tool call, marking it as running
+   */
+  const appendToolOutput = (data: ToolCallDeltaData, eventId?: string) => {
+    setStreaming(prev => ({
+      ...prev,
+      lastEventId: eventId ?? prev.lastEventId,
+      streamingTools: prev.streamingTools.map(tool =>
+        tool.id === data.id
+          ? {
+              ...tool,
+              execution_status: 'running',
+              output_text: (tool.output_text || '') + data.delta,
+              updated_at: new Date().toISOString(),
+            }
+          : tool
+      ),
+    }))
+  }
+
+  /**
+   * Record the final result of a tool call
+   */
+  const completeToolCall = (data: ToolCallResultData, eventId?: string) => {
+    setStreaming(prev => ({
+      ...prev,
+      lastEventId: eventId ?? prev.lastEventId,
+      streamingTools: prev.streamingTools.map(tool =>
+        tool.id === data.id
+          ? {
+              ...tool,
+              execution_status: data.status,
+              output: data.output,
+              error_message: data.error_message,
+              updated_at: new Date().toISOString(),
+            }
+          : tool
+      ),
+    }))
+  }
+
+  /**
+   * Track an artifact the model has started generating
+   */
+  const startArtifact = (data: ArtifactStartData, eventId?: string) => {
+    const now = new Date().toISOString()
+
+    setStreaming(prev => ({
+      ...prev,
+      lastEventId: eventId ?? prev.lastEventId,
+      streamingArtifacts: [
+        // A resumed stream may replay the start event
+        ...prev.streamingArtifacts.filter(artifact => artifact.id !== data.id),
+        {
+          id: data.id,
+          message_id: prev.streamingMessageId || '',
+          type: data.type,
+          title: data.title,
+          language: data.language,
+          content: '',
+          is_streaming: true,
+          created_at: now,
+          updated_at: now,
+        },
+      ],
+    }))
+  }
+
+  /**
+   * Append streamed content to an artifact
+   */
+  const appendArtifactContent = (data: ArtifactDeltaData, eventId?: string) => {
+    setStreaming(prev => ({
+      ...prev,
+      lastEventId: eventId ?? prev.lastEventId,
+      streamingArtifacts: prev.streamingArtifacts.map(artifact =>
+        artifact.id === data.id
+          ? {
+              ...artifact,
+              content: artifact.content + data.delta,
+              updated_at: new Date().toISOString(),
+            }
+          : artifact
+      ),
+    }))
+  }
+
+  /**
+   * Mark an artifact as complete, replacing its content when the final version is sent
+   */
+  const completeArtifact = (data: ArtifactEndData, eventId?: string) => {
+    setStreaming(prev => ({
+      ...prev,
+      lastEventId: eventId ?? prev.lastEventId,
+      streamingArtifacts: prev.streamingArtifacts.map(artifact =>
+        artifact.id === data.id
+          ? {
+              ...artifact,
+              content: data.content ?? artifact.content,
+              is_streaming: false,
+              updated_at: new Date().toISOString(),
+            }
+          : artifact
+      ),
+    }))
+  }
+
+  /**
+   * Record the token usage reported for the streaming message
+   */
+  const setStreamingUsage = (usage: MessageUsage, eventId?: string) => {
+    setStreaming(prev => ({
+      ...prev,
+      lastEventId: eventId ?? prev.lastEventId,
+      streamingUsage: { ...prev.streamingUsage, ...usage },
+    }))
+  }
+
+  const finalizeStreaming = (finalContent?: string) => {
     setStreaming(prev => ({
       ...prev,
       isStreaming: false,
-      streamingContent: finalContent,
+      streamingContent: finalContent ?? prev.streamingContent,
+      reasoningEndedAt:
+        prev.reasoningStartedAt !== null ? (prev.reasoningEndedAt ?? Date.now()) : null,
+      // Artifacts whose end event never arrived are complete once the message is
+      streamingArtifacts: prev.streamingArtifacts.map(artifact => ({
+        ...artifact,
+        is_streaming: false,
+      })),
     }))
   }
 
@@ -61,6 +273,15 @@ export const useStreamingState = () => {
     streaming,
     startStreaming,
     updateStreamingContent,
+    appendStreamingContent,
+    appendStreamingReasoning,
+    startToolCall,
+    appendToolOutput,
+    completeToolCall,
+    startArtifact,
+    appendArtifactContent,
+    completeArtifact,
+    setStreamingUsage,
     finalizeStreaming,
     stopStreaming,
   }
@@ -10,4 +10,4 @@ export { useChat } from './hooks/use-chat'
 // Export new simplified state hooks
 export { useStreamingState } from './hooks/use-streaming-state'
 export { useEditingState } from './hooks/use-editing-state'
-export { useSelectedModel, type AvailableModel } from './hooks/use-selected-model'
+export { useDefaultModel, type AvailableModel } from './hooks/use-selected-model'
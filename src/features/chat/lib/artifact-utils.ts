@@ -0,0 +1,102 @@
+import type { Artifact, Message } from '@/features/chat/types/conversation'
+
+/**
+ * File extensions for common code artifact languages
+ */
+const LANGUAGE_EXTENSIONS: Record<string, string> = {
+  javascript: 'js',
+  typescript: 'ts',
+  jsx: 'jsx',
+  tsx: 'tsx',
+  python: 'py',
+  ruby: 'rb',
+  rust: 'rs',
+  go: 'go',
+  java: 'java',
+  kotlin: 'kt',
+  swift: 'swift',
+  c: 'c',
+  cpp: 'cpp',
+  csharp: 'cs',
+  php: 'php',
+  bash: 'sh',
+  shell: 'sh',
+  sql: 'sql',
+  json: 'json',
+  yaml: 'yaml',
+  css: 'css',
+  html: 'html',
+  xml: 'xml',
+}
+
+/**
+ * Get the file extension to use when downloading an artifact
+ */
+export const getArtifactExtension = (artifact: Pick<Artifact, 'type' | 'language'>): string => {
+  if (artifact.type === 'markdown') return 'md'
+  if (artifact.type === 'html') return 'html'
+  if (artifact.type === 'code' && artifact.language) {
+    const language = artifact.language.toLowerCase()
+    return LANGUAGE_EXTENSIONS[language] ?? language
+  }
+  return 'txt'
+}
+
+/**
+ * Get the MIME type to use when downloading an artifact
+ */
+export const getArtifactMimeType = (artifact: Pick<Artifact, 'type'>): string => {
+  if (artifact.type === 'markdown') return 'text/markdown'
+  if (artifact.type === 'html') return 'text/html'
+  return 'text/plain'
+}
+
+/**
+ * Build a safe file name from the artifact title
+ */
+export const getArtifactFileName = (artifact: Pick<Artifact, 'title' | 'type' | 'language'>) => {
+  const baseName =
+    artifact.title
+      .trim()
+      .replace(/[^a-zA-Z0-9-_ ]/g, '')
+      .replace(/\s+/g, '-')
+      .toLowerCase() || 'artifact'
+
+  return `${baseName}.${getArtifactExtension(artifact)}`
+}
+
+/**
+ * Save an artifact's content as a file
+ */
+export const downloadArtifact = (artifact: Artifact) => {
+  const blob = new Blob([artifact.content], { type: getArtifactMimeType(artifact) })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+
+  link.href = url
+  link.download = getArtifactFileName(artifact)
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Collect every artifact in a conversation in message order, followed by the
+ * artifacts of the message that is still streaming
+ */
+export const collectArtifacts = (
+  messages: Message[],
+  streamingArtifacts: Artifact[] = []
+): Artifact[] => {
+  const artifacts = messages.flatMap(message =>
+    (message.artifacts || []).map(artifact => ({
+      ...artifact,
+      message_id: artifact.message_id || message.id,
+    }))
+  )
+  const savedIds = new Set(artifacts.map(artifact => artifact.id))
+
+  // Once the message is saved its artifacts come back from the server
+  return [...artifacts, ...streamingArtifacts.filter(artifact => !savedIds.has(artifact.id))]
+}
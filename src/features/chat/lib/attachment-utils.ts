@@ -0,0 +1,112 @@
+import { extractPdfText } from './pdf-text'
+
+/**
+ * How an attached file is sent: images are uploaded, documents are read into text
+ */
+export type AttachmentKind = 'image' | 'document'
+
+export const MAX_ATTACHMENTS = 10
+export const MAX_IMAGE_SIZE = 10 * 1024 * 1024
+export const MAX_DOCUMENT_SIZE = 20 * 1024 * 1024
+
+/**
+ * Longest text kept from a single document, so one file can't fill the context window
+ */
+export const MAX_DOCUMENT_CHARS = 100_000
+
+const IMAGE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp']
+
+const TEXT_EXTENSIONS = [
+  'txt',
+  'md',
+  'markdown',
+  'csv',
+  'tsv',
+  'json',
+  'xml',
+  'yaml',
+  'yml',
+  'log',
+  'html',
+  'css',
+  'js',
+  'jsx',
+  'ts',
+  'tsx',
+  'py',
+  'go',
+  'rs',
+  'java',
+  'sql',
+  'sh',
+]
+
+/**
+ * File types accepted by the attachment picker
+ */
+export const ATTACHMENT_ACCEPT = [
+  ...IMAGE_MIME_TYPES,
+  'application/pdf',
+  'text/*',
+  ...TEXT_EXTENSIONS.map(extension => `.${extension}`),
+].join(',')
+
+/**
+ * Get the lowercase extension of a file name
+ */
+const getExtension = (name: string): string => name.split('.').pop()?.toLowerCase() ?? ''
+
+/**
+ * Work out how a file can be attached, or null if it is not supported
+ */
+export const getAttachmentKind = (file: File): AttachmentKind | null => {
+  if (IMAGE_MIME_TYPES.includes(file.type)) return 'image'
+  if (file.type === 'application/pdf' || getExtension(file.name) === 'pdf') return 'document'
+  if (file.type.startsWith('text/') || file.type === 'application/json') return 'document'
+  if (TEXT_EXTENSIONS.includes(getExtension(file.name))) return 'document'
+  return null
+}
+
+/**
+ * Check a file against the attachment limits, returning why it can't be attached
+ */
+export const validateAttachment = (file: File): string | null => {
+  const kind = getAttachmentKind(file)
+
+  if (!kind) {
+    return `${file.name} is not a supported file type`
+  }
+  if (kind === 'image' && file.size > MAX_IMAGE_SIZE) {
+    return `${file.name} is larger than ${formatFileSize(MAX_IMAGE_SIZE)}`
+  }
+  if (kind === 'document' && file.size > MAX_DOCUMENT_SIZE) {
+    return `${file.name} is larger than ${formatFileSize(MAX_DOCUMENT_SIZE)}`
+  }
+  return null
+}
+
+/**
+ * Read the text of a document. CSV and other text files are read as is;
+ * PDFs are parsed in the browser.
+ */
+export const extractDocumentText = async (file: File): Promise<string> => {
+  const isPdf = file.type === 'application/pdf' || getExtension(file.name) === 'pdf'
+  const text = isPdf ? await extractPdfText(await file.arrayBuffer()) : await file.text()
+
+  if (!text.trim()) {
+    throw new Error(`No readable text found in ${file.name}`)
+  }
+
+  return text.length > MAX_DOCUMENT_CHARS
+    ? `${text.slice(0, MAX_DOCUMENT_CHARS)}\n\n[Truncated: ${file.name} is too long to include in full]`
+    : text
+}
+
+/**
+ * Format a byte count for display, e.g. "2.4 MB"
+ */
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
@@ -1,3 +1,5 @@
+import type { Message } from '@/features/chat/types/conversation'
+
 export const formatMessageTime = (dateString: string): string => {
   try {
     return new Intl.DateTimeFormat('en-US', {
@@ -42,3 +44,29 @@ export const generateTempId = (): string => {
 export const isValidMessage = (content: string): boolean => {
   return content.trim().length > 0
 }
+
+/**
+ * Get the text to copy for a message. Reasoning is left out unless asked for.
+ */
+export const getMessageCopyText = (
+  message: Pick<Message, 'content' | 'reasoning'>,
+  includeReasoning = false
+): string => {
+  if (!includeReasoning || !message.reasoning) {
+    return message.content
+  }
+
+  return `Thinking:\n${message.reasoning.trim()}\n\nAnswer:\n${message.content}`
+}
+
+/**
+ * Format an elapsed duration as seconds, or minutes and seconds past a minute
+ */
+export const formatElapsedTime = (milliseconds: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(milliseconds / 1000))
+  if (totalSeconds < 60) return `${totalSeconds}s`
+
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return `${minutes}m ${seconds}s`
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import type { Message } from '@/features/chat/types/conversation'
+import { findPromptCopies, findPromptMessage } from './compare-utils'
+
+const message = (id: string, role: Message['role'], fields: Partial<Message> = {}): Message => ({
+  id,
+  conversation_id: 'c1',
+  role,
+  content: role === 'user' ? 'Compare this' : `Answer ${id}`,
+  created_at: '2025-01-01T00:00:00.000Z',
+  updated_at: '2025-01-01T00:00:00.000Z',
+  ...fields,
+})
+
+// Two models answered the same prompt at the top of a conversation
+const atTop = [
+  message('u1', 'user'),
+  message('u2', 'user'),
+  message('a1', 'assistant', { parent_id: 'u1', model_id: 'm1' }),
+  message('a2', 'assistant', { parent_id: 'u2', model_id: 'm2' }),
+]
+
+describe('findPromptCopies', () => {
+  it('finds every copy of a prompt at the top of a conversation', () => {
+    expect(findPromptCopies(atTop, { content: 'Compare this' })).toEqual(['u1', 'u2'])
+  })
+
+  it('finds the copies under the parent and leaves out earlier messages', () => {
+    const messages = [
+      message('u0', 'user'),
+      message('a0', 'assistant', { parent_id: 'u0' }),
+      message('old', 'user', { parent_id: 'a0' }),
+      message('u1', 'user', { parent_id: 'a0' }),
+      message('u2', 'user', { parent_id: 'a0' }),
+      message('other', 'user', { parent_id: 'u0' }),
+    ]
+
+    expect(
+      findPromptCopies(messages, { content: 'Compare this', parentId: 'a0' }, new Set(['old']))
+    ).toEqual(['u1', 'u2'])
+  })
+})
+
+describe('findPromptMessage', () => {
+  it("finds the copy a model answered from the model's reply", () => {
+    expect(findPromptMessage(atTop, { content: 'Compare this' }, 'm2', null)).toBe('u2')
+  })
+
+  it('finds the copy from the assistant message the stream named', () => {
+    expect(findPromptMessage(atTop, { content: 'Compare this' }, 'm1', 'a1')).toBe('u1')
+  })
+
+  it('finds nothing before the model has replied', () => {
+    expect(findPromptMessage(atTop, { content: 'Compare this' }, 'm3', null)).toBeNull()
+  })
+})
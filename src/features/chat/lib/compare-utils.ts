@@ -0,0 +1,64 @@
+import type { Message } from '@/features/chat/types/conversation'
+import { resolveParentKeys, ROOT_PARENT_KEY } from './message-tree'
+
+/**
+ * A prompt sent to several models in compare mode
+ *
+ * @property parentId - The message the prompt replies to, or none at the top of the conversation
+ */
+export interface ComparePrompt {
+  content: string
+  parentId?: string
+}
+
+/**
+ * Find the user messages a compare prompt was saved as. Every model posts its own copy,
+ * so there is one per model that got the prompt. Messages in `previousIds`, saved before
+ * the prompt was sent, are left out.
+ */
+export const findPromptCopies = (
+  messages: Message[],
+  prompt: ComparePrompt,
+  previousIds: ReadonlySet<string> = new Set()
+): string[] => {
+  const parentKeys = resolveParentKeys(messages)
+
+  return messages
+    .filter(
+      message =>
+        message.role === 'user' &&
+        message.content === prompt.content &&
+        !previousIds.has(message.id) &&
+        parentKeys.get(message.id) === (prompt.parentId ?? ROOT_PARENT_KEY)
+    )
+    .map(message => message.id)
+}
+
+/**
+ * Find the copy of a compare prompt that one model answered. Matched by the assistant
+ * message when the stream named it, otherwise by the newest reply the model wrote to
+ * a copy of the prompt.
+ */
+export const findPromptMessage = (
+  messages: Message[],
+  prompt: ComparePrompt,
+  modelId: string,
+  assistantMessageId: string | null
+): string | null => {
+  const parentKeys = resolveParentKeys(messages)
+
+  if (assistantMessageId) {
+    const parentKey = parentKeys.get(assistantMessageId)
+    return parentKey && parentKey !== ROOT_PARENT_KEY ? parentKey : null
+  }
+
+  const copies = new Set(findPromptCopies(messages, prompt))
+  const reply = messages.findLast(
+    message =>
+      message.role === 'assistant' &&
+      message.model_id === modelId &&
+      copies.has(parentKeys.get(message.id) ?? '')
+  )
+
+  return reply ? (parentKeys.get(reply.id) ?? null) : null
+}
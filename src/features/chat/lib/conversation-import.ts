@@ -0,0 +1,383 @@
+import type {
+  CreateConversationRequest,
+  ImportMessageRequest,
+  MessagePart,
+} from '@/features/chat/types/conversation'
+import { readZip } from './zip'
+
+/**
+ * Apps whose export files can be imported
+ */
+export type ImportSource = 'chatgpt' | 'claude'
+
+export const IMPORT_SOURCES: Record<ImportSource, string> = {
+  chatgpt: 'ChatGPT',
+  claude: 'Claude',
+}
+
+/**
+ * A conversation read from an export file, ready to upload
+ *
+ * @property sourceId - Id of the conversation in the other app
+ * @property branchCount - Number of alternative endings, 1 for a conversation without edits
+ * @property skippedMessages - Messages left out because their content can't be imported
+ * @property skippedFiles - Images and other files whose contents aren't in the export
+ */
+export interface ParsedConversation {
+  sourceId: string
+  conversation: CreateConversationRequest
+  messages: ImportMessageRequest[]
+  created_at?: string
+  branchCount: number
+  skippedMessages: number
+  skippedFiles: number
+}
+
+/**
+ * A conversation from the export file that can't be imported, and why
+ */
+export interface SkippedConversation {
+  title: string
+  reason: string
+}
+
+/**
+ * Everything read from an export file
+ */
+export interface ParsedImport {
+  source: ImportSource
+  conversations: ParsedConversation[]
+  skipped: SkippedConversation[]
+}
+
+const UNTITLED = 'Untitled conversation'
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const asString = (value: unknown): string => (typeof value === 'string' ? value : '')
+
+/**
+ * Convert a timestamp in seconds or an ISO string to an ISO string
+ */
+const toIsoDate = (value: unknown): string | undefined => {
+  const date =
+    typeof value === 'number'
+      ? new Date(value * 1000)
+      : typeof value === 'string'
+        ? new Date(value)
+        : null
+  return date && !Number.isNaN(date.getTime()) ? date.toISOString() : undefined
+}
+
+/**
+ * Order messages so parents always come before their replies, keeping the
+ * original order among siblings
+ */
+const sortParentsFirst = (messages: ImportMessageRequest[]): ImportMessageRequest[] => {
+  const ids = new Set(messages.map(message => message.id))
+  const children = new Map<string, ImportMessageRequest[]>()
+  const roots: ImportMessageRequest[] = []
+
+  messages.forEach(message => {
+    if (message.parent_id && ids.has(message.parent_id)) {
+      children.set(message.parent_id, [...(children.get(message.parent_id) || []), message])
+    } else {
+      roots.push({ ...message, parent_id: undefined })
+    }
+  })
+
+  const sorted: ImportMessageRequest[] = []
+  const stack = [...roots].reverse()
+  while (stack.length > 0) {
+    const message = stack.pop()!
+    sorted.push(message)
+    stack.push(...[...(children.get(message.id) || [])].reverse())
+  }
+  return sorted
+}
+
+/**
+ * Number of messages nobody replied to, i.e. the endings of each branch
+ */
+const countBranches = (messages: ImportMessageRequest[]): number => {
+  const parents = new Set(messages.map(message => message.parent_id))
+  return messages.filter(message => !parents.has(message.id)).length
+}
+
+/**
+ * Point every kept message at its closest kept ancestor, so leaving out a
+ * message doesn't cut its replies off from the tree
+ */
+const resolveParent = (
+  parentId: string | undefined,
+  parents: Map<string, string | undefined>,
+  kept: Set<string>
+): string | undefined => {
+  let current = parentId
+  const seen = new Set<string>()
+  while (current && !kept.has(current) && !seen.has(current)) {
+    seen.add(current)
+    current = parents.get(current)
+  }
+  return current && kept.has(current) ? current : undefined
+}
+
+/**
+ * Read a ChatGPT conversation. Messages form a tree in `mapping`, where each
+ * node links to its parent; edits and regenerations become branches.
+ */
+const parseChatGptConversation = (
+  raw: Record<string, unknown>
+): ParsedConversation | SkippedConversation => {
+  const title = asString(raw.title) || UNTITLED
+  if (!isRecord(raw.mapping)) {
+    return { title, reason: 'Unrecognized conversation format' }
+  }
+
+  const parents = new Map<string, string | undefined>()
+  const messages: ImportMessageRequest[] = []
+  const systemPrompts: string[] = []
+  let skippedMessages = 0
+  let skippedFiles = 0
+
+  Object.entries(raw.mapping).forEach(([nodeId, node]) => {
+    if (!isRecord(node)) return
+    parents.set(nodeId, asString(node.parent) || undefined)
+
+    const message = node.message
+    if (!isRecord(message) || !isRecord(message.content)) return
+
+    const role = isRecord(message.author) ? asString(message.author.role) : ''
+    const content = message.content
+    const metadata = isRecord(message.metadata) ? message.metadata : {}
+
+    // Custom instructions are stored as a hidden message; they become the system prompt
+    if (content.content_type === 'user_editable_context') {
+      const instructions = [asString(content.user_profile), asString(content.user_instructions)]
+        .filter(Boolean)
+        .join('\n\n')
+      if (instructions) systemPrompts.push(instructions)
+      return
+    }
+
+    // Hidden system scaffolding isn't part of the conversation
+    if (metadata.is_visually_hidden_from_conversation || role === 'system') return
+
+    const isToolCall = role === 'assistant' && message.recipient && message.recipient !== 'all'
+    if ((role !== 'user' && role !== 'assistant') || isToolCall) {
+      skippedMessages++
+      return
+    }
+
+    let text = ''
+    if (content.content_type === 'text' || content.content_type === 'multimodal_text') {
+      const parts = Array.isArray(content.parts) ? content.parts : []
+      text = parts.filter(part => typeof part === 'string').join('\n\n')
+      skippedFiles += parts.filter(part => typeof part !== 'string').length
+    } else if (content.content_type === 'code') {
+      const language = asString(content.language)
+      text = `\`\`\`${language === 'unknown' ? '' : language}\n${asString(content.text)}\n\`\`\``
+    }
+
+    if (!text.trim()) {
+      skippedMessages++
+      return
+    }
+
+    messages.push({
+      id: nodeId,
+      parent_id: asString(node.parent) || undefined,
+      role,
+      content: text,
+      created_at: toIsoDate(message.create_time),
+    })
+  })
+
+  const kept = new Set(messages.map(message => message.id))
+  messages.forEach(message => {
+    message.parent_id = resolveParent(message.parent_id, parents, kept)
+  })
+
+  if (messages.length === 0) {
+    return { title, reason: 'No messages with text' }
+  }
+
+  return {
+    sourceId: asString(raw.conversation_id) || asString(raw.id) || title,
+    conversation: {
+      title,
+      system_prompt: systemPrompts[0],
+    },
+    messages: sortParentsFirst(messages),
+    created_at: toIsoDate(raw.create_time),
+    branchCount: countBranches(messages),
+    skippedMessages,
+    skippedFiles,
+  }
+}
+
+/**
+ * Read a Claude conversation. Newer exports link messages with
+ * `parent_message_uuid`; older ones are a plain list, read as a single thread.
+ * Text extracted from attached documents is kept as document parts.
+ */
+const parseClaudeConversation = (
+  raw: Record<string, unknown>
+): ParsedConversation | SkippedConversation => {
+  const title = asString(raw.name) || UNTITLED
+  if (!Array.isArray(raw.chat_messages)) {
+    return { title, reason: 'Unrecognized conversation format' }
+  }
+
+  const parents = new Map<string, string | undefined>()
+  const messages: ImportMessageRequest[] = []
+  let previousId: string | undefined
+  let skippedMessages = 0
+  let skippedFiles = 0
+
+  raw.chat_messages.forEach((message, index) => {
+    if (!isRecord(message)) return
+
+    const id = asString(message.uuid) || `message-${index}`
+    const parentId =
+      'parent_message_uuid' in message ? asString(message.parent_message_uuid) : previousId
+    parents.set(id, parentId || undefined)
+    previousId = id
+
+    const role =
+      message.sender === 'human' ? 'user' : message.sender === 'assistant' ? 'assistant' : null
+    if (!role) {
+      skippedMessages++
+      return
+    }
+
+    // Prefer the content blocks, which leave out tool calls and thinking
+    const blocks = Array.isArray(message.content) ? message.content.filter(isRecord) : []
+    const text =
+      blocks.length > 0
+        ? blocks
+            .filter(block => block.type === 'text')
+            .map(block => asString(block.text))
+            .filter(Boolean)
+            .join('\n\n')
+        : asString(message.text)
+
+    const attachments = Array.isArray(message.attachments)
+      ? message.attachments.filter(isRecord)
+      : []
+    const parts: MessagePart[] = attachments
+      .filter(attachment => asString(attachment.extracted_content))
+      .map(attachment => ({
+        type: 'document',
+        name: asString(attachment.file_name) || 'Attachment',
+        mime_type: asString(attachment.file_type) || 'text/plain',
+        text: asString(attachment.extracted_content),
+      }))
+    skippedFiles +=
+      attachments.length - parts.length + (Array.isArray(message.files) ? message.files.length : 0)
+
+    if (!text.trim() && parts.length === 0) {
+      skippedMessages++
+      return
+    }
+
+    messages.push({
+      id,
+      parent_id: parentId || undefined,
+      role,
+      content: text,
+      parts: parts.length > 0 ? parts : undefined,
+      created_at: toIsoDate(message.created_at),
+    })
+  })
+
+  const kept = new Set(messages.map(message => message.id))
+  messages.forEach(message => {
+    message.parent_id = resolveParent(message.parent_id, parents, kept)
+  })
+
+  if (messages.length === 0) {
+    return { title, reason: 'No messages with text' }
+  }
+
+  return {
+    sourceId: asString(raw.uuid) || title,
+    conversation: { title },
+    messages: sortParentsFirst(messages),
+    created_at: toIsoDate(raw.created_at),
+    branchCount: countBranches(messages),
+    skippedMessages,
+    skippedFiles,
+  }
+}
+
+/**
+ * Tell which app an export came from by the shape of its conversations
+ */
+const detectSource = (conversations: unknown[]): ImportSource | null => {
+  const sample = conversations.find(isRecord)
+  if (!sample) return null
+  if ('mapping' in sample) return 'chatgpt'
+  if ('chat_messages' in sample) return 'claude'
+  return null
+}
+
+/**
+ * Get the conversations JSON out of an export: either the file itself or the
+ * `conversations.json` inside an export archive
+ */
+const readConversationsJson = async (file: File): Promise<string> => {
+  const isZip = file.name.toLowerCase().endsWith('.zip') || file.type.includes('zip')
+  if (!isZip) return file.text()
+
+  const files = await readZip(await file.arrayBuffer())
+  const entry = Array.from(files.entries()).find(
+    ([name]) => name === 'conversations.json' || name.endsWith('/conversations.json')
+  )
+  if (!entry) {
+    throw new Error('The archive has no conversations.json file')
+  }
+  return new TextDecoder().decode(entry[1])
+}
+
+/**
+ * Read a ChatGPT `conversations.json` or a ChatGPT or Claude export archive.
+ * Everything happens in the browser; nothing is uploaded until the user confirms.
+ */
+export const parseImportFile = async (file: File): Promise<ParsedImport> => {
+  let data: unknown
+  try {
+    data = JSON.parse(await readConversationsJson(file))
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      throw new Error('The file is not valid JSON')
+    }
+    throw error
+  }
+
+  const conversations = Array.isArray(data) ? data : [data]
+  const source = detectSource(conversations)
+  if (!source) {
+    throw new Error('The file is not a ChatGPT or Claude conversation export')
+  }
+
+  const parse = source === 'chatgpt' ? parseChatGptConversation : parseClaudeConversation
+  const result: ParsedImport = { source, conversations: [], skipped: [] }
+
+  conversations.forEach(raw => {
+    if (!isRecord(raw)) {
+      result.skipped.push({ title: UNTITLED, reason: 'Unrecognized conversation format' })
+      return
+    }
+
+    const parsed = parse(raw)
+    if ('reason' in parsed) {
+      result.skipped.push(parsed)
+    } else {
+      result.conversations.push(parsed)
+    }
+  })
+
+  return result
+}
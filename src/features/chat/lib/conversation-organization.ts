@@ -0,0 +1,97 @@
+import type { ConversationSummaryResponse } from '@/features/chat/types/conversation'
+
+/**
+ * A user-defined group of conversations in the sidebar
+ */
+export interface ConversationFolder {
+  id: string
+  name: string
+  created_at: string
+}
+
+/**
+ * Colors a tag can be shown in
+ */
+export type TagColor = 'gray' | 'red' | 'orange' | 'yellow' | 'green' | 'blue' | 'purple' | 'pink'
+
+/**
+ * Dot classes for each tag color, written out in full so Tailwind keeps them
+ */
+export const TAG_COLORS: Record<TagColor, string> = {
+  gray: 'bg-gray-400',
+  red: 'bg-red-500',
+  orange: 'bg-orange-500',
+  yellow: 'bg-yellow-400',
+  green: 'bg-green-500',
+  blue: 'bg-blue-500',
+  purple: 'bg-purple-500',
+  pink: 'bg-pink-500',
+}
+
+const COLOR_NAMES = Object.keys(TAG_COLORS) as TagColor[]
+
+/**
+ * A stable color for a tag the user hasn't picked one for
+ */
+export const getDefaultTagColor = (tag: string): TagColor => {
+  let hash = 0
+  for (const char of tag) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0
+  }
+  return COLOR_NAMES[Math.abs(hash) % COLOR_NAMES.length]
+}
+
+/**
+ * Clean up a tag name, e.g. "  Work " -> "work"
+ */
+export const normalizeTag = (tag: string): string => tag.trim().toLowerCase()
+
+/**
+ * Sidebar sections, in display order
+ *
+ * @property pinned - Pinned conversations, shown above everything else whatever their folder
+ * @property folders - Each folder with its conversations, including empty folders
+ * @property unfiled - Conversations in no folder, or in a folder that no longer exists
+ */
+export interface ConversationSections {
+  pinned: ConversationSummaryResponse[]
+  folders: { folder: ConversationFolder; conversations: ConversationSummaryResponse[] }[]
+  unfiled: ConversationSummaryResponse[]
+}
+
+/**
+ * Split conversations into the sidebar's sections, keeping their order within each
+ */
+export const groupConversations = (
+  conversations: ConversationSummaryResponse[],
+  folders: ConversationFolder[]
+): ConversationSections => {
+  const folderIds = new Set(folders.map(folder => folder.id))
+  const byFolder = new Map<string, ConversationSummaryResponse[]>()
+  const sections: ConversationSections = { pinned: [], folders: [], unfiled: [] }
+
+  conversations.forEach(conversation => {
+    if (conversation.is_pinned) {
+      sections.pinned.push(conversation)
+    } else if (conversation.folder_id && folderIds.has(conversation.folder_id)) {
+      byFolder.set(conversation.folder_id, [
+        ...(byFolder.get(conversation.folder_id) || []),
+        conversation,
+      ])
+    } else {
+      sections.unfiled.push(conversation)
+    }
+  })
+
+  sections.folders = folders.map(folder => ({
+    folder,
+    conversations: byFolder.get(folder.id) || [],
+  }))
+
+  return sections
+}
+
+/**
+ * Data transfer type used when dragging a conversation onto a folder
+ */
+export const CONVERSATION_DRAG_TYPE = 'application/x-conversation-id'
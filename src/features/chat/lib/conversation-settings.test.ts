@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+import {
+  countCustomSettings,
+  DEFAULT_CONVERSATION_SETTINGS,
+  getConversationSettings,
+  toUpdateRequest,
+  validateConversationSettings,
+  type ConversationSettings,
+} from './conversation-settings'
+
+const settings = (fields: Partial<ConversationSettings>): ConversationSettings => ({
+  ...DEFAULT_CONVERSATION_SETTINGS,
+  ...fields,
+})
+
+describe('getConversationSettings', () => {
+  it('fills in defaults for settings not set', () => {
+    expect(getConversationSettings({ temperature: 0, max_tokens: 512 })).toEqual(
+      settings({ temperature: 0, max_tokens: 512 })
+    )
+    expect(getConversationSettings()).toEqual(DEFAULT_CONVERSATION_SETTINGS)
+  })
+})
+
+describe('countCustomSettings', () => {
+  it('counts the settings that differ from the defaults', () => {
+    expect(countCustomSettings(DEFAULT_CONVERSATION_SETTINGS)).toBe(0)
+    expect(countCustomSettings(settings({ system_prompt: '   ' }))).toBe(0)
+    expect(
+      countCustomSettings(
+        settings({ system_prompt: 'Be brief', top_p: 0.9, stop_sequences: ['END'] })
+      )
+    ).toBe(3)
+  })
+})
+
+describe('validateConversationSettings', () => {
+  it('accepts the defaults', () => {
+    expect(validateConversationSettings(DEFAULT_CONVERSATION_SETTINGS)).toEqual({})
+  })
+
+  it('reports each invalid field', () => {
+    const errors = validateConversationSettings(
+      settings({
+        temperature: 2.5,
+        max_tokens: 1.5,
+        top_p: 0,
+        stop_sequences: ['a', 'b', 'c', 'd', 'e'],
+      })
+    )
+    expect(Object.keys(errors).sort()).toEqual([
+      'max_tokens',
+      'stop_sequences',
+      'temperature',
+      'top_p',
+    ])
+  })
+
+  it('allows top-p of exactly 1', () => {
+    expect(validateConversationSettings(settings({ top_p: 1 }))).toEqual({})
+  })
+})
+
+describe('toUpdateRequest', () => {
+  it('trims the system prompt', () => {
+    expect(toUpdateRequest(settings({ system_prompt: '  Be brief \n' })).system_prompt).toBe(
+      'Be brief'
+    )
+  })
+})
@@ -0,0 +1,107 @@
+import type {
+  ConversationDetailResponse,
+  UpdateConversationRequest,
+} from '@/features/chat/types/conversation'
+
+/**
+ * Generation settings of a conversation, as edited in the settings sheet
+ *
+ * @property max_tokens - Reply length limit, or null for the model's own limit
+ * @property top_p - Nucleus sampling cutoff, or null for the model's default
+ * @property stop_sequences - Text that ends the reply when the model produces it
+ */
+export interface ConversationSettings {
+  system_prompt: string
+  temperature: number
+  max_tokens: number | null
+  top_p: number | null
+  stop_sequences: string[]
+}
+
+/**
+ * Settings a conversation starts with when none are given
+ */
+export const DEFAULT_CONVERSATION_SETTINGS: ConversationSettings = {
+  system_prompt: '',
+  temperature: 0.7,
+  max_tokens: null,
+  top_p: null,
+  stop_sequences: [],
+}
+
+export const MAX_TEMPERATURE = 2
+
+/**
+ * Most providers reject more stop sequences than this
+ */
+export const MAX_STOP_SEQUENCES = 4
+
+/**
+ * Read the settings of a conversation, filling in defaults for those not set
+ */
+export const getConversationSettings = (
+  conversation?: Pick<
+    ConversationDetailResponse,
+    'system_prompt' | 'temperature' | 'max_tokens' | 'top_p' | 'stop_sequences'
+  >
+): ConversationSettings => ({
+  system_prompt: conversation?.system_prompt ?? DEFAULT_CONVERSATION_SETTINGS.system_prompt,
+  temperature: conversation?.temperature ?? DEFAULT_CONVERSATION_SETTINGS.temperature,
+  max_tokens: conversation?.max_tokens ?? DEFAULT_CONVERSATION_SETTINGS.max_tokens,
+  top_p: conversation?.top_p ?? DEFAULT_CONVERSATION_SETTINGS.top_p,
+  stop_sequences: conversation?.stop_sequences ?? DEFAULT_CONVERSATION_SETTINGS.stop_sequences,
+})
+
+/**
+ * Count the settings that differ from the defaults
+ */
+export const countCustomSettings = (settings: ConversationSettings): number =>
+  [
+    settings.system_prompt.trim() !== DEFAULT_CONVERSATION_SETTINGS.system_prompt,
+    settings.temperature !== DEFAULT_CONVERSATION_SETTINGS.temperature,
+    settings.max_tokens !== DEFAULT_CONVERSATION_SETTINGS.max_tokens,
+    settings.top_p !== DEFAULT_CONVERSATION_SETTINGS.top_p,
+    settings.stop_sequences.length > 0,
+  ].filter(Boolean).length
+
+/**
+ * Check the settings, returning a message for each invalid field
+ */
+export const validateConversationSettings = (
+  settings: ConversationSettings
+): Partial<Record<keyof ConversationSettings, string>> => {
+  const errors: Partial<Record<keyof ConversationSettings, string>> = {}
+
+  if (
+    !Number.isFinite(settings.temperature) ||
+    settings.temperature < 0 ||
+    settings.temperature > MAX_TEMPERATURE
+  ) {
+    errors.temperature = `Temperature must be between 0 and ${MAX_TEMPERATURE}`
+  }
+  if (
+    settings.max_tokens !== null &&
+    (!Number.isInteger(settings.max_tokens) || settings.max_tokens < 1)
+  ) {
+    errors.max_tokens = 'Max tokens must be a whole number above 0'
+  }
+  if (settings.top_p !== null && !(settings.top_p > 0 && settings.top_p <= 1)) {
+    errors.top_p = 'Top-p must be above 0 and at most 1'
+  }
+  if (settings.stop_sequences.length > MAX_STOP_SEQUENCES) {
+    errors.stop_sequences = `At most ${MAX_STOP_SEQUENCES} stop sequences are allowed`
+  }
+
+  return errors
+}
+
+/**
+ * Turn edited settings into the update sent to the server
+ */
+export const toUpdateRequest = (settings: ConversationSettings): UpdateConversationRequest => ({
+  system_prompt: settings.system_prompt.trim(),
+  temperature: settings.temperature,
+  max_tokens: settings.max_tokens,
+  top_p: settings.top_p,
+  stop_sequences: settings.stop_sequences,
+})
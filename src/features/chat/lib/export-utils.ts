@@ -0,0 +1,232 @@
+import type {
+  ConversationDetailResponse,
+  Message,
+  MessageTool,
+} from '@/features/chat/types/conversation'
+
+/**
+ * Formats a conversation can be exported to
+ */
+export type ExportFormat = 'md' | 'json' | 'html'
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; mimeType: string }> = {
+  md: { label: 'Markdown', mimeType: 'text/markdown' },
+  json: { label: 'JSON', mimeType: 'application/json' },
+  html: { label: 'HTML', mimeType: 'text/html' },
+}
+
+/**
+ * Version of the JSON export format, bumped when the shape changes
+ */
+export const CONVERSATION_EXPORT_VERSION = 1
+
+/**
+ * The conversation fields included in exports
+ */
+export type ExportedConversation = Pick<
+  ConversationDetailResponse,
+  'id' | 'title' | 'model_id' | 'system_prompt' | 'model'
+>
+
+const ROLE_LABELS: Record<Message['role'], string> = {
+  user: 'User',
+  assistant: 'Assistant',
+  system: 'System',
+}
+
+/**
+ * Turn a conversation title into a safe file name, e.g. "Trip ideas" -> "trip-ideas.md"
+ */
+export const getExportFilename = (title: string, extension: string): string => {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80)
+
+  return `${slug || 'conversation'}.${extension}`
+}
+
+/**
+ * Wrap code in a fence longer than any backtick run inside it, so it can't close early
+ */
+const toCodeFence = (code: string, language = ''): string => {
+  const longestRun = Math.max(0, ...(code.match(/`+/g) || []).map(run => run.length))
+  const fence = '`'.repeat(Math.max(3, longestRun + 1))
+  return `${fence}${language}\n${code}\n${fence}`
+}
+
+/**
+ * Describe a tool call on one line, e.g. "web_search (completed)"
+ */
+const describeTool = (tool: MessageTool): string => {
+  return `${tool.tool?.display_name || tool.tool?.name || 'Tool'} (${tool.execution_status})`
+}
+
+/**
+ * Render a conversation as Markdown, one section per message. Message content is
+ * kept as written, so code fences and math survive. Only the given messages are
+ * included, so callers pass the branch being shown.
+ */
+export const conversationToMarkdown = (
+  conversation: Pick<ExportedConversation, 'title' | 'system_prompt'>,
+  messages: Message[]
+): string => {
+  const sections = [`# ${conversation.title || 'Conversation'}`]
+
+  if (conversation.system_prompt) {
+    sections.push(`## System\n\n${conversation.system_prompt}`)
+  }
+
+  messages.forEach(message => {
+    const attachments = (message.parts || []).map(part => `- ${part.name}`)
+    const tools = (message.tools || []).map(tool => `- ${describeTool(tool)}`)
+    const artifacts = (message.artifacts || []).map(
+      artifact =>
+        `### ${artifact.title}\n\n${toCodeFence(artifact.content, artifact.language || (artifact.type === 'code' ? '' : artifact.type))}`
+    )
+
+    const body = [
+      attachments.length > 0 ? `Attachments:\n\n${attachments.join('\n')}` : '',
+      tools.length > 0 ? `Tools:\n\n${tools.join('\n')}` : '',
+      message.content,
+      ...artifacts,
+    ]
+      .filter(Boolean)
+      .join('\n\n')
+
+    sections.push(`## ${ROLE_LABELS[message.role]}\n\n${body}`)
+  })
+
+  return `${sections.join('\n\n')}\n`
+}
+
+/**
+ * Serialize a conversation with every message of its tree, including branches,
+ * token counts, artifacts and tool calls
+ */
+export const conversationToJson = (
+  conversation: ExportedConversation,
+  messages: Message[]
+): string => {
+  return JSON.stringify(
+    {
+      version: CONVERSATION_EXPORT_VERSION,
+      exported_at: new Date().toISOString(),
+      conversation: {
+        id: conversation.id,
+        title: conversation.title,
+        model_id: conversation.model_id,
+        system_prompt: conversation.system_prompt,
+        model: conversation.model,
+      },
+      messages,
+    },
+    null,
+    2
+  )
+}
+
+const escapeHtml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+const HTML_STYLES = `
+  :root { color-scheme: light dark; --border: #e5e7eb; --muted: #6b7280; --surface: #f9fafb; }
+  @media (prefers-color-scheme: dark) { :root { --border: #374151; --muted: #9ca3af; --surface: #111827; } }
+  body { font-family: system-ui, -apple-system, sans-serif; line-height: 1.6; max-width: 48rem; margin: 0 auto; padding: 2rem 1rem; }
+  header { border-bottom: 1px solid var(--border); margin-bottom: 2rem; }
+  header p { color: var(--muted); font-size: 0.875rem; }
+  .message { margin-bottom: 1.5rem; }
+  .message.user .content { background: var(--surface); border: 1px solid var(--border); border-radius: 1rem; padding: 0.75rem 1rem; }
+  .role { font-size: 0.75rem; font-weight: 600; text-transform: uppercase; letter-spacing: 0.05em; color: var(--muted); }
+  .meta { font-size: 0.75rem; color: var(--muted); }
+  pre { background: var(--surface); border: 1px solid var(--border); border-radius: 0.5rem; padding: 0.75rem; overflow-x: auto; }
+  code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 0.875em; }
+  table { border-collapse: collapse; } th, td { border: 1px solid var(--border); padding: 0.25rem 0.75rem; }
+  blockquote { border-left: 4px solid var(--border); margin-left: 0; padding-left: 1rem; color: var(--muted); }
+  details { border: 1px solid var(--border); border-radius: 0.5rem; padding: 0.5rem 0.75rem; margin-top: 0.75rem; }
+  summary { cursor: pointer; font-weight: 500; }
+  math[display="block"] { margin: 1rem 0; overflow-x: auto; }
+`
+
+/**
+ * Render a conversation as a self-contained HTML page. `renderMarkdown` turns each
+ * message's markdown into HTML, so formatting and math match the chat.
+ */
+export const conversationToHtml = (
+  conversation: Pick<ExportedConversation, 'title' | 'system_prompt' | 'model'>,
+  messages: Message[],
+  renderMarkdown: (content: string) => string
+): string => {
+  const title = escapeHtml(conversation.title || 'Conversation')
+  const model = conversation.model?.display_name
+
+  const articles = messages.map(message => {
+    const attachments = (message.parts || [])
+      .map(part => `<li>${escapeHtml(part.name)}</li>`)
+      .join('')
+    const tools = (message.tools || [])
+      .map(tool => `<li>${escapeHtml(describeTool(tool))}</li>`)
+      .join('')
+    const artifacts = (message.artifacts || [])
+      .map(
+        artifact =>
+          `<details><summary>${escapeHtml(artifact.title)}</summary><pre><code>${escapeHtml(artifact.content)}</code></pre></details>`
+      )
+      .join('')
+
+    return `<article class="message ${message.role}">
+  <div class="role">${ROLE_LABELS[message.role]}</div>
+  ${attachments ? `<ul class="meta">${attachments}</ul>` : ''}
+  ${tools ? `<ul class="meta">${tools}</ul>` : ''}
+  <div class="content">${renderMarkdown(message.content)}</div>
+  ${artifacts}
+</article>`
+  })
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<header>
+  <h1>${title}</h1>
+  <p>Exported ${escapeHtml(new Date().toLocaleString())}${model ? ` · ${escapeHtml(model)}` : ''}</p>
+</header>
+${
+  conversation.system_prompt
+    ? `<details><summary>System prompt</summary><p>${escapeHtml(conversation.system_prompt)}</p></details>`
+    : ''
+}
+<main>
+${articles.join('\n')}
+</main>
+</body>
+</html>
+`
+}
+
+/**
+ * Save text to a file through a temporary download link
+ */
+export const downloadFile = (content: BlobPart, filename: string, mimeType: string) => {
+  const url = URL.createObjectURL(
+    content instanceof Blob ? content : new Blob([content], { type: mimeType })
+  )
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
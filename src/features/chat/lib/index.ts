@@ -1,2 +1,18 @@
 export * from './chat-utils'
 export * from './toast-utils'
+export * from './usage-utils'
+export * from './artifact-utils'
+export * from './message-tree'
+export * from './outbox'
+export * from './attachment-utils'
+export * from './pdf-text'
+export * from './export-utils'
+export * from './slash-commands'
+export * from './prompt-templates'
+export * from './zip'
+export * from './conversation-import'
+export * from './search-utils'
+export * from './conversation-organization'
+export * from './share-utils'
+export * from './conversation-settings'
+export * from './compare-utils'
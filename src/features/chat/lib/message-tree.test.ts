@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest'
+import type { Message } from '@/features/chat/types/conversation'
+import {
+  getActivePath,
+  getModelSwitches,
+  getPathTo,
+  removeMessageBranch,
+  resolveParentKeys,
+  ROOT_PARENT_KEY,
+  type BranchSelections,
+} from './message-tree'
+
+let clock = 0
+
+const message = (id: string, role: Message['role'], fields: Partial<Message> = {}): Message => {
+  const created_at = new Date(Date.UTC(2025, 0, 1, 0, 0, clock++)).toISOString()
+  return {
+    id,
+    conversation_id: 'c1',
+    role,
+    content: id,
+    created_at,
+    updated_at: created_at,
+    ...fields,
+  }
+}
+
+const pathIds = (messages: Message[], selections?: BranchSelections) =>
+  getActivePath(messages, selections).map(node => node.message.id)
+
+// A conversation saved before branching: no message has a parent_id
+const legacy = [
+  message('u1', 'user'),
+  message('a1', 'assistant'),
+  message('u2', 'user'),
+  message('a2', 'assistant'),
+]
+
+describe('resolveParentKeys', () => {
+  it('chains messages without parent_id to the message before them', () => {
+    expect(Object.fromEntries(resolveParentKeys(legacy))).toEqual({
+      u1: ROOT_PARENT_KEY,
+      a1: 'u1',
+      u2: 'a1',
+      a2: 'u2',
+    })
+  })
+
+  it('leaves optimistic messages out of the chain', () => {
+    const messages = [...legacy, message('temp-1', 'user'), message('a3', 'assistant')]
+    const parentKeys = resolveParentKeys(messages)
+
+    expect(parentKeys.get('temp-1')).toBe('a2')
+    expect(parentKeys.get('a3')).toBe('a2')
+  })
+
+  it('uses the parent_id of an optimistic message', () => {
+    const messages = [
+      message('u1', 'user'),
+      message('a1', 'assistant', { parent_id: 'u1' }),
+      message('temp-1', 'user', { parent_id: 'a1' }),
+    ]
+
+    expect(resolveParentKeys(messages).get('temp-1')).toBe('a1')
+  })
+
+  it('makes an edit of the first message a root sibling', () => {
+    const messages = [
+      message('u1', 'user'),
+      message('a1', 'assistant', { parent_id: 'u1' }),
+      message('u1b', 'user'),
+      message('a1b', 'assistant', { parent_id: 'u1b' }),
+    ]
+
+    expect(resolveParentKeys(messages).get('u1b')).toBe(ROOT_PARENT_KEY)
+    expect(pathIds(messages)).toEqual(['u1b', 'a1b'])
+    expect(getActivePath(messages)[0].siblings.map(({ id }) => id)).toEqual(['u1', 'u1b'])
+  })
+
+  it('keeps every root of an imported tree', () => {
+    const messages = [
+      message('r1', 'user'),
+      message('r1a', 'assistant', { parent_id: 'r1' }),
+      message('r2', 'user'),
+      message('r2a', 'assistant', { parent_id: 'r2' }),
+    ]
+    const selections = {
+      [ROOT_PARENT_KEY]: { id: 'r1', selected_at: new Date(Date.UTC(2030, 0)).toISOString() },
+    }
+
+    expect(pathIds(messages)).toEqual(['r2', 'r2a'])
+    expect(pathIds(messages, selections)).toEqual(['r1', 'r1a'])
+  })
+})
+
+describe('getActivePath', () => {
+  const regenerated = [
+    message('u1', 'user'),
+    message('a1', 'assistant', { parent_id: 'u1' }),
+    message('a1b', 'assistant', { parent_id: 'u1' }),
+    message('u2', 'user', { parent_id: 'a1' }),
+  ]
+
+  it('follows the newest branch by default', () => {
+    expect(pathIds(regenerated)).toEqual(['u1', 'a1b'])
+  })
+
+  it('follows the selected branch', () => {
+    const selections = { u1: { id: 'a1', selected_at: new Date(Date.UTC(2030, 0)).toISOString() } }
+    expect(pathIds(regenerated, selections)).toEqual(['u1', 'a1', 'u2'])
+  })
+
+  it('switches to a branch created after the selection was made', () => {
+    const selections = { u1: { id: 'a1', selected_at: new Date(Date.UTC(2020, 0)).toISOString() } }
+    expect(pathIds(regenerated, selections)).toEqual(['u1', 'a1b'])
+  })
+
+  it('stops at a cycle in malformed data', () => {
+    const cyclic = [
+      message('x', 'user', { parent_id: 'y' }),
+      message('y', 'user', { parent_id: 'x' }),
+    ]
+    expect(pathIds(cyclic)).toEqual([])
+  })
+})
+
+describe('getPathTo', () => {
+  it('walks from the root to a message', () => {
+    expect(getPathTo(legacy, 'u2').map(({ id }) => id)).toEqual(['u1', 'a1', 'u2'])
+  })
+})
+
+describe('removeMessageBranch', () => {
+  it('removes a message and its replies', () => {
+    expect(removeMessageBranch(legacy, 'a1').map(({ id }) => id)).toEqual(['u1'])
+  })
+
+  it('removes sibling branches when asked', () => {
+    const messages = [
+      message('u1', 'user'),
+      message('a1', 'assistant', { parent_id: 'u1' }),
+      message('a1b', 'assistant', { parent_id: 'u1' }),
+    ]
+    expect(
+      removeMessageBranch(messages, 'a1', { includeSiblings: true }).map(({ id }) => id)
+    ).toEqual(['u1'])
+  })
+})
+
+describe('getModelSwitches', () => {
+  it('marks the prompt of the first answer from a new model', () => {
+    const messages = [
+      message('u1', 'user'),
+      message('a1', 'assistant', { model_id: 'm1' }),
+      message('u2', 'user'),
+      message('a2', 'assistant', { model_id: 'm1' }),
+      message('u3', 'user'),
+      message('a3', 'assistant', { model_id: 'm2' }),
+    ]
+    expect(Object.fromEntries(getModelSwitches(messages))).toEqual({ u3: 'm2' })
+  })
+})
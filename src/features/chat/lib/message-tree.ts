@@ -0,0 +1,194 @@
+import type { Message } from '@/features/chat/types/conversation'
+
+/**
+ * Parent key used for messages at the top of the conversation
+ */
+export const ROOT_PARENT_KEY = 'root'
+
+/**
+ * The branch chosen under a parent message, and when it was chosen
+ */
+export interface BranchSelection {
+  id: string
+  selected_at: string
+}
+
+/**
+ * Selected branches of a conversation, keyed by parent message id
+ */
+export type BranchSelections = Record<string, BranchSelection>
+
+/**
+ * A message on the active path with the sibling branches it can be switched with
+ */
+export interface BranchNode {
+  message: Message
+  parentKey: string
+  siblings: Message[]
+  siblingIndex: number
+}
+
+/**
+ * Whether a message is an optimistic placeholder that the server hasn't saved yet
+ */
+const isOptimistic = (message: Message): boolean => message.id.startsWith('temp-')
+
+/**
+ * Get the parent key of every message. Conversations saved before branching have no
+ * parent_id at all, so there each message replies to the one before it, leaving out
+ * optimistic messages. Once any message has a parent_id, a message without one is a
+ * root, e.g. an edit of the first message or one of several imported threads.
+ */
+export const resolveParentKeys = (messages: Message[]): Map<string, string> => {
+  const parentKeys = new Map<string, string>()
+
+  if (messages.some(message => message.parent_id)) {
+    for (const message of messages) {
+      parentKeys.set(message.id, message.parent_id || ROOT_PARENT_KEY)
+    }
+    return parentKeys
+  }
+
+  let previousId: string = ROOT_PARENT_KEY
+  for (const message of messages) {
+    parentKeys.set(message.id, previousId)
+    if (!isOptimistic(message)) {
+      previousId = message.id
+    }
+  }
+
+  return parentKeys
+}
+
+/**
+ * Group messages by parent key, keeping list order within each group
+ */
+const groupByParent = (messages: Message[]): Map<string, Message[]> => {
+  const parentKeys = resolveParentKeys(messages)
+  const children = new Map<string, Message[]>()
+
+  for (const message of messages) {
+    const parentKey = parentKeys.get(message.id) ?? ROOT_PARENT_KEY
+    children.set(parentKey, [...(children.get(parentKey) || []), message])
+  }
+
+  return children
+}
+
+/**
+ * Pick the branch to follow among siblings. The selected branch wins unless a newer
+ * branch was created after it was selected, so a fresh regeneration is always shown.
+ */
+const pickBranch = (siblings: Message[], selection?: BranchSelection): number => {
+  const latestIndex = siblings.length - 1
+  if (!selection) return latestIndex
+
+  const selectedIndex = siblings.findIndex(message => message.id === selection.id)
+  if (selectedIndex === -1) return latestIndex
+
+  const latest = siblings[latestIndex]
+  const hasNewerBranch =
+    latestIndex !== selectedIndex &&
+    new Date(latest.created_at).getTime() > new Date(selection.selected_at).getTime()
+
+  return hasNewerBranch ? latestIndex : selectedIndex
+}
+
+/**
+ * Walk the conversation tree from the root along the selected branches
+ */
+export const getActivePath = (
+  messages: Message[],
+  selections: BranchSelections = {}
+): BranchNode[] => {
+  const children = groupByParent(messages)
+  const path: BranchNode[] = []
+  const visited = new Set<string>()
+  let parentKey = ROOT_PARENT_KEY
+
+  while (true) {
+    const siblings = children.get(parentKey)
+    if (!siblings || siblings.length === 0) break
+
+    const siblingIndex = pickBranch(siblings, selections[parentKey])
+    const message = siblings[siblingIndex]
+
+    // Guard against cycles in malformed data
+    if (visited.has(message.id)) break
+    visited.add(message.id)
+
+    path.push({ message, parentKey, siblings, siblingIndex })
+    parentKey = message.id
+  }
+
+  return path
+}
+
+/**
+ * Get the messages from the root down to the given message, following parents
+ */
+export const getPathTo = (messages: Message[], messageId: string): Message[] => {
+  const parentKeys = resolveParentKeys(messages)
+  const byId = new Map(messages.map(message => [message.id, message]))
+  const path: Message[] = []
+  let message = byId.get(messageId)
+
+  // Guard against cycles in malformed data
+  while (message && !path.includes(message)) {
+    path.unshift(message)
+    message = byId.get(parentKeys.get(message.id) ?? ROOT_PARENT_KEY)
+  }
+
+  return path
+}
+
+/**
+ * Remove a message and every reply that branches off it. With `includeSiblings`
+ * the other branches under the same parent are removed as well.
+ */
+export const removeMessageBranch = (
+  messages: Message[],
+  messageId: string,
+  { includeSiblings = false }: { includeSiblings?: boolean } = {}
+): Message[] => {
+  const parentKeys = resolveParentKeys(messages)
+  if (!parentKeys.has(messageId)) return messages
+
+  const branchParent = parentKeys.get(messageId)
+  const removedIds = new Set<string>()
+
+  for (const message of messages) {
+    const parentKey = parentKeys.get(message.id) ?? ROOT_PARENT_KEY
+    if (
+      message.id === messageId ||
+      removedIds.has(parentKey) ||
+      (includeSiblings && parentKey === branchParent)
+    ) {
+      removedIds.add(message.id)
+    }
+  }
+
+  return messages.filter(message => !removedIds.has(message.id))
+}
+
+/**
+ * Find where the model changes along a path. Each switch is keyed by the message
+ * it is shown before, the prompt of the first answer from the new model, and
+ * holds the new model's id.
+ */
+export const getModelSwitches = (path: Message[]): Map<string, string> => {
+  const switches = new Map<string, string>()
+  let previousModelId: string | undefined
+
+  path.forEach((message, index) => {
+    if (message.role !== 'assistant' || !message.model_id) return
+
+    if (previousModelId && message.model_id !== previousModelId) {
+      const prompt = path[index - 1]
+      switches.set(prompt?.role === 'user' ? prompt.id : message.id, message.model_id)
+    }
+    previousModelId = message.model_id
+  })
+
+  return switches
+}
@@ -0,0 +1,118 @@
+import { v4 as uuidv4 } from 'uuid'
+import type { PostMessageRequest } from '@/features/chat/types/conversation'
+
+const OUTBOX_DB_NAME = 'alchemister_outbox'
+const OUTBOX_DB_VERSION = 1
+const OUTBOX_STORE = 'messages'
+
+/**
+ * A message written while offline, waiting to be sent
+ *
+ * @property id - Local id of the queued message
+ * @property conversation_id - The conversation the message belongs to
+ * @property request - The request to post once the connection is back
+ * @property replies_to_queued - Whether the message follows another queued message, so its
+ *   parent is only known once that one has been sent
+ * @property attempts - How many times sending has failed
+ * @property created_at - When the message was queued; the outbox is flushed in this order
+ */
+export interface OutboxMessage {
+  id: string
+  conversation_id: string
+  request: PostMessageRequest
+  replies_to_queued: boolean
+  attempts: number
+  created_at: string
+}
+
+/**
+ * Whether the browser reports that it is offline
+ */
+export const isOffline = (): boolean => typeof navigator !== 'undefined' && !navigator.onLine
+
+/**
+ * Open the outbox database, creating the store on first use
+ */
+const openOutbox = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(OUTBOX_DB_NAME, OUTBOX_DB_VERSION)
+
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(OUTBOX_STORE, { keyPath: 'id' })
+      store.createIndex('conversation_id', 'conversation_id')
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * Run a request against the outbox store and resolve with its result
+ */
+const runOutboxRequest = async <T>(
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openOutbox()
+
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(OUTBOX_STORE, mode)
+      const request = createRequest(transaction.objectStore(OUTBOX_STORE))
+
+      transaction.oncomplete = () => resolve(request.result)
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+/**
+ * Get the queued messages of a conversation, oldest first
+ */
+export const getOutboxMessages = async (conversationId: string): Promise<OutboxMessage[]> => {
+  if (typeof indexedDB === 'undefined') return []
+
+  const messages = await runOutboxRequest<OutboxMessage[]>('readonly', store =>
+    store.index('conversation_id').getAll(conversationId)
+  )
+
+  return messages.sort((a, b) => a.created_at.localeCompare(b.created_at))
+}
+
+/**
+ * Add a message to the outbox
+ */
+export const addOutboxMessage = async (
+  conversationId: string,
+  request: PostMessageRequest
+): Promise<OutboxMessage> => {
+  const queued = await getOutboxMessages(conversationId)
+  const message: OutboxMessage = {
+    id: uuidv4(),
+    conversation_id: conversationId,
+    request,
+    replies_to_queued: queued.length > 0,
+    attempts: 0,
+    created_at: new Date().toISOString(),
+  }
+
+  await runOutboxRequest('readwrite', store => store.add(message))
+  return message
+}
+
+/**
+ * Save changes to a queued message
+ */
+export const putOutboxMessage = async (message: OutboxMessage): Promise<void> => {
+  await runOutboxRequest('readwrite', store => store.put(message))
+}
+
+/**
+ * Remove a message from the outbox
+ */
+export const removeOutboxMessage = async (id: string): Promise<void> => {
+  await runOutboxRequest('readwrite', store => store.delete(id))
+}
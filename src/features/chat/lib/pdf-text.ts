@@ -0,0 +1,46 @@
+/**
+ * PDF text extraction in the browser with pdf.js. Scanned documents have no text
+ * layer, so they yield little or no text.
+ */
+
+/**
+ * Load pdf.js on first use, so its size is only paid when a PDF is attached
+ */
+const loadPdfJs = async () => {
+  const pdfjs = await import('pdfjs-dist')
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = new URL(
+      'pdfjs-dist/build/pdf.worker.min.mjs',
+      import.meta.url
+    ).toString()
+  }
+  return pdfjs
+}
+
+/**
+ * Extract the text of a PDF, one paragraph per page
+ */
+export const extractPdfText = async (buffer: ArrayBuffer): Promise<string> => {
+  const pdfjs = await loadPdfJs()
+  const document = await pdfjs.getDocument({ data: new Uint8Array(buffer) }).promise
+
+  try {
+    const pages: string[] = []
+
+    for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+      const page = await document.getPage(pageNumber)
+      const content = await page.getTextContent()
+      const text = content.items
+        .map(item => ('str' in item ? `${item.str}${item.hasEOL ? '\n' : ''}` : ''))
+        .join('')
+        .trim()
+      page.cleanup()
+
+      if (text) pages.push(text)
+    }
+
+    return pages.join('\n\n')
+  } finally {
+    await document.destroy()
+  }
+}
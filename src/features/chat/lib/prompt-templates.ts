@@ -0,0 +1,100 @@
+/**
+ * A reusable prompt with `{{variable}}` placeholders
+ */
+export interface PromptTemplate {
+  id: string
+  name: string
+  content: string
+  tags: string[]
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * The editable fields of a template, as saved from the editor or read from an import
+ */
+export type PromptTemplateInput = Pick<PromptTemplate, 'name' | 'content' | 'tags'>
+
+/**
+ * Version of the JSON export format, bumped when the shape changes
+ */
+export const TEMPLATE_EXPORT_VERSION = 1
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g
+
+/**
+ * Get the variable names used in a template, in order of first use
+ */
+export const getTemplateVariables = (content: string): string[] => {
+  const names = Array.from(content.matchAll(VARIABLE_PATTERN), match => match[1])
+  return Array.from(new Set(names))
+}
+
+/**
+ * Replace the variables of a template with the given values. Variables without
+ * a value are left in place so they are easy to spot.
+ */
+export const fillTemplate = (content: string, values: Record<string, string>): string => {
+  return content.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+    values[name]?.trim() ? values[name] : placeholder
+  )
+}
+
+/**
+ * Clean up comma separated tags: trimmed, lowercase and without duplicates
+ */
+export const normalizeTags = (tags: string[]): string[] => {
+  return Array.from(new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean)))
+}
+
+/**
+ * Serialize templates for sharing. Ids and dates are left out so imports never clash.
+ */
+export const serializeTemplates = (templates: PromptTemplate[]): string => {
+  return JSON.stringify(
+    {
+      version: TEMPLATE_EXPORT_VERSION,
+      templates: templates.map(({ name, content, tags }) => ({ name, content, tags })),
+    },
+    null,
+    2
+  )
+}
+
+/**
+ * Read templates from an export, accepting either the export object or a bare array.
+ * Throws when the file is not a template export.
+ */
+export const parseTemplateImport = (json: string): PromptTemplateInput[] => {
+  let data: unknown
+  try {
+    data = JSON.parse(json)
+  } catch {
+    throw new Error('The file is not valid JSON')
+  }
+
+  const items = Array.isArray(data) ? data : (data as { templates?: unknown } | null)?.templates
+
+  if (!Array.isArray(items)) {
+    throw new Error('The file does not contain any templates')
+  }
+
+  return items.map((item, index) => {
+    const template = item as Partial<Record<keyof PromptTemplateInput, unknown>>
+
+    if (typeof template.name !== 'string' || !template.name.trim()) {
+      throw new Error(`Template ${index + 1} is missing a name`)
+    }
+    if (typeof template.content !== 'string' || !template.content.trim()) {
+      throw new Error(`Template "${template.name}" is missing its prompt`)
+    }
+
+    return {
+      name: template.name.trim(),
+      content: template.content,
+      tags: Array.isArray(template.tags)
+        ? normalizeTags(template.tags.filter((tag): tag is string => typeof tag === 'string'))
+        : [],
+    }
+  })
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+import { createSnippet, getSearchTerms, matchesSearchTerms, splitHighlights } from './search-utils'
+
+describe('getSearchTerms', () => {
+  it('splits on whitespace, lowercases and drops repeats', () => {
+    expect(getSearchTerms('  Sales report  sales ')).toEqual(['sales', 'report'])
+  })
+})
+
+describe('matchesSearchTerms', () => {
+  it('needs every term, in any case', () => {
+    expect(matchesSearchTerms('The quarterly Sales Report', ['sales', 'report'])).toBe(true)
+    expect(matchesSearchTerms('The quarterly sales figures', ['sales', 'report'])).toBe(false)
+  })
+
+  it('matches nothing without terms', () => {
+    expect(matchesSearchTerms('anything', [])).toBe(false)
+  })
+})
+
+describe('createSnippet', () => {
+  it('cuts around the first term on one line', () => {
+    const text = `${'a '.repeat(50)}the sales\nreport ${'b '.repeat(50)}`
+    const snippet = createSnippet(text, ['sales'], 10)
+
+    expect(snippet).toBe('...a a a the sales report b b b b...')
+  })
+
+  it('keeps short text whole', () => {
+    expect(createSnippet('Short  text', ['text'])).toBe('Short text')
+  })
+})
+
+describe('splitHighlights', () => {
+  it('flags the terms, preferring the longest', () => {
+    expect(splitHighlights('Reports and a report', ['report', 'reports'])).toEqual([
+      { text: 'Reports', match: true },
+      { text: ' and a ', match: false },
+      { text: 'report', match: true },
+    ])
+  })
+
+  it('treats terms as plain text', () => {
+    expect(splitHighlights('cost (usd)', ['(usd)'])).toEqual([
+      { text: 'cost ', match: false },
+      { text: '(usd)', match: true },
+    ])
+  })
+})
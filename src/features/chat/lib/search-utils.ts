@@ -0,0 +1,66 @@
+/**
+ * Shortest query worth sending, shorter ones match almost everything
+ */
+export const MIN_SEARCH_LENGTH = 2
+
+/**
+ * A piece of text, flagged when it is one of the searched terms
+ */
+export interface HighlightSegment {
+  text: string
+  match: boolean
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * Split a query into lowercase terms, e.g. "Sales  report" -> ["sales", "report"]
+ */
+export const getSearchTerms = (query: string): string[] => {
+  return Array.from(new Set(query.toLowerCase().split(/\s+/).filter(Boolean)))
+}
+
+/**
+ * Whether text contains every term
+ */
+export const matchesSearchTerms = (text: string, terms: string[]): boolean => {
+  const normalized = text.toLowerCase()
+  return terms.length > 0 && terms.every(term => normalized.includes(term))
+}
+
+/**
+ * Cut the text around the first term found, on one line, e.g.
+ * "...the quarterly sales report shows..."
+ */
+export const createSnippet = (text: string, terms: string[], radius = 60): string => {
+  const flattened = text.replace(/\s+/g, ' ').trim()
+  const normalized = flattened.toLowerCase()
+  const positions = terms.map(term => normalized.indexOf(term)).filter(index => index !== -1)
+  const first = positions.length > 0 ? Math.min(...positions) : 0
+
+  const start = Math.max(0, first - radius)
+  const end = Math.min(flattened.length, first + radius * 2)
+
+  return `${start > 0 ? '...' : ''}${flattened.slice(start, end).trim()}${end < flattened.length ? '...' : ''}`
+}
+
+/**
+ * Split text into plain and matching segments, to highlight the terms
+ */
+export const splitHighlights = (text: string, terms: string[]): HighlightSegment[] => {
+  if (terms.length === 0) return [{ text, match: false }]
+
+  // Longer terms first, so "reports" wins over "report"
+  const pattern = new RegExp(
+    `(${[...terms]
+      .sort((a, b) => b.length - a.length)
+      .map(escapeRegExp)
+      .join('|')})`,
+    'gi'
+  )
+
+  return text
+    .split(pattern)
+    .filter(Boolean)
+    .map(segment => ({ text: segment, match: terms.includes(segment.toLowerCase()) }))
+}
@@ -0,0 +1,20 @@
+/**
+ * Get the public address of a share link
+ */
+export const getShareUrl = (token: string): string => {
+  const origin = typeof window === 'undefined' ? '' : window.location.origin
+  return `${origin}/share/${token}`
+}
+
+/**
+ * Copy a share link to the clipboard, reporting whether it worked
+ */
+export const copyShareUrl = async (token: string): Promise<boolean> => {
+  try {
+    await navigator.clipboard.writeText(getShareUrl(token))
+    return true
+  } catch (error) {
+    console.error('Failed to copy share link:', error)
+    return false
+  }
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { AvailableModel } from '@/features/chat/hooks/use-selected-model'
+import {
+  getSlashCommandOptions,
+  matchSlashCommand,
+  parseSlashCommand,
+  validateSlashCommand,
+  type SlashCommandContext,
+} from './slash-commands'
+
+const model = (name: string, display_name: string): AvailableModel => ({
+  id: `id-${name}`,
+  name,
+  display_name,
+  provider_name: 'openai',
+  provider_display_name: 'OpenAI',
+  provider_id: 'p1',
+  is_active: true,
+  has_api_key: true,
+})
+
+const createContext = (fields: Partial<SlashCommandContext> = {}): SlashCommandContext => ({
+  hasConversation: true,
+  models: [model('gpt-4o', 'GPT-4o'), model('gpt-4o-mini', 'GPT-4o mini')],
+  selectModel: vi.fn(),
+  updateConversation: vi.fn(),
+  createConversation: vi.fn(),
+  exportConversation: vi.fn(),
+  clearInput: vi.fn(),
+  ...fields,
+})
+
+/**
+ * Match an input and validate its argument the way the composer does
+ */
+const validate = (input: string, context = createContext()) => {
+  const match = matchSlashCommand(input, context)
+  if (!match) throw new Error(`No command matches ${input}`)
+  return validateSlashCommand(match.command, match.argument, context)
+}
+
+describe('parseSlashCommand', () => {
+  it('splits the name from the argument', () => {
+    expect(parseSlashCommand('/Model  gpt-4o ')).toEqual({
+      name: 'model',
+      argument: 'gpt-4o',
+      hasArgument: true,
+    })
+  })
+
+  it('tells a bare name from one followed by a space', () => {
+    expect(parseSlashCommand('/new')?.hasArgument).toBe(false)
+    expect(parseSlashCommand('/new ')?.hasArgument).toBe(true)
+  })
+
+  it('ignores input that is not a single-line command', () => {
+    expect(parseSlashCommand('hello /new')).toBeNull()
+    expect(parseSlashCommand('/system be brief\nand kind')).toBeNull()
+  })
+})
+
+describe('matchSlashCommand', () => {
+  it('leaves out commands that need a conversation on the new chat page', () => {
+    const context = createContext({ hasConversation: false })
+    expect(matchSlashCommand('/system hi', context)).toBeNull()
+    expect(matchSlashCommand('/new', context)?.command.name).toBe('new')
+  })
+})
+
+describe('validateSlashCommand', () => {
+  it('requires an argument for commands with a usage', () => {
+    expect(validate('/system')).toBe('/system needs <prompt>')
+  })
+
+  it('rejects an argument for commands without a usage', () => {
+    expect(validate('/new')).toBeNull()
+    expect(validate('/new chat about dogs')).toBe("/new doesn't take an argument")
+  })
+
+  it('checks the temperature range', () => {
+    expect(validate('/temperature 0.5')).toBeNull()
+    expect(validate('/temperature 3')).toMatch(/between 0 and 2/)
+    expect(validate('/temperature warm')).toMatch(/between 0 and 2/)
+  })
+
+  it('accepts an exact model and rejects an ambiguous one', () => {
+    expect(validate('/model GPT-4o mini')).toBeNull()
+    expect(validate('/model gpt-4o')).toBeNull()
+    expect(validate('/model gpt')).toMatch(/matches several models/)
+    expect(validate('/model claude')).toMatch(/No configured model/)
+  })
+})
+
+describe('getSlashCommandOptions', () => {
+  it('lists matching commands while the name is typed', () => {
+    const options = getSlashCommandOptions('/te', createContext())
+    expect(options).toEqual([expect.objectContaining({ label: '/temperature', runs: false })])
+  })
+
+  it('suggests arguments once the name is complete', () => {
+    const options = getSlashCommandOptions('/temperature 0.', createContext())
+    expect(options.map(option => option.completion)).toEqual([
+      '/temperature 0.2',
+      '/temperature 0.7',
+    ])
+  })
+})
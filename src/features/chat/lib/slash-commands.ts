@@ -0,0 +1,285 @@
+import type { AvailableModel } from '@/features/chat/hooks/use-selected-model'
+import type { CreateConversationRequest } from '@/features/chat/types/conversation'
+import { EXPORT_FORMATS, type ExportFormat } from './export-utils'
+import { MAX_TEMPERATURE } from './conversation-settings'
+
+/**
+ * What slash commands can act on, provided by the composer
+ *
+ * @property hasConversation - False on the new chat page, before a conversation exists
+ * @property models - The models the user can switch to
+ */
+export interface SlashCommandContext {
+  hasConversation: boolean
+  models: AvailableModel[]
+  selectModel: (model: AvailableModel) => void
+  updateConversation: (data: Partial<CreateConversationRequest>, successMessage: string) => void
+  createConversation: () => void
+  exportConversation: (format: ExportFormat) => void
+  clearInput: () => void
+}
+
+/**
+ * A suggested argument for a command
+ */
+export interface SlashCommandSuggestion {
+  value: string
+  label: string
+  description?: string
+}
+
+/**
+ * A command typed in the composer as `/name argument`
+ *
+ * @property usage - Placeholder for the argument, e.g. `<name>`; commands without one take no argument
+ * @property requiresConversation - Whether the command needs an existing conversation
+ * @property suggest - Autocomplete for the argument typed so far
+ * @property validate - Returns why the argument can't be used, or null when it is valid
+ * @property run - Carries out the command with a valid argument
+ */
+export interface SlashCommand {
+  name: string
+  description: string
+  usage?: string
+  requiresConversation?: boolean
+  suggest?: (argument: string, context: SlashCommandContext) => SlashCommandSuggestion[]
+  validate?: (argument: string, context: SlashCommandContext) => string | null
+  run: (argument: string, context: SlashCommandContext) => void
+}
+
+/**
+ * An entry of the command popup. Picking it replaces the input with `completion`,
+ * and runs it straight away when `runs` is set.
+ */
+export interface SlashCommandOption {
+  id: string
+  label: string
+  hint?: string
+  description?: string
+  completion: string
+  runs: boolean
+}
+
+/**
+ * The command name and argument of a slash command input
+ *
+ * @property hasArgument - Whether anything follows the name, even just a space
+ */
+export interface ParsedSlashCommand {
+  name: string
+  argument: string
+  hasArgument: boolean
+}
+
+const registry = new Map<string, SlashCommand>()
+
+/**
+ * Add a command to the composer, replacing any command with the same name
+ */
+export const registerSlashCommand = (command: SlashCommand) => {
+  registry.set(command.name.toLowerCase(), command)
+}
+
+/**
+ * Get the registered commands that can be used in the given context
+ */
+export const getSlashCommands = (context: SlashCommandContext): SlashCommand[] => {
+  return Array.from(registry.values()).filter(
+    command => !command.requiresConversation || context.hasConversation
+  )
+}
+
+/**
+ * Split a single-line input starting with `/` into a command name and argument
+ */
+export const parseSlashCommand = (input: string): ParsedSlashCommand | null => {
+  const match = input.match(/^\/([\w-]*)(?:\s+([\s\S]*))?$/)
+  if (!match || input.includes('\n')) return null
+
+  return {
+    name: match[1].toLowerCase(),
+    argument: (match[2] ?? '').trim(),
+    hasArgument: match[2] !== undefined,
+  }
+}
+
+/**
+ * Find the registered command an input refers to, if any
+ */
+export const matchSlashCommand = (
+  input: string,
+  context: SlashCommandContext
+): { command: SlashCommand; argument: string } | null => {
+  const parsed = parseSlashCommand(input.trim())
+  if (!parsed) return null
+
+  const command = getSlashCommands(context).find(item => item.name === parsed.name)
+  return command ? { command, argument: parsed.argument } : null
+}
+
+/**
+ * Check a command's argument, including that required arguments are given
+ */
+export const validateSlashCommand = (
+  command: SlashCommand,
+  argument: string,
+  context: SlashCommandContext
+): string | null => {
+  if (command.usage && !argument) {
+    return `/${command.name} needs ${command.usage}`
+  }
+  if (!command.usage && argument) {
+    return `/${command.name} doesn't take an argument`
+  }
+  return command.validate?.(argument, context) ?? null
+}
+
+/**
+ * Options for the command popup: matching commands while the name is typed,
+ * then suggestions for the argument
+ */
+export const getSlashCommandOptions = (
+  input: string,
+  context: SlashCommandContext
+): SlashCommandOption[] => {
+  const parsed = parseSlashCommand(input)
+  if (!parsed) return []
+
+  const commands = getSlashCommands(context)
+
+  if (!parsed.hasArgument) {
+    return commands
+      .filter(command => command.name.startsWith(parsed.name))
+      .map(command => ({
+        id: `command-${command.name}`,
+        label: `/${command.name}`,
+        hint: command.usage,
+        description: command.description,
+        completion: command.usage ? `/${command.name} ` : `/${command.name}`,
+        runs: !command.usage,
+      }))
+  }
+
+  const command = commands.find(item => item.name === parsed.name)
+  if (!command?.suggest) return []
+
+  return command.suggest(parsed.argument, context).map(suggestion => ({
+    id: `argument-${command.name}-${suggestion.value}`,
+    label: suggestion.label,
+    description: suggestion.description,
+    completion: `/${command.name} ${suggestion.value}`,
+    runs: true,
+  }))
+}
+
+/**
+ * Find a model by id, name or display name, falling back to a unique partial match
+ */
+const findModel = (query: string, models: AvailableModel[]): AvailableModel | null => {
+  const normalized = query.toLowerCase()
+  const exact = models.find(model =>
+    [model.id, model.name, model.display_name].some(value => value.toLowerCase() === normalized)
+  )
+  if (exact) return exact
+
+  const partial = models.filter(model =>
+    `${model.name} ${model.display_name}`.toLowerCase().includes(normalized)
+  )
+  return partial.length === 1 ? partial[0] : null
+}
+
+const TEMPERATURE_PRESETS: SlashCommandSuggestion[] = [
+  { value: '0', label: '0', description: 'Deterministic' },
+  { value: '0.2', label: '0.2', description: 'Focused' },
+  { value: '0.7', label: '0.7', description: 'Balanced' },
+  { value: '1', label: '1', description: 'Creative' },
+]
+
+const EXPORT_FORMAT_OPTIONS: SlashCommandSuggestion[] = Object.entries(EXPORT_FORMATS).map(
+  ([value, format]) => ({ value, label: value, description: format.label })
+)
+
+registerSlashCommand({
+  name: 'model',
+  description: 'Switch to another model',
+  usage: '<name>',
+  suggest: (argument, context) => {
+    const query = argument.toLowerCase()
+    return context.models
+      .filter(model => `${model.name} ${model.display_name}`.toLowerCase().includes(query))
+      .map(model => ({
+        value: model.name,
+        label: model.display_name,
+        description: model.provider_display_name,
+      }))
+  },
+  validate: (argument, context) => {
+    if (findModel(argument, context.models)) return null
+
+    const matches = context.models.filter(model =>
+      `${model.name} ${model.display_name}`.toLowerCase().includes(argument.toLowerCase())
+    )
+    return matches.length > 1
+      ? `"${argument}" matches several models, be more specific`
+      : `No configured model matches "${argument}"`
+  },
+  run: (argument, context) => {
+    const model = findModel(argument, context.models)
+    if (model) context.selectModel(model)
+  },
+})
+
+registerSlashCommand({
+  name: 'system',
+  description: 'Set the system prompt of this conversation',
+  usage: '<prompt>',
+  requiresConversation: true,
+  run: (argument, context) => {
+    context.updateConversation({ system_prompt: argument }, 'System prompt updated')
+  },
+})
+
+registerSlashCommand({
+  name: 'temperature',
+  description: 'Set the sampling temperature of this conversation',
+  usage: '<value>',
+  requiresConversation: true,
+  suggest: argument => TEMPERATURE_PRESETS.filter(preset => preset.value.startsWith(argument)),
+  validate: argument => {
+    const value = Number(argument)
+    return Number.isFinite(value) && value >= 0 && value <= MAX_TEMPERATURE
+      ? null
+      : `Temperature must be a number between 0 and ${MAX_TEMPERATURE}`
+  },
+  run: (argument, context) => {
+    const temperature = Number(argument)
+    context.updateConversation({ temperature }, `Temperature set to ${temperature}`)
+  },
+})
+
+registerSlashCommand({
+  name: 'new',
+  description: 'Start a new conversation',
+  run: (_argument, context) => context.createConversation(),
+})
+
+registerSlashCommand({
+  name: 'export',
+  description: 'Download this conversation',
+  usage: '<format>',
+  requiresConversation: true,
+  suggest: argument => EXPORT_FORMAT_OPTIONS.filter(format => format.value.startsWith(argument)),
+  validate: argument =>
+    EXPORT_FORMAT_OPTIONS.some(format => format.value === argument.toLowerCase())
+      ? null
+      : `Unknown export format "${argument}". Try ${EXPORT_FORMAT_OPTIONS.map(format => format.value).join(', ')}`,
+  run: (argument, context) => {
+    context.exportConversation(argument.toLowerCase() as ExportFormat)
+  },
+})
+
+registerSlashCommand({
+  name: 'clear',
+  description: 'Clear the message and its attachments',
+  run: (_argument, context) => context.clearInput(),
+})
@@ -21,6 +21,14 @@ export const showStreamError = (error: string, onRetry?: () => void) => {
   })
 }
 
+// One toast per stream however many frames are skipped
+export const showStreamFrameWarning = (error: string) => {
+  return toast.warning('Part of the response could not be read', {
+    id: 'stream-frame-error',
+    description: error,
+  })
+}
+
 export const showConnectionError = (onRetry?: () => void) => {
   return toast.error('Connection failed', {
     description: 'Failed to connect to the server. Please check your internet connection.',
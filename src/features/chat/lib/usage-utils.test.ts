@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import { getMessageUsage, getModelPricing, sumUsage } from './usage-utils'
+
+const models = [
+  { id: 'cheap', input_token_cost: 0.000001, output_token_cost: 0.000002 },
+  { id: 'unpriced' },
+]
+const fallback = { input_token_cost: 0.00001, output_token_cost: 0.00002 }
+
+describe('getModelPricing', () => {
+  it('uses the pricing of the model that wrote the message', () => {
+    expect(getModelPricing('cheap', models, fallback)).toEqual({
+      input_token_cost: 0.000001,
+      output_token_cost: 0.000002,
+    })
+  })
+
+  it("falls back when the model isn't listed or has no prices", () => {
+    expect(getModelPricing('gone', models, fallback)).toBe(fallback)
+    expect(getModelPricing('unpriced', models, fallback)).toBe(fallback)
+    expect(getModelPricing(undefined, models)).toBeNull()
+  })
+})
+
+describe('getMessageUsage', () => {
+  it('estimates the costs the backend left out', () => {
+    const usage = getMessageUsage(
+      { input_tokens: 1000, output_tokens: 500, input_cost: 0.5 },
+      fallback
+    )
+
+    expect(usage).toMatchObject({ inputCost: 0.5, outputCost: 0.01, isEstimated: true })
+  })
+
+  it('has no usage without token counts', () => {
+    expect(getMessageUsage({}, fallback)).toBeNull()
+  })
+})
+
+describe('sumUsage', () => {
+  it('adds up messages priced by different models', () => {
+    const total = sumUsage([
+      getMessageUsage({ input_tokens: 1000, output_tokens: 0 }, getModelPricing('cheap', models)),
+      getMessageUsage({ input_tokens: 1000, output_tokens: 0 }, fallback),
+    ])
+
+    expect(total.inputTokens).toBe(2000)
+    expect(total.inputCost).toBeCloseTo(0.011)
+  })
+})
@@ -0,0 +1,149 @@
+import type { MessageUsage, Model } from '@/features/chat/types/conversation'
+
+/**
+ * Pricing needed to estimate the cost of a message. Costs are per token.
+ */
+export type ModelPricing = Pick<Model, 'input_token_cost' | 'output_token_cost'>
+
+/**
+ * Token counts and costs for a message or a whole conversation
+ */
+export interface UsageSummary {
+  inputTokens: number
+  outputTokens: number
+  totalTokens: number
+  inputCost: number | null
+  outputCost: number | null
+  totalCost: number | null
+  // True when at least one cost was computed from model pricing rather than reported
+  isEstimated: boolean
+}
+
+const EMPTY_USAGE: UsageSummary = {
+  inputTokens: 0,
+  outputTokens: 0,
+  totalTokens: 0,
+  inputCost: null,
+  outputCost: null,
+  totalCost: null,
+  isEstimated: false,
+}
+
+/**
+ * Pricing of the model with the given id, for messages written by another model than
+ * the conversation's current one. Falls back to `fallback` when the model isn't listed
+ * or has no prices.
+ */
+export const getModelPricing = (
+  modelId: string | undefined,
+  models: (Partial<ModelPricing> & { id: string })[],
+  fallback: ModelPricing | null = null
+): ModelPricing | null => {
+  const model = modelId ? models.find(({ id }) => id === modelId) : undefined
+  if (model?.input_token_cost === undefined || model.output_token_cost === undefined) {
+    return fallback
+  }
+  return { input_token_cost: model.input_token_cost, output_token_cost: model.output_token_cost }
+}
+
+/**
+ * Get the usage of a single message, or null if it has no token counts.
+ * Costs the backend left out are computed from the model pricing when it is known.
+ */
+export const getMessageUsage = (
+  usage: MessageUsage,
+  pricing?: ModelPricing | null
+): UsageSummary | null => {
+  if (usage.input_tokens === undefined && usage.output_tokens === undefined) {
+    return null
+  }
+
+  const inputTokens = usage.input_tokens ?? 0
+  const outputTokens = usage.output_tokens ?? 0
+
+  const inputCost = usage.input_cost ?? (pricing ? inputTokens * pricing.input_token_cost : null)
+  const outputCost =
+    usage.output_cost ?? (pricing ? outputTokens * pricing.output_token_cost : null)
+  const isEstimated =
+    (usage.input_cost === undefined && inputCost !== null) ||
+    (usage.output_cost === undefined && outputCost !== null)
+
+  return {
+    inputTokens,
+    outputTokens,
+    totalTokens: inputTokens + outputTokens,
+    inputCost,
+    outputCost,
+    totalCost:
+      inputCost !== null || outputCost !== null ? (inputCost ?? 0) + (outputCost ?? 0) : null,
+    isEstimated,
+  }
+}
+
+/**
+ * Add up the usage of several messages
+ */
+export const sumUsage = (summaries: (UsageSummary | null)[]): UsageSummary => {
+  return summaries.reduce<UsageSummary>((total, usage) => {
+    if (!usage) return total
+
+    const addCost = (a: number | null, b: number | null) =>
+      a === null && b === null ? null : (a ?? 0) + (b ?? 0)
+
+    return {
+      inputTokens: total.inputTokens + usage.inputTokens,
+      outputTokens: total.outputTokens + usage.outputTokens,
+      totalTokens: total.totalTokens + usage.totalTokens,
+      inputCost: addCost(total.inputCost, usage.inputCost),
+      outputCost: addCost(total.outputCost, usage.outputCost),
+      totalCost: addCost(total.totalCost, usage.totalCost),
+      isEstimated: total.isEstimated || usage.isEstimated,
+    }
+  }, EMPTY_USAGE)
+}
+
+/**
+ * Format a token count compactly, e.g. 950, 12.3k, 1.2M
+ */
+export const formatTokenCount = (tokens: number): string => {
+  if (tokens < 1000) return String(tokens)
+  if (tokens < 1_000_000) return `${(tokens / 1000).toFixed(tokens < 10_000 ? 1 : 0)}k`
+  return `${(tokens / 1_000_000).toFixed(1)}M`
+}
+
+/**
+ * Format a cost in US dollars, keeping precision for fractions of a cent
+ */
+export const formatCost = (cost: number): string => {
+  if (cost === 0) return '$0.00'
+  if (cost < 0.01) return `$${cost.toFixed(4)}`
+  return `$${cost.toFixed(2)}`
+}
+
+/**
+ * Format per-token input and output prices as dollars per million tokens,
+ * e.g. $2.50 / $10.00 per 1M
+ */
+export const formatModelPricing = (pricing: ModelPricing): string =>
+  `${formatCost(pricing.input_token_cost * 1_000_000)} / ${formatCost(
+    pricing.output_token_cost * 1_000_000
+  )} per 1M`
+
+/**
+ * Summarize the context window and pricing of a model, e.g. 128k context · $2.50 / $10.00 per 1M.
+ * Parts that aren't known are left out.
+ */
+export const formatModelDetails = (
+  model: Partial<ModelPricing> & { context_window?: number }
+): string =>
+  [
+    model.context_window ? `${formatTokenCount(model.context_window)} context` : null,
+    model.input_token_cost !== undefined && model.output_token_cost !== undefined
+      ? formatModelPricing({
+          input_token_cost: model.input_token_cost,
+          output_token_cost: model.output_token_cost,
+        })
+      : null,
+  ]
+    .filter(Boolean)
+    .join(' · ')
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest'
+import { createZip, readZip } from './zip'
+
+describe('zip', () => {
+  it('reads back the files it writes', async () => {
+    const archive = createZip([
+      { name: 'notes.md', content: '# Héllo\n\nWorld' },
+      { name: 'data/raw.bin', content: new Uint8Array([0, 1, 2, 255]) },
+    ])
+    const files = await readZip(await archive.arrayBuffer())
+
+    expect([...files.keys()]).toEqual(['notes.md', 'data/raw.bin'])
+    expect(new TextDecoder().decode(files.get('notes.md'))).toBe('# Héllo\n\nWorld')
+    expect([...files.get('data/raw.bin')!]).toEqual([0, 1, 2, 255])
+  })
+
+  it('rejects a file that is not a zip archive', async () => {
+    const buffer = new TextEncoder().encode('not a zip').buffer as ArrayBuffer
+    await expect(readZip(buffer)).rejects.toThrow('The file is not a valid zip archive')
+  })
+})
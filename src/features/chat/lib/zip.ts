@@ -0,0 +1,37 @@
+import { strToU8, unzip, zipSync } from 'fflate'
+
+/**
+ * A file to put in the archive
+ */
+export interface ZipEntry {
+  name: string
+  content: string | Uint8Array
+}
+
+/**
+ * Bundle files into a deflated zip archive
+ */
+export const createZip = (entries: ZipEntry[]): Blob => {
+  const files = Object.fromEntries(
+    entries.map(({ name, content }) => [
+      name,
+      typeof content === 'string' ? strToU8(content) : content,
+    ])
+  )
+  return new Blob([zipSync(files)], { type: 'application/zip' })
+}
+
+/**
+ * Read the files of a zip archive, keyed by path. Folders are left out.
+ */
+export const readZip = (buffer: ArrayBuffer): Promise<Map<string, Uint8Array>> => {
+  return new Promise((resolve, reject) => {
+    unzip(new Uint8Array(buffer), { filter: file => !file.name.endsWith('/') }, (error, files) => {
+      if (error) {
+        reject(new Error('The file is not a valid zip archive'))
+        return
+      }
+      resolve(new Map(Object.entries(files)))
+    })
+  })
+}
@@ -1,3 +1,4 @@
 export * from './useConversation'
 export * from './useMessage'
 export * from './useProviders'
+export * from './useOutbox'
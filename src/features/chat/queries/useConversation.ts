@@ -5,6 +5,9 @@ import {
   useMutation,
   useQueryClient,
   useInfiniteQuery,
+  type InfiniteData,
+  type QueryClient,
+  type QueryKey,
   type UseQueryOptions,
 } from '@tanstack/react-query'
 import {
@@ -16,10 +19,14 @@ import {
   showQueryError,
   type ApiError,
 } from '@/shared/lib/react-query/errorHandling'
+import { MIN_SEARCH_LENGTH } from '@/features/chat/lib/search-utils'
 import type {
+  ConversationShare,
   ConversationSummaryResponse,
   ConversationDetailResponse,
   CreateConversationRequest,
+  CreateShareRequest,
+  UpdateConversationRequest,
 } from '@/features/chat/types/conversation'
 
 /**
@@ -34,6 +41,9 @@ export const conversationKeys = {
   details: () => [...conversationKeys.all, 'detail'] as const,
   detail: (id: string) => [...conversationKeys.details(), id] as const,
   archived: () => [...conversationKeys.all, 'archived'] as const,
+  search: (query: string) => [...conversationKeys.all, 'search', query] as const,
+  shares: () => [...conversationKeys.all, 'shares'] as const,
+  shared: (token: string) => [...conversationKeys.all, 'shared', token] as const,
 }
 
 /**
@@ -71,6 +81,47 @@ export const useInfiniteConversations = (options: ConversationFilterOptions = {}
   })
 }
 
+/**
+ * Hook for searching every conversation; waits until the query is long enough
+ */
+export const useConversationSearch = (query: string) => {
+  const trimmed = query.trim()
+
+  return useQuery({
+    queryKey: conversationKeys.search(trimmed),
+    queryFn: () => conversationService.searchConversations(trimmed),
+    enabled: trimmed.length >= MIN_SEARCH_LENGTH,
+    staleTime: 30 * 1000,
+  })
+}
+
+/**
+ * Archived conversations fetched per request
+ */
+const ARCHIVED_PAGE_SIZE = 100
+
+/**
+ * Hook for fetching every archived conversation, most recent first
+ */
+export const useArchivedConversations = () => {
+  return useQuery({
+    queryKey: conversationKeys.archived(),
+    queryFn: async () => {
+      const conversations: ConversationSummaryResponse[] = []
+      for (let offset = 0; ; offset += ARCHIVED_PAGE_SIZE) {
+        const page = await conversationService.getConversations({
+          isActive: false,
+          limit: ARCHIVED_PAGE_SIZE,
+          offset,
+        })
+        conversations.push(...page)
+        if (page.length < ARCHIVED_PAGE_SIZE) break
+      }
+      return conversations
+    },
+  })
+}
+
 /**
  * Hook for fetching a single conversation by ID
  */
@@ -117,7 +168,35 @@ export const useCreateConversation = () => {
 }
 
 /**
- * Hook for updating a conversation
+ * Cached conversation lists hold either an array or the pages of an infinite query
+ */
+type CachedConversationList =
+  ConversationSummaryResponse[] | InfiniteData<ConversationSummaryResponse[]> | undefined
+
+/**
+ * Apply changes to a conversation in every cached list, e.g. the sidebar's infinite list
+ */
+const patchConversationInLists = (
+  queryClient: QueryClient,
+  id: string,
+  patch: Partial<ConversationSummaryResponse>
+) => {
+  const patchList = (list: ConversationSummaryResponse[]) =>
+    list.map(conv => (conv.id === id ? { ...conv, ...patch } : conv))
+
+  queryClient.setQueriesData<CachedConversationList>(
+    { queryKey: conversationKeys.lists() },
+    old => {
+      if (!old) return old
+      if (Array.isArray(old)) return patchList(old)
+      return { ...old, pages: old.pages.map(patchList) }
+    }
+  )
+}
+
+/**
+ * Hook for updating a conversation. Lists are updated right away so moves, pins
+ * and tags show without waiting, and rolled back if the update fails.
  */
 export const useUpdateConversation = () => {
   const queryClient = useQueryClient()
@@ -125,23 +204,60 @@ export const useUpdateConversation = () => {
   return useMutation<
     ConversationSummaryResponse,
     ApiError,
-    { id: string; data: Partial<CreateConversationRequest> }
+    { id: string; data: UpdateConversationRequest },
+    {
+      previousLists: [QueryKey, CachedConversationList][]
+      previousDetail?: ConversationDetailResponse
+    }
   >({
     mutationFn: ({ id, data }) => conversationService.updateConversation(id, data),
+    onMutate: async ({ id, data }) => {
+      await queryClient.cancelQueries({ queryKey: conversationKeys.lists() })
+      const previousLists = queryClient.getQueriesData<CachedConversationList>({
+        queryKey: conversationKeys.lists(),
+      })
+
+      const { title, is_pinned, folder_id, tags, model_id } = data
+      patchConversationInLists(
+        queryClient,
+        id,
+        Object.fromEntries(
+          Object.entries({ title, is_pinned, folder_id, tags, model_id }).filter(
+            ([, value]) => value !== undefined
+          )
+        )
+      )
+
+      // Switch the model of the open conversation right away
+      if (model_id === undefined) return { previousLists }
+
+      await queryClient.cancelQueries({ queryKey: conversationKeys.detail(id) })
+      const previousDetail = queryClient.getQueryData<ConversationDetailResponse>(
+        conversationKeys.detail(id)
+      )
+      if (previousDetail) {
+        queryClient.setQueryData(conversationKeys.detail(id), { ...previousDetail, model_id })
+      }
+
+      return { previousLists, previousDetail }
+    },
     onSuccess: (updatedConversation, { id }) => {
       // Invalidate and refetch the specific conversation
       queryClient.invalidateQueries({ queryKey: conversationKeys.detail(id) })
 
-      // Update the conversation in the list
-      queryClient.setQueryData(
-        conversationKeys.list({ limit: 20, offset: 0 }),
-        (old: ConversationSummaryResponse[] | undefined) => {
-          if (!old) return [updatedConversation]
-          return old.map(conv => (conv.id === id ? { ...conv, ...updatedConversation } : conv))
-        }
-      )
+      // Update the conversation in every list
+      patchConversationInLists(queryClient, id, updatedConversation)
     },
-    onError: error => {
+    onError: (error, _variables, context) => {
+      context?.previousLists.forEach(([queryKey, data]) => {
+        queryClient.setQueryData(queryKey, data)
+      })
+      if (context?.previousDetail) {
+        queryClient.setQueryData(
+          conversationKeys.detail(context.previousDetail.id),
+          context.previousDetail
+        )
+      }
       showQueryError(error)
     },
   })
@@ -172,6 +288,7 @@ export const useDeleteConversation = () => {
     onSuccess: (_, id) => {
       // Invalidate and refetch conversations list
       queryClient.invalidateQueries({ queryKey: conversationKeys.lists() })
+      queryClient.invalidateQueries({ queryKey: conversationKeys.archived() })
 
       // Remove the conversation from the cache
       queryClient.setQueryData(
@@ -202,6 +319,7 @@ export const useArchiveConversation = () => {
     onSuccess: (archivedConversation, id) => {
       // Invalidate and refetch conversations list
       queryClient.invalidateQueries({ queryKey: conversationKeys.lists() })
+      queryClient.invalidateQueries({ queryKey: conversationKeys.archived() })
 
       // Remove the conversation from the active list
       queryClient.setQueryData(
@@ -238,6 +356,7 @@ export const useRestoreConversation = () => {
     onSuccess: (restoredConversation, id) => {
       // Invalidate and refetch conversations list
       queryClient.invalidateQueries({ queryKey: conversationKeys.lists() })
+      queryClient.invalidateQueries({ queryKey: conversationKeys.archived() })
 
       // Remove from archived list if it exists in cache
       queryClient.setQueryData(
@@ -262,3 +381,66 @@ export const useRestoreConversation = () => {
     },
   })
 }
+
+/**
+ * Hook for fetching the active share links of every conversation
+ */
+export const useConversationShares = () => {
+  return useQuery({
+    queryKey: conversationKeys.shares(),
+    queryFn: () => conversationService.getShares(),
+  })
+}
+
+/**
+ * Hook for creating a public share link to a conversation
+ */
+export const useCreateShare = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation<
+    ConversationShare,
+    ApiError,
+    { conversationId: string; data: CreateShareRequest }
+  >({
+    mutationFn: ({ conversationId, data }) => conversationService.createShare(conversationId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: conversationKeys.shares() })
+    },
+    onError: error => {
+      showQueryError(error)
+    },
+  })
+}
+
+/**
+ * Hook for revoking a share link
+ */
+export const useRevokeShare = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation<void, ApiError, string>({
+    mutationFn: (token: string) => conversationService.revokeShare(token),
+    onSuccess: (_, token) => {
+      queryClient.setQueryData(conversationKeys.shares(), (old: ConversationShare[] | undefined) =>
+        old?.filter(share => share.token !== token)
+      )
+      queryClient.removeQueries({ queryKey: conversationKeys.shared(token) })
+    },
+    onError: error => {
+      showQueryError(error)
+    },
+  })
+}
+
+/**
+ * Hook for fetching a conversation through its share link
+ */
+export const useSharedConversation = (token: string) => {
+  return useQuery({
+    queryKey: conversationKeys.shared(token),
+    queryFn: () => conversationService.getSharedConversation(token),
+    enabled: !!token,
+    retry: false,
+  })
+}
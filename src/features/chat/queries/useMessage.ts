@@ -8,6 +8,10 @@ import {
   type UseQueryOptions,
 } from '@tanstack/react-query'
 import { messageService } from '@/api/services/message-service'
+import { conversationKeys } from '@/features/chat/queries/useConversation'
+import { removeMessageBranch } from '@/features/chat/lib/message-tree'
+import { isOffline } from '@/features/chat/lib/outbox'
+import { useQueueMessage } from '@/features/chat/queries/useOutbox'
 import { handleQueryError, showQueryError } from '@/shared/lib/react-query/errorHandling'
 import { v4 as uuidv4 } from 'uuid'
 import { useRef } from 'react'
@@ -68,6 +72,7 @@ export const useSendMessage = (
 ) => {
   const queryClient = useQueryClient()
   const abortControllerRef = useRef<AbortController | null>(null)
+  const queueMessage = useQueueMessage(conversationId)
 
   return useMutation<Message, Error, PostMessageRequest>({
     mutationFn: async (data: PostMessageRequest) => {
@@ -79,11 +84,37 @@ export const useSendMessage = (
         // Create a new abort controller for the stream
         abortControllerRef.current = new AbortController()
 
+        // Track the last event id so a retry can resume instead of resending the message
+        let lastEventId = ''
+
         // Create a wrapper for the stream event handler that adds retry capability
         const handleStreamEvent = (event: StreamEvent) => {
+          if (event.id) {
+            lastEventId = event.id
+          }
+
+          // The connection dropped before the message reached the server, so keep it in the outbox
+          if (event.type === 'error' && !lastEventId && isOffline()) {
+            queryClient.setQueryData(
+              messageKeys.list(conversationId),
+              (old: Message[] | undefined) =>
+                old?.filter(
+                  message => !(message.id.startsWith('temp-') && message.content === data.content)
+                )
+            )
+            queueMessage.mutate(data)
+            onStreamEvent({ type: 'message_cancelled' })
+            return
+          }
+
           // Pass the event to the original handler
           onStreamEvent(event)
 
+          // Load the persisted message (with its tools) once the stream is complete
+          if (event.type === 'message_end') {
+            queryClient.invalidateQueries({ queryKey: messageKeys.list(conversationId) })
+          }
+
           // Handle error events with retry capability
           if (event.type === 'error') {
             const apiError = {
@@ -93,19 +124,37 @@ export const useSendMessage = (
               code: event.code,
             }
 
+            // A stream cut off without an event id can't be resumed, and sending again
+            // would post the message a second time
+            const canRetry = event.code !== 'STREAM_NOT_RESUMABLE'
+
             // Show error with retry option
-            showQueryError(apiError, () => {
-              // Create a new abort controller for the retry
-              abortControllerRef.current = new AbortController()
-
-              // Retry the streaming request
-              messageService.sendMessageStream(
-                conversationId,
-                data,
-                handleStreamEvent,
-                abortControllerRef.current.signal
-              )
-            })
+            showQueryError(
+              apiError,
+              !canRetry
+                ? undefined
+                : () => {
+                    // Create a new abort controller for the retry
+                    abortControllerRef.current = new AbortController()
+
+                    // Resume the stream if it had started, otherwise retry the request
+                    if (lastEventId) {
+                      messageService.resumeMessageStream(
+                        conversationId,
+                        lastEventId,
+                        handleStreamEvent,
+                        abortControllerRef.current.signal
+                      )
+                    } else {
+                      messageService.sendMessageStream(
+                        conversationId,
+                        data,
+                        handleStreamEvent,
+                        abortControllerRef.current.signal
+                      )
+                    }
+                  }
+            )
           }
         }
 
@@ -142,8 +191,10 @@ export const useSendMessage = (
       const optimisticUserMessage: Message = {
         id: `temp-${uuidv4()}`,
         conversation_id: conversationId,
+        parent_id: data.parent_id,
         role: 'user',
         content: data.content,
+        parts: data.parts,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       }
@@ -203,17 +254,35 @@ export const useDeleteMessage = (conversationId: string) => {
 
   return useMutation<void, Error, string>({
     mutationFn: (messageId: string) => messageService.deleteMessage(conversationId, messageId),
-    onSuccess: (_, messageId) => {
-      // Update the messages list by removing the deleted message
-      queryClient.setQueryData(messageKeys.list(conversationId), (old: Message[] | undefined) => {
-        if (!old) return []
-        return old.filter(message => message.id !== messageId)
-      })
+    onMutate: async messageId => {
+      // Cancel any outgoing refetches
+      await queryClient.cancelQueries({ queryKey: messageKeys.list(conversationId) })
+
+      // Snapshot the previous value
+      const previousMessages = queryClient.getQueryData<Message[]>(messageKeys.list(conversationId))
+
+      // Optimistically remove the message along with the replies that depend on it
+      queryClient.setQueryData(messageKeys.list(conversationId), (old: Message[] | undefined) =>
+        old ? removeMessageBranch(old, messageId) : []
+      )
+
+      return { previousMessages }
     },
-    onError: (error: Error) => {
+    onError: (error: Error, messageId, context: unknown) => {
+      // If the mutation fails, use the context returned from onMutate to roll back
+      const typedContext = context as { previousMessages?: Message[] }
+      if (typedContext?.previousMessages) {
+        queryClient.setQueryData(messageKeys.list(conversationId), typedContext.previousMessages)
+      }
+
       const apiError = handleQueryError(error)
       showQueryError(apiError)
     },
+    onSettled: () => {
+      // Sync with the server, which owns what else was removed with the message
+      queryClient.invalidateQueries({ queryKey: messageKeys.list(conversationId) })
+      queryClient.invalidateQueries({ queryKey: conversationKeys.detail(conversationId) })
+    },
   })
 }
 
@@ -234,11 +303,23 @@ export const useRegenerateMessage = (
         // Create a new abort controller for the stream
         abortControllerRef.current = new AbortController()
 
+        // Track the last event id so a retry can resume instead of regenerating again
+        let lastEventId = ''
+
         // Create a wrapper for the stream event handler that adds retry capability
         const handleStreamEvent = (event: StreamEvent) => {
+          if (event.id) {
+            lastEventId = event.id
+          }
+
           // Pass the event to the original handler
           onStreamEvent(event)
 
+          // Load the persisted message (with its tools) once the stream is complete
+          if (event.type === 'message_end') {
+            queryClient.invalidateQueries({ queryKey: messageKeys.list(conversationId) })
+          }
+
           // Handle error events with retry capability
           if (event.type === 'error') {
             const apiError = {
@@ -248,25 +329,43 @@ export const useRegenerateMessage = (
               code: event.code,
             }
 
+            // A stream cut off without an event id can't be resumed, and regenerating
+            // again would leave a second answer next to the unfinished one
+            const canRetry = event.code !== 'STREAM_NOT_RESUMABLE'
+
             // Show error with retry option
-            showQueryError(apiError, () => {
-              // Create a new abort controller for the retry
-              abortControllerRef.current = new AbortController()
-
-              // Retry the streaming request
-              messageService.regenerateMessageStream(
-                conversationId,
-                messageId,
-                data,
-                handleStreamEvent,
-                abortControllerRef.current.signal
-              )
-            })
+            showQueryError(
+              apiError,
+              !canRetry
+                ? undefined
+                : () => {
+                    // Create a new abort controller for the retry
+                    abortControllerRef.current = new AbortController()
+
+                    // Resume the stream if it had started, otherwise retry the request
+                    if (lastEventId) {
+                      messageService.resumeMessageStream(
+                        conversationId,
+                        lastEventId,
+                        handleStreamEvent,
+                        abortControllerRef.current.signal
+                      )
+                    } else {
+                      messageService.regenerateMessageStream(
+                        conversationId,
+                        messageId,
+                        data,
+                        handleStreamEvent,
+                        abortControllerRef.current.signal
+                      )
+                    }
+                  }
+            )
           }
         }
 
-        // Start streaming with the enhanced event handler
-        messageService.regenerateMessageStream(
+        // Stream the new response; the mutation settles once the stream has ended
+        await messageService.regenerateMessageStream(
           conversationId,
           messageId,
           data,
@@ -274,12 +373,12 @@ export const useRegenerateMessage = (
           abortControllerRef.current.signal
         )
 
-        // Return a placeholder message that will be updated by the stream
+        // The regenerated message is loaded from the server when the stream ends
         return {
           id: messageId,
           conversation_id: conversationId,
           role: 'assistant',
-          content: 'Regenerating...',
+          content: '',
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
         }
@@ -295,29 +394,12 @@ export const useRegenerateMessage = (
       // Snapshot the previous value
       const previousMessages = queryClient.getQueryData<Message[]>(messageKeys.list(conversationId))
 
-      // Find the message to regenerate
-      const messages = queryClient.getQueryData<Message[]>(messageKeys.list(conversationId)) || []
-      const messageIndex = messages.findIndex(msg => msg.id === messageId)
-
-      if (messageIndex !== -1) {
-        // Create a copy of the messages array
-        const updatedMessages = [...messages]
-
-        // Update the message with a loading state
-        updatedMessages[messageIndex] = {
-          ...updatedMessages[messageIndex],
-          content: 'Regenerating...',
-          is_edited: true,
-        }
-
-        // Remove all subsequent messages (if any)
-        if (messageIndex < updatedMessages.length - 1) {
-          updatedMessages.splice(messageIndex + 1)
-        }
-
-        // Update the query data
-        queryClient.setQueryData(messageKeys.list(conversationId), updatedMessages)
-      }
+      // Hide the message being regenerated and its sibling branches while the new
+      // response streams in their place. The server keeps them, so they come back as
+      // branches once the messages are refetched.
+      queryClient.setQueryData(messageKeys.list(conversationId), (old: Message[] | undefined) =>
+        old ? removeMessageBranch(old, messageId, { includeSiblings: true }) : []
+      )
 
       return { previousMessages }
     },
@@ -358,6 +440,7 @@ export const useRegenerateMessage = (
     onSettled: () => {
       // Always refetch after error or success
       queryClient.invalidateQueries({ queryKey: messageKeys.list(conversationId) })
+      queryClient.invalidateQueries({ queryKey: conversationKeys.detail(conversationId) })
     },
     // Add a mutation key for finding this mutation later
     mutationKey: ['regenerateMessage', conversationId],
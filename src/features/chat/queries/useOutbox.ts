@@ -0,0 +1,116 @@
+'use client'
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import {
+  addOutboxMessage,
+  getOutboxMessages,
+  putOutboxMessage,
+  removeOutboxMessage,
+  type OutboxMessage,
+} from '@/features/chat/lib/outbox'
+import type { PostMessageRequest } from '@/features/chat/types/conversation'
+
+/**
+ * Query keys for the offline outbox
+ */
+export const outboxKeys = {
+  all: ['outbox'] as const,
+  list: (conversationId: string) => [...outboxKeys.all, conversationId] as const,
+}
+
+/**
+ * Hook for fetching the messages queued for a conversation
+ */
+export const useOutboxMessages = (conversationId: string) => {
+  return useQuery({
+    queryKey: outboxKeys.list(conversationId),
+    queryFn: () => getOutboxMessages(conversationId),
+    enabled: !!conversationId,
+    // The outbox lives in the browser, so it only changes through these hooks
+    staleTime: Infinity,
+    networkMode: 'always',
+  })
+}
+
+/**
+ * Hook for queueing a message to be sent once the connection is back
+ */
+export const useQueueMessage = (conversationId: string) => {
+  const queryClient = useQueryClient()
+
+  return useMutation<OutboxMessage, Error, PostMessageRequest>({
+    mutationFn: data => addOutboxMessage(conversationId, data),
+    onSuccess: () => {
+      toast.info("You're offline", {
+        description: 'Your message will be sent when the connection is back.',
+      })
+    },
+    onError: error => {
+      console.error('Failed to queue message:', error)
+      toast.error('Failed to save your message for later')
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: outboxKeys.list(conversationId) })
+    },
+    networkMode: 'always',
+  })
+}
+
+/**
+ * Hook for changing the text of a queued message before it is sent
+ */
+export const useEditQueuedMessage = (conversationId: string) => {
+  const queryClient = useQueryClient()
+
+  return useMutation<void, Error, { message: OutboxMessage; content: string }>({
+    mutationFn: ({ message, content }) =>
+      putOutboxMessage({ ...message, request: { ...message.request, content } }),
+    onError: error => {
+      console.error('Failed to edit queued message:', error)
+      toast.error('Failed to edit queued message')
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: outboxKeys.list(conversationId) })
+    },
+    networkMode: 'always',
+  })
+}
+
+/**
+ * Hook for removing a queued message so it is never sent
+ */
+export const useCancelQueuedMessage = (conversationId: string) => {
+  const queryClient = useQueryClient()
+
+  return useMutation<void, Error, string>({
+    mutationFn: id => removeOutboxMessage(id),
+    onMutate: async id => {
+      await queryClient.cancelQueries({ queryKey: outboxKeys.list(conversationId) })
+
+      const previousMessages = queryClient.getQueryData<OutboxMessage[]>(
+        outboxKeys.list(conversationId)
+      )
+
+      queryClient.setQueryData(
+        outboxKeys.list(conversationId),
+        (old: OutboxMessage[] | undefined) => old?.filter(message => message.id !== id) ?? []
+      )
+
+      return { previousMessages }
+    },
+    onError: (error, id, context: unknown) => {
+      const typedContext = context as { previousMessages?: OutboxMessage[] }
+      if (typedContext?.previousMessages) {
+        queryClient.setQueryData(outboxKeys.list(conversationId), typedContext.previousMessages)
+      }
+
+      console.error('Failed to cancel queued message:', error)
+      toast.error('Failed to cancel queued message')
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: outboxKeys.list(conversationId) })
+    },
+    networkMode: 'always',
+  })
+}
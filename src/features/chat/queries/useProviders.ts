@@ -1,9 +1,13 @@
 'use client'
 
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { useQueries, useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { useEffect, useRef } from 'react'
-import { useSelectedModel, type AvailableModel } from '@/features/chat/hooks/use-selected-model'
-import type { ProviderResponse, UserProviderSettingResponse } from '@/features/settings/types/types'
+import { useDefaultModel, type AvailableModel } from '@/features/chat/hooks/use-selected-model'
+import type {
+  Model,
+  ProviderResponse,
+  UserProviderSettingResponse,
+} from '@/features/settings/types/types'
 
 /**
  * Query keys for provider-related queries
@@ -14,38 +18,47 @@ export const providerKeys = {
   list: () => [...providerKeys.lists()] as const,
   settings: () => [...providerKeys.all, 'settings'] as const,
   models: () => [...providerKeys.all, 'models'] as const,
+  providerModels: (providerId: string) => [...providerKeys.models(), providerId] as const,
 }
 
 /**
- * Helper function to process providers and user settings into available models for selection.
- * Since backend ProviderResponse no longer includes models, we map providers directly.
+ * Helper function to process providers, their models and user settings into the
+ * models available for selection. Only active models of active providers are offered.
  */
 const processModels = (
   providers: ProviderResponse[],
-  userSettings: UserProviderSettingResponse[]
+  userSettings: UserProviderSettingResponse[],
+  providerModels: Record<string, Model[]>
 ): AvailableModel[] => {
   const availableModels: AvailableModel[] = []
 
   providers.forEach(provider => {
+    if (!provider.is_active) return
+
     const userSetting = userSettings.find(s => s.provider_id === provider.id)
     // Determine if the provider has an active API key configured by the user
     const hasApiKey = userSetting?.api_key_set && userSetting?.is_active
 
-    // Map provider directly to AvailableModel, using provider details as model details
-    // This assumes the UI will select a provider, not a specific model within a provider.
-    if (provider.is_active) {
-      // Only consider active providers
+    const models = providerModels[provider.id] ?? []
+    models.forEach(model => {
+      if (!model.is_active) return
+
       availableModels.push({
-        id: provider.id, // Use provider ID as the model ID
-        name: provider.name, // Use provider name
-        display_name: provider.display_name, // Use provider display name
+        id: model.id,
+        name: model.name,
+        display_name: model.display_name,
         provider_name: provider.name,
         provider_display_name: provider.display_name,
         provider_id: provider.id,
-        is_active: provider.is_active,
+        is_active: model.is_active,
         has_api_key: hasApiKey || false, // Indicate if the provider is configured by the user
+        supports_vision: model.supports_vision ?? false,
+        context_window: model.context_window,
+        max_output_tokens: model.max_output_tokens,
+        input_token_cost: model.input_token_cost,
+        output_token_cost: model.output_token_cost,
       })
-    }
+    })
   })
 
   // Sort models: configured models first, then by provider display name
@@ -56,7 +69,6 @@ const processModels = (
     if (a.provider_display_name !== b.provider_display_name) {
       return a.provider_display_name.localeCompare(b.provider_display_name)
     }
-    // If provider names are the same, sort by model display name (which is the provider display name here)
     return a.display_name.localeCompare(b.display_name)
   })
 
@@ -83,6 +95,26 @@ const fetchProviders = async (): Promise<ProviderResponse[]> => {
   return data.data || []
 }
 
+/**
+ * Fetch the models of a provider from the API
+ */
+const fetchProviderModels = async (providerId: string): Promise<Model[]> => {
+  const token = localStorage.getItem('access_token')
+  const response = await fetch(`/api/settings/providers/${providerId}/models`, {
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: token ? `Bearer ${token}` : '',
+    },
+  })
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch provider models: ${response.statusText}`)
+  }
+
+  const data = await response.json()
+  return data.data || []
+}
+
 /**
  * Fetch user provider settings from the API
  */
@@ -134,11 +166,11 @@ export const useProviders = (options: { autoFetch?: boolean; fetchOnMount?: bool
   const { autoFetch = true, fetchOnMount = true } = options
   const queryClient = useQueryClient()
 
-  // Use the provider context
-  const { selectedModel, setSelectedModel } = useSelectedModel()
+  // The model new conversations start with
+  const { defaultModel, setDefaultModel } = useDefaultModel()
 
-  // Use a ref to track if we've already selected a model to prevent infinite loops
-  const hasSelectedModelRef = useRef(false)
+  // Use a ref to track if we've already picked a default to prevent infinite loops
+  const hasPickedDefaultRef = useRef(false)
 
   // Fetch providers
   const providersQuery = useQuery({
@@ -156,29 +188,52 @@ export const useProviders = (options: { autoFetch?: boolean; fetchOnMount?: bool
     staleTime: 5 * 60 * 1000, // 5 minutes
   })
 
+  // Fetch the model catalog of each active provider
+  const activeProviders = (providersQuery.data ?? []).filter(provider => provider.is_active)
+  const providerModelsQueries = useQueries({
+    queries: activeProviders.map(provider => ({
+      queryKey: providerKeys.providerModels(provider.id),
+      queryFn: () => fetchProviderModels(provider.id),
+      enabled: autoFetch && fetchOnMount,
+      staleTime: 5 * 60 * 1000, // 5 minutes
+    })),
+  })
+  const providerModels: Record<string, Model[]> = Object.fromEntries(
+    activeProviders.map((provider, index) => [
+      provider.id,
+      providerModelsQueries[index]?.data ?? [],
+    ])
+  )
+  const modelsLoading = providerModelsQueries.some(query => query.isLoading)
+
   // Process models when providers and user settings are available - React 19 compiler optimizes this
   const models = (() => {
     if (providersQuery.data && userSettingsQuery.data) {
-      return processModels(providersQuery.data, userSettingsQuery.data)
+      return processModels(providersQuery.data, userSettingsQuery.data, providerModels)
     }
     return []
   })()
 
-  // Auto-select first available model if none selected and models are available
+  // A stored default may be a model that is no longer offered, such as one saved
+  // when providers stood in for models
+  const isDefaultOffered = !!defaultModel && models.some(m => m.id === defaultModel.id)
+
+  // Default to the first available model if none is set and models are available
   useEffect(() => {
-    if (!selectedModel && models.length > 0 && !hasSelectedModelRef.current) {
+    if (modelsLoading) return
+    if (!isDefaultOffered && models.length > 0 && !hasPickedDefaultRef.current) {
       const configuredModel = models.find(m => m.has_api_key)
       if (configuredModel || models[0]) {
-        hasSelectedModelRef.current = true
+        hasPickedDefaultRef.current = true
         const modelToSelect = configuredModel || models[0]
 
         // Use setTimeout to break the potential render cycle
         setTimeout(() => {
-          setSelectedModel(modelToSelect)
+          setDefaultModel(modelToSelect)
         }, 0)
       }
     }
-  }, [models, selectedModel, setSelectedModel])
+  }, [models, modelsLoading, isDefaultOffered, setDefaultModel])
 
   // Update user settings mutation
   const updateUserSettingsMutation = useMutation({
@@ -200,17 +255,19 @@ export const useProviders = (options: { autoFetch?: boolean; fetchOnMount?: bool
     // Data
     providers: providersQuery.data || [],
     userSettings: userSettingsQuery.data || [],
+    providerModels,
     models,
     configuredModels,
     unconfiguredModels,
-    selectedModel,
+    // Prefer the fresh catalog entry over the copy kept in localStorage
+    defaultModel: models.find(m => m.id === defaultModel?.id) ?? defaultModel,
 
     // Loading states
-    loading: providersQuery.isLoading || userSettingsQuery.isLoading,
+    loading: providersQuery.isLoading || userSettingsQuery.isLoading || modelsLoading,
     error: providersQuery.error || userSettingsQuery.error,
 
     // Actions
-    setSelectedModel,
+    setDefaultModel,
     updateUserSettings: updateUserSettingsMutation.mutate,
 
     // Refetch actions
@@ -219,6 +276,7 @@ export const useProviders = (options: { autoFetch?: boolean; fetchOnMount?: bool
     refetchAll: () => {
       queryClient.invalidateQueries({ queryKey: providerKeys.list() })
       queryClient.invalidateQueries({ queryKey: providerKeys.settings() })
+      queryClient.invalidateQueries({ queryKey: providerKeys.models() })
     },
   }
 }
@@ -38,11 +38,16 @@ export interface Conversation {
   system_prompt?: string
   temperature: number
   max_tokens?: number
+  top_p?: number
+  stop_sequences?: string[]
   is_active: boolean
   created_at: string
   updated_at: string
   model?: Model
   message_count?: number
+  is_pinned?: boolean
+  folder_id?: string | null
+  tags?: string[]
 }
 
 export interface Message {
@@ -51,27 +56,48 @@ export interface Message {
   parent_id?: string
   role: 'user' | 'assistant' | 'system'
   content: string
+  reasoning?: string // Thinking emitted by reasoning models, kept apart from the answer
+  reasoning_duration_ms?: number
   input_tokens?: number
   output_tokens?: number
   input_cost?: number
   output_cost?: number
+  model_id?: string // The model that wrote an assistant message
   created_at: string
   updated_at: string
   artifacts?: Artifact[]
   tools?: MessageTool[]
+  parts?: MessagePart[] // Attachments sent with the message
 
   // New fields for message editing
   is_edited?: boolean // Flag to indicate if the message has been edited
   original_content?: string // Original content before editing
 }
 
+/**
+ * Token counts and costs reported for a message
+ */
+export interface MessageUsage {
+  input_tokens?: number
+  output_tokens?: number
+  input_cost?: number
+  output_cost?: number
+}
+
+/**
+ * Artifact types the artifact panel knows how to render; anything else is shown as text
+ */
+export type ArtifactType = 'code' | 'markdown' | 'html'
+
 export interface Artifact {
   id: string
   message_id: string
-  type: string
+  type: ArtifactType | string
   title: string
+  language?: string // Programming language of code artifacts
   content: string
   metadata?: Record<string, unknown>
+  is_streaming?: boolean // True while the content is still being streamed
   created_at: string
   updated_at: string
 }
@@ -87,14 +113,17 @@ export interface Tool {
   updated_at: string
 }
 
+export type ToolExecutionStatus = 'pending' | 'running' | 'completed' | 'failed'
+
 export interface MessageTool {
   id: string
   message_id: string
   tool_id: string
   input: Record<string, unknown>
   output?: Record<string, unknown>
-  execution_status: 'pending' | 'running' | 'completed' | 'failed'
+  execution_status: ToolExecutionStatus
   error_message?: string
+  output_text?: string // Output streamed while the tool is running
   created_at: string
   updated_at: string
   tool?: Tool
@@ -105,12 +134,60 @@ export interface CreateConversationRequest {
   title: string
   model_name?: string // Use the "provider/model" format from backend
   system_prompt?: string
+  temperature?: number
 }
 
+/**
+ * Conversation fields that can be changed after creation, including how it is
+ * organized in the sidebar
+ */
+export interface UpdateConversationRequest extends Partial<CreateConversationRequest> {
+  model_id?: string // Model used for the next messages
+  max_tokens?: number | null // null goes back to the model's limit
+  top_p?: number | null // null goes back to the model's default
+  stop_sequences?: string[]
+  is_pinned?: boolean
+  folder_id?: string | null // null takes the conversation out of its folder
+  tags?: string[]
+}
+
+/**
+ * An attachment sent along with a message. Images are uploaded and referenced by id;
+ * documents are read in the browser and sent as text context blocks.
+ */
+export type MessagePart =
+  | {
+      type: 'image'
+      attachment_id: string
+      url?: string
+      name: string
+      mime_type: string
+    }
+  | {
+      type: 'document'
+      name: string
+      mime_type: string
+      text: string
+    }
+
 export interface PostMessageRequest {
   content: string
   parent_id?: string
   model_id?: string
+  parts?: MessagePart[]
+}
+
+/**
+ * A message copied from another app. Ids come from the source file and are only
+ * used to link messages to their parents; the backend assigns new ones.
+ */
+export interface ImportMessageRequest {
+  id: string
+  parent_id?: string
+  role: 'user' | 'assistant'
+  content: string
+  parts?: MessagePart[]
+  created_at?: string
 }
 
 export interface ConversationSummaryResponse {
@@ -118,6 +195,9 @@ export interface ConversationSummaryResponse {
   title: string
   last_message_at?: string
   model_id: string
+  is_pinned?: boolean
+  folder_id?: string | null
+  tags?: string[]
 }
 
 export interface ConversationDetailResponse {
@@ -125,11 +205,23 @@ export interface ConversationDetailResponse {
   title: string
   model_id: string
   system_prompt?: string
+  temperature?: number
+  max_tokens?: number
+  top_p?: number
+  stop_sequences?: string[]
+  model?: Model
   messages: {
     id: string
     role: 'user' | 'assistant' | 'system'
     content: string
+    reasoning?: string
+    reasoning_duration_ms?: number
     created_at: string
+    input_tokens?: number
+    output_tokens?: number
+    input_cost?: number
+    output_cost?: number
+    model_id?: string
     artifacts?: {
       id: string
       title: string
@@ -140,16 +232,149 @@ export interface ConversationDetailResponse {
   }[]
 }
 
-export interface StreamEvent {
-  type: 'message_start' | 'content_delta' | 'message_end' | 'message_cancelled' | 'info' | 'error'
-  data?: unknown
-  error?: string
-  message?: string
-  details?: string
-  status?: number
-  code?: string
+/**
+ * A message matching a search, with the text around the first hit
+ */
+export interface SearchMatch {
+  message_id: string
+  role: Message['role']
+  snippet: string
+  created_at: string
+}
+
+/**
+ * The search hits of one conversation. A conversation whose title matches
+ * may have no matching messages.
+ */
+export interface ConversationSearchResult {
+  conversation_id: string
+  title: string
+  last_message_at?: string
+  matches: SearchMatch[]
+}
+
+/**
+ * A public, read-only link to a conversation
+ *
+ * @property message_id - The last message of the branch that was shared
+ * @property hide_system_prompt - Whether the system prompt is left out for viewers
+ * @property include_later_messages - Whether messages sent after sharing are shown too
+ */
+export interface ConversationShare {
+  token: string
+  conversation_id: string
+  conversation_title: string
+  message_id?: string
+  hide_system_prompt: boolean
+  include_later_messages: boolean
+  created_at: string
+}
+
+export interface CreateShareRequest {
+  message_id?: string
+  hide_system_prompt: boolean
+  include_later_messages: boolean
+}
+
+/**
+ * A conversation as seen through a share link. The server leaves out the system
+ * prompt when it is hidden, and every message that isn't part of the share.
+ */
+export interface SharedConversation {
+  title: string
+  system_prompt?: string
+  model?: Model
+  shared_at: string
+  messages: Message[]
 }
 
+/**
+ * Payload of a `message_start` stream event: the ids of the messages being created
+ */
+export interface MessageStartData {
+  message_id?: string // The assistant message being streamed
+  user_message_id?: string // The user message it replies to
+}
+
+/**
+ * Payload of a `tool_call_start` stream event
+ */
+export interface ToolCallStartData {
+  id: string
+  tool_id: string
+  input: Record<string, unknown>
+  tool?: Tool
+}
+
+/**
+ * Payload of a `tool_call_delta` stream event: a chunk of the tool's output
+ */
+export interface ToolCallDeltaData {
+  id: string
+  delta: string
+}
+
+/**
+ * Payload of a `tool_call_result` stream event
+ */
+export interface ToolCallResultData {
+  id: string
+  status: Extract<ToolExecutionStatus, 'completed' | 'failed'>
+  output?: Record<string, unknown>
+  error_message?: string
+}
+
+/**
+ * Payload of an `artifact_start` stream event
+ */
+export interface ArtifactStartData {
+  id: string
+  type: Artifact['type']
+  title: string
+  language?: string
+}
+
+/**
+ * Payload of an `artifact_delta` stream event: a chunk of the artifact's content
+ */
+export interface ArtifactDeltaData {
+  id: string
+  delta: string
+}
+
+/**
+ * Payload of an `artifact_end` stream event. `content` is the complete artifact when sent.
+ */
+export interface ArtifactEndData {
+  id: string
+  content?: string
+}
+
+/**
+ * Events emitted while streaming an assistant response, discriminated by `type`.
+ * `id` is the SSE event id, used to resume an interrupted stream.
+ */
+export type StreamEvent = { id?: string } & (
+  | { type: 'message_start'; data?: MessageStartData }
+  | { type: 'content_delta'; data: string }
+  | { type: 'reasoning_delta'; data: string }
+  | { type: 'message_end'; data?: unknown; usage?: MessageUsage }
+  | { type: 'usage'; data: MessageUsage }
+  | { type: 'message_cancelled' }
+  | { type: 'info'; message: string }
+  | { type: 'error'; error: string; details?: string; status?: number; code?: string }
+  | { type: 'tool_call_start'; data: ToolCallStartData }
+  | { type: 'tool_call_delta'; data: ToolCallDeltaData }
+  | { type: 'tool_call_result'; data: ToolCallResultData }
+  | { type: 'artifact_start'; data: ArtifactStartData }
+  | { type: 'artifact_delta'; data: ArtifactDeltaData }
+  | { type: 'artifact_end'; data: ArtifactEndData }
+  // A frame that could not be decoded; the stream itself keeps going
+  | { type: 'frame_error'; error: string; details: string; code: string }
+)
+
+export type StreamEventType = StreamEvent['type']
+
 /**
  * Interface for managing message editing sessions
  */
@@ -19,6 +19,18 @@ const sidebarNavItems = [
     title: 'Model Providers',
     href: '/settings/model-providers',
   },
+  {
+    title: 'Prompt Templates',
+    href: '/settings/templates',
+  },
+  {
+    title: 'Import',
+    href: '/settings/import',
+  },
+  {
+    title: 'Shared Links',
+    href: '/settings/shares',
+  },
 ]
 
 export function SettingsSidebarNav() {
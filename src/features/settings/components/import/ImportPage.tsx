@@ -0,0 +1,317 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import Link from 'next/link'
+import { toast } from 'sonner'
+import { AlertTriangle, CheckCircle2, FileUp, GitBranch, Loader2, X } from 'lucide-react'
+import { Button } from '@/shared/ui/button'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/shared/ui/card'
+import { Badge } from '@/shared/ui/badge'
+import { Checkbox } from '@/shared/ui/checkbox'
+import { cn } from '@/shared/lib/utils'
+import { useDefaultModel } from '@/features/chat/hooks/use-selected-model'
+import {
+  useConversationImport,
+  type ImportReport,
+} from '@/features/chat/hooks/use-conversation-import'
+import {
+  IMPORT_SOURCES,
+  parseImportFile,
+  type ParsedImport,
+} from '@/features/chat/lib/conversation-import'
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`
+
+const ImportPage = () => {
+  const { defaultModel } = useDefaultModel()
+  const { importConversations, cancelImport, progress, isImporting } = useConversationImport()
+  const [parsed, setParsed] = useState<ParsedImport | null>(null)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [report, setReport] = useState<ImportReport | null>(null)
+  const [isParsing, setIsParsing] = useState(false)
+  const [isDragging, setIsDragging] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const conversations = parsed?.conversations ?? []
+  const allSelected = conversations.length > 0 && selectedIds.size === conversations.length
+
+  const readFile = async (file: File) => {
+    setIsParsing(true)
+    setReport(null)
+
+    try {
+      const result = await parseImportFile(file)
+      setParsed(result)
+      setSelectedIds(new Set(result.conversations.map(conversation => conversation.sourceId)))
+    } catch (error) {
+      setParsed(null)
+      toast.error('Failed to read export file', {
+        description: error instanceof Error ? error.message : undefined,
+      })
+    } finally {
+      setIsParsing(false)
+    }
+  }
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (file) readFile(file)
+  }
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault()
+    setIsDragging(false)
+    const file = e.dataTransfer.files[0]
+    if (file && !isImporting) readFile(file)
+  }
+
+  const toggleConversation = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
+  const toggleAll = () => {
+    setSelectedIds(
+      allSelected ? new Set() : new Set(conversations.map(conversation => conversation.sourceId))
+    )
+  }
+
+  const handleImport = async () => {
+    const selected = conversations.filter(conversation => selectedIds.has(conversation.sourceId))
+    const result = await importConversations(
+      selected,
+      defaultModel ? `${defaultModel.provider_name}/${defaultModel.name}` : undefined
+    )
+    setReport(result)
+    setParsed(null)
+    setSelectedIds(new Set())
+  }
+
+  const skippedConversations = parsed?.skipped ?? []
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="space-y-2">
+        <h1 className="text-2xl font-bold text-foreground">Import Conversations</h1>
+        <p className="text-muted-foreground">
+          Bring your history from ChatGPT or Claude. Files are read in your browser, and only the
+          conversations you pick are uploaded.
+        </p>
+      </div>
+
+      {/* File picker */}
+      <div
+        onDragOver={e => {
+          e.preventDefault()
+          setIsDragging(true)
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={cn(
+          'flex flex-col items-center gap-3 rounded-lg border-2 border-dashed p-8 text-center transition-colors',
+          isDragging && 'border-primary bg-primary/5'
+        )}
+      >
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.zip,application/json,application/zip"
+          onChange={handleFileChange}
+          className="hidden"
+          tabIndex={-1}
+          aria-hidden="true"
+        />
+        {isParsing ? (
+          <Loader2 className="size-8 animate-spin text-muted-foreground" />
+        ) : (
+          <FileUp className="size-8 text-muted-foreground" />
+        )}
+        <div className="space-y-1">
+          <p className="font-medium text-foreground">
+            {isParsing ? 'Reading export...' : 'Drop an export file here'}
+          </p>
+          <p className="text-sm text-muted-foreground">
+            ChatGPT conversations.json, or the .zip archive exported from ChatGPT or Claude
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isParsing || isImporting}
+        >
+          Choose File
+        </Button>
+      </div>
+
+      {/* Progress */}
+      {progress && (
+        <Card>
+          <CardContent className="space-y-3">
+            <div className="flex items-center justify-between gap-4 text-sm">
+              <span>
+                Importing conversation {Math.min(progress.done + 1, progress.total)} of{' '}
+                {progress.total}...
+              </span>
+              <Button variant="ghost" size="sm" onClick={cancelImport}>
+                <X className="size-4" />
+                Stop
+              </Button>
+            </div>
+            <div
+              className="h-2 overflow-hidden rounded-full bg-muted"
+              role="progressbar"
+              aria-valuemin={0}
+              aria-valuemax={progress.total}
+              aria-valuenow={progress.done}
+            >
+              <div
+                className="h-full bg-primary transition-all"
+                style={{ width: `${(progress.done / progress.total) * 100}%` }}
+              />
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Report */}
+      {report && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CheckCircle2 className="size-5 text-green-600" />
+              Imported {plural(report.imported.length, 'conversation')}
+              {report.cancelled && ' before stopping'}
+            </CardTitle>
+            {(report.skippedMessages > 0 || report.skippedFiles > 0) && (
+              <CardDescription>
+                Left out {plural(report.skippedMessages, 'message')} without text (tool calls,
+                hidden messages) and {plural(report.skippedFiles, 'file')} whose contents
+                aren&apos;t in the export.
+              </CardDescription>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {report.imported.length > 0 && (
+              <ul className="space-y-1 text-sm">
+                {report.imported.map(conversation => (
+                  <li key={conversation.id}>
+                    <Link href={`/chat/${conversation.id}`} className="hover:underline">
+                      {conversation.title}
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {report.failed.length > 0 && (
+              <div className="space-y-1">
+                <p className="flex items-center gap-2 text-sm font-medium text-destructive">
+                  <AlertTriangle className="size-4" />
+                  {plural(report.failed.length, 'conversation')} failed to upload
+                </p>
+                <ul className="space-y-1 text-sm text-muted-foreground">
+                  {report.failed.map((failure, index) => (
+                    <li key={index}>
+                      {failure.title}: {failure.reason}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Preview */}
+      {parsed && (
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              {plural(conversations.length, 'conversation')} from {IMPORT_SOURCES[parsed.source]}
+            </CardTitle>
+            <CardDescription>
+              {defaultModel
+                ? `New conversations will use ${defaultModel.display_name}.`
+                : 'New conversations will use the default model.'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {conversations.length > 0 && (
+              <>
+                <div className="flex items-center justify-between gap-4">
+                  <label className="flex items-center gap-2 text-sm">
+                    <Checkbox checked={allSelected} onCheckedChange={toggleAll} />
+                    Select all
+                  </label>
+                  <Button onClick={handleImport} disabled={selectedIds.size === 0 || isImporting}>
+                    Import {plural(selectedIds.size, 'conversation')}
+                  </Button>
+                </div>
+                <ul className="max-h-96 divide-y overflow-y-auto rounded-md border">
+                  {conversations.map(conversation => (
+                    <li key={conversation.sourceId}>
+                      <label className="flex cursor-pointer items-center gap-3 px-3 py-2 hover:bg-accent">
+                        <Checkbox
+                          checked={selectedIds.has(conversation.sourceId)}
+                          onCheckedChange={() => toggleConversation(conversation.sourceId)}
+                          disabled={isImporting}
+                        />
+                        <div className="min-w-0 flex-1">
+                          <p className="truncate text-sm font-medium">
+                            {conversation.conversation.title}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {conversation.created_at &&
+                              `${new Date(conversation.created_at).toLocaleDateString()} · `}
+                            {plural(conversation.messages.length, 'message')}
+                          </p>
+                        </div>
+                        {conversation.branchCount > 1 && (
+                          <Badge variant="secondary" className="gap-1 text-xs">
+                            <GitBranch className="size-3" />
+                            {conversation.branchCount} branches
+                          </Badge>
+                        )}
+                        {conversation.conversation.system_prompt && (
+                          <Badge variant="outline" className="text-xs">
+                            System prompt
+                          </Badge>
+                        )}
+                      </label>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+
+            {skippedConversations.length > 0 && (
+              <details className="text-sm">
+                <summary className="cursor-pointer text-muted-foreground">
+                  {plural(skippedConversations.length, 'conversation')} can&apos;t be imported
+                </summary>
+                <ul className="mt-2 space-y-1 text-muted-foreground">
+                  {skippedConversations.map((skipped, index) => (
+                    <li key={index}>
+                      {skipped.title}: {skipped.reason}
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
+
+export default ImportPage
@@ -0,0 +1 @@
+export { default as ImportPage } from './ImportPage'
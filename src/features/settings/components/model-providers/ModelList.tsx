@@ -2,6 +2,7 @@
 
 import { Avatar, AvatarFallback, AvatarImage } from '@/shared/ui/avatar'
 import { Badge } from '@/shared/ui/badge'
+import { formatModelDetails } from '@/features/chat/lib/usage-utils'
 import type { Model } from '@/features/settings/types/types'
 
 interface ModelListProps {
@@ -24,7 +25,9 @@ const ModelList = ({ models, providerIcon }: ModelListProps) => {
             </Avatar>
             <div>
               <p className="font-medium text-sm text-foreground">{model.display_name}</p>
-              <p className="text-xs text-muted-foreground">{model.name}</p>
+              <p className="text-xs text-muted-foreground">
+                {[model.name, formatModelDetails(model)].filter(Boolean).join(' · ')}
+              </p>
             </div>
           </div>
 
@@ -7,6 +7,7 @@ import { Badge } from '@/shared/ui/badge'
 import { Search, Settings } from 'lucide-react'
 import ModelCard from './ModelCard'
 import { useProviders } from '@/features/chat/hooks/use-providers'
+import { ModelSelector } from '@/features/chat/components/chat'
 import type {
   ProviderResponse,
   UserProviderSettingResponse,
@@ -16,7 +17,8 @@ import { Input } from '@/shared/ui/input'
 import { Skeleton } from '@/shared/ui/skeleton'
 
 const ModelProvidersPage = () => {
-  const { providers, userSettings, loading, error, refetch } = useProviders()
+  const { providers, userSettings, providerModels, configuredModels, loading, error, refetch } =
+    useProviders()
   const [searchQuery, setSearchQuery] = useState('')
 
   // Filter providers based on search query - React 19 compiler optimizes this
@@ -32,7 +34,7 @@ const ModelProvidersPage = () => {
   const getCombinedProviderData = (provider: ProviderResponse) => {
     const userSetting = userSettings.find(setting => setting.provider_id === provider.id)
     return {
-      provider,
+      provider: { ...provider, models: providerModels[provider.id] ?? [] },
       userSetting,
     }
   }
@@ -85,6 +87,21 @@ const ModelProvidersPage = () => {
         </p>
       </div>
 
+      {/* Default model, once a provider is set up */}
+      {configuredModels.length > 0 && (
+        <Card>
+          <CardContent className="flex flex-wrap items-center justify-between gap-4">
+            <div className="space-y-1">
+              <p className="font-medium">Default model</p>
+              <p className="text-sm text-muted-foreground">
+                New conversations start with this model. Each conversation keeps its own after that.
+              </p>
+            </div>
+            <ModelSelector className="min-w-[220px]" />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Search */}
       <div className="relative">
         <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 size-4 text-muted-foreground" />
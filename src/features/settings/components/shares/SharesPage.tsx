@@ -0,0 +1,168 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { toast } from 'sonner'
+import { AlertCircle, Copy, ExternalLink, Loader2, Trash2 } from 'lucide-react'
+import { Button } from '@/shared/ui/button'
+import { Card, CardContent } from '@/shared/ui/card'
+import { Badge } from '@/shared/ui/badge'
+import { Alert, AlertDescription } from '@/shared/ui/alert'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/shared/ui/alert-dialog'
+import { useConversationShares, useRevokeShare } from '@/features/chat/queries/useConversation'
+import { copyShareUrl, getShareUrl } from '@/features/chat/lib/share-utils'
+import type { ConversationShare } from '@/features/chat/types/conversation'
+
+const SharesPage = () => {
+  const { data: shares = [], isLoading, isError, refetch } = useConversationShares()
+  const revokeShare = useRevokeShare()
+  const [revokingShare, setRevokingShare] = useState<ConversationShare | null>(null)
+
+  const handleCopy = async (share: ConversationShare) => {
+    if (await copyShareUrl(share.token)) {
+      toast.success('Link copied to clipboard')
+    } else {
+      toast.error('Failed to copy link')
+    }
+  }
+
+  const handleConfirmRevoke = () => {
+    if (!revokingShare) return
+
+    revokeShare.mutate(revokingShare.token, {
+      onSuccess: () => toast.success('Share link revoked'),
+    })
+    setRevokingShare(null)
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="space-y-2">
+        <h1 className="text-2xl font-bold text-foreground">Shared Links</h1>
+        <p className="text-muted-foreground">
+          Anyone with one of these links can read the conversation. Revoke a link to stop sharing.
+        </p>
+      </div>
+
+      {/* Link List */}
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12 text-sm text-muted-foreground">
+          <Loader2 className="size-4 animate-spin mr-2" />
+          Loading shared links...
+        </div>
+      ) : isError ? (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription className="flex items-center justify-between">
+            <span>Failed to load shared links</span>
+            <Button variant="outline" size="sm" onClick={() => refetch()} className="ml-2">
+              Retry
+            </Button>
+          </AlertDescription>
+        </Alert>
+      ) : shares.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-muted-foreground mb-2">No shared links</p>
+          <p className="text-sm text-muted-foreground">
+            Use the share button in a conversation&apos;s header to create one.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {shares.map(share => (
+            <Card key={share.token}>
+              <CardContent className="flex items-start justify-between gap-4">
+                <div className="min-w-0 space-y-2">
+                  <Link
+                    href={`/chat/${share.conversation_id}`}
+                    className="block truncate font-medium text-foreground hover:underline"
+                  >
+                    {share.conversation_title}
+                  </Link>
+                  <p className="truncate text-sm text-muted-foreground">
+                    {getShareUrl(share.token)}
+                  </p>
+                  <div className="flex flex-wrap items-center gap-1">
+                    <Badge variant="secondary" className="text-xs">
+                      {share.include_later_messages ? 'Includes later messages' : 'Snapshot'}
+                    </Badge>
+                    {share.hide_system_prompt && (
+                      <Badge variant="secondary" className="text-xs">
+                        System prompt hidden
+                      </Badge>
+                    )}
+                    <span className="text-xs text-muted-foreground">
+                      Created {new Date(share.created_at).toLocaleDateString()}
+                    </span>
+                  </div>
+                </div>
+                <div className="flex shrink-0 items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="size-8"
+                    onClick={() => handleCopy(share)}
+                    aria-label={`Copy link to ${share.conversation_title}`}
+                  >
+                    <Copy className="size-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="size-8" asChild>
+                    <a
+                      href={getShareUrl(share.token)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      aria-label={`Open link to ${share.conversation_title}`}
+                    >
+                      <ExternalLink className="size-4" />
+                    </a>
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="size-8 text-destructive hover:text-destructive"
+                    onClick={() => setRevokingShare(share)}
+                    disabled={revokeShare.isPending}
+                    aria-label={`Revoke link to ${share.conversation_title}`}
+                  >
+                    <Trash2 className="size-4" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* Revoke Confirmation Dialog */}
+      <AlertDialog open={!!revokingShare} onOpenChange={open => !open && setRevokingShare(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke Link</AlertDialogTitle>
+            <AlertDialogDescription>
+              The link to &quot;{revokingShare?.conversation_title}&quot; will stop working for
+              everyone who has it. The conversation itself is kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmRevoke} className="bg-destructive">
+              Revoke
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
+
+export default SharesPage
@@ -0,0 +1 @@
+export { default as SharesPage } from './SharesPage'
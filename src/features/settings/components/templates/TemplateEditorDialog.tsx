@@ -0,0 +1,133 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/shared/ui/button'
+import { Input } from '@/shared/ui/input'
+import { Label } from '@/shared/ui/label'
+import { Textarea } from '@/shared/ui/textarea'
+import { Badge } from '@/shared/ui/badge'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/shared/ui/dialog'
+import {
+  getTemplateVariables,
+  type PromptTemplate,
+  type PromptTemplateInput,
+} from '@/features/chat/lib/prompt-templates'
+
+interface TemplateEditorDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  template?: PromptTemplate | null
+  onSave: (input: PromptTemplateInput) => void
+}
+
+/**
+ * Dialog for creating or editing a prompt template
+ */
+const TemplateEditorDialog = ({
+  open,
+  onOpenChange,
+  template,
+  onSave,
+}: TemplateEditorDialogProps) => {
+  const [name, setName] = useState('')
+  const [content, setContent] = useState('')
+  const [tags, setTags] = useState('')
+
+  // Load the template being edited each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setName(template?.name ?? '')
+      setContent(template?.content ?? '')
+      setTags(template?.tags.join(', ') ?? '')
+    }
+  }, [open, template])
+
+  const variables = getTemplateVariables(content)
+  const canSave = name.trim() !== '' && content.trim() !== ''
+
+  const handleSave = () => {
+    if (!canSave) return
+
+    onSave({ name, content, tags: tags.split(',') })
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{template ? 'Edit Template' : 'New Template'}</DialogTitle>
+          <DialogDescription>
+            Use {'{{variable}}'} placeholders for the parts that change each time.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="templateName">
+              Name <span className="text-destructive">*</span>
+            </Label>
+            <Input
+              id="templateName"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              placeholder="Earnings summary"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="templateContent">
+              Prompt <span className="text-destructive">*</span>
+            </Label>
+            <Textarea
+              id="templateContent"
+              value={content}
+              onChange={e => setContent(e.target.value)}
+              placeholder="Summarize {{ticker}} earnings for {{quarter}}"
+              className="min-h-32"
+            />
+            {variables.length > 0 && (
+              <div className="flex flex-wrap items-center gap-1.5">
+                <span className="text-xs text-muted-foreground">Variables:</span>
+                {variables.map(variable => (
+                  <Badge key={variable} variant="secondary" className="font-mono text-xs">
+                    {variable}
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="templateTags">Tags</Label>
+            <Input
+              id="templateTags"
+              value={tags}
+              onChange={e => setTags(e.target.value)}
+              placeholder="finance, reports"
+            />
+            <p className="text-xs text-muted-foreground">Separate tags with commas.</p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave}>
+            {template ? 'Save Changes' : 'Create Template'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default TemplateEditorDialog
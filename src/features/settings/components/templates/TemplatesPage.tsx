@@ -0,0 +1,273 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import { toast } from 'sonner'
+import { Download, Pencil, Plus, Search, Trash2, Upload } from 'lucide-react'
+import { Button } from '@/shared/ui/button'
+import { Card, CardContent } from '@/shared/ui/card'
+import { Badge } from '@/shared/ui/badge'
+import { Input } from '@/shared/ui/input'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/shared/ui/alert-dialog'
+import { cn } from '@/shared/lib/utils'
+import { usePromptTemplates } from '@/features/chat/hooks/use-prompt-templates'
+import { downloadFile } from '@/features/chat/lib/export-utils'
+import {
+  parseTemplateImport,
+  serializeTemplates,
+  type PromptTemplate,
+} from '@/features/chat/lib/prompt-templates'
+import TemplateEditorDialog from './TemplateEditorDialog'
+
+const TemplatesPage = () => {
+  const { templates, tags, createTemplate, updateTemplate, deleteTemplate, importTemplates } =
+    usePromptTemplates()
+  const [searchQuery, setSearchQuery] = useState('')
+  const [selectedTags, setSelectedTags] = useState<string[]>([])
+  const [editorOpen, setEditorOpen] = useState(false)
+  const [editingTemplate, setEditingTemplate] = useState<PromptTemplate | null>(null)
+  const [deletingTemplate, setDeletingTemplate] = useState<PromptTemplate | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  // Match the search against name and prompt, and require every selected tag
+  const filteredTemplates = templates.filter(template => {
+    const query = searchQuery.toLowerCase()
+    const matchesSearch =
+      !query ||
+      template.name.toLowerCase().includes(query) ||
+      template.content.toLowerCase().includes(query)
+    const matchesTags = selectedTags.every(tag => template.tags.includes(tag))
+    return matchesSearch && matchesTags
+  })
+
+  const toggleTag = (tag: string) => {
+    setSelectedTags(prev => (prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]))
+  }
+
+  const openEditor = (template: PromptTemplate | null) => {
+    setEditingTemplate(template)
+    setEditorOpen(true)
+  }
+
+  const handleSave = (input: Parameters<typeof createTemplate>[0]) => {
+    if (editingTemplate) {
+      updateTemplate(editingTemplate.id, input)
+      toast.success('Template updated')
+    } else {
+      createTemplate(input)
+      toast.success('Template created')
+    }
+  }
+
+  const handleConfirmDelete = () => {
+    if (!deletingTemplate) return
+
+    deleteTemplate(deletingTemplate.id)
+    setDeletingTemplate(null)
+    toast.success('Template deleted')
+  }
+
+  const handleExport = () => {
+    downloadFile(serializeTemplates(templates), 'prompt-templates.json', 'application/json')
+  }
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    try {
+      const { added, skipped } = importTemplates(parseTemplateImport(await file.text()))
+      toast.success(`Imported ${added} template${added === 1 ? '' : 's'}`, {
+        description: skipped > 0 ? `${skipped} already in your library were skipped.` : undefined,
+      })
+    } catch (error) {
+      toast.error('Failed to import templates', {
+        description: error instanceof Error ? error.message : undefined,
+      })
+    }
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div className="space-y-2">
+          <h1 className="text-2xl font-bold text-foreground">Prompt Templates</h1>
+          <p className="text-muted-foreground">
+            Save prompts you reuse, with {'{{variable}}'} placeholders filled in when inserted.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleImport}
+            className="hidden"
+            tabIndex={-1}
+            aria-hidden="true"
+          />
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="size-4" />
+            Import
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleExport}
+            disabled={templates.length === 0}
+          >
+            <Download className="size-4" />
+            Export
+          </Button>
+          <Button size="sm" onClick={() => openEditor(null)}>
+            <Plus className="size-4" />
+            New Template
+          </Button>
+        </div>
+      </div>
+
+      {/* Search and tag filters */}
+      <div className="space-y-3">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 size-4 text-muted-foreground" />
+          <Input
+            placeholder="Search templates..."
+            value={searchQuery}
+            onChange={e => setSearchQuery(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+        {tags.length > 0 && (
+          <div className="flex flex-wrap gap-1.5" aria-label="Filter by tag">
+            {tags.map(tag => {
+              const isSelected = selectedTags.includes(tag)
+
+              return (
+                <button
+                  key={tag}
+                  type="button"
+                  onClick={() => toggleTag(tag)}
+                  aria-pressed={isSelected}
+                >
+                  <Badge
+                    variant={isSelected ? 'default' : 'outline'}
+                    className={cn('cursor-pointer', !isSelected && 'hover:bg-accent')}
+                  >
+                    {tag}
+                  </Badge>
+                </button>
+              )
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Template List */}
+      {templates.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-muted-foreground mb-4">No templates yet</p>
+          <Button variant="outline" onClick={() => openEditor(null)}>
+            Create your first template
+          </Button>
+        </div>
+      ) : filteredTemplates.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-muted-foreground mb-4">No templates found</p>
+          <Button
+            variant="outline"
+            onClick={() => {
+              setSearchQuery('')
+              setSelectedTags([])
+            }}
+          >
+            Show all templates
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {filteredTemplates.map(template => (
+            <Card key={template.id}>
+              <CardContent className="flex items-start justify-between gap-4">
+                <div className="min-w-0 space-y-2">
+                  <h3 className="font-medium text-foreground">{template.name}</h3>
+                  <p className="line-clamp-2 whitespace-pre-wrap text-sm text-muted-foreground">
+                    {template.content}
+                  </p>
+                  {template.tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {template.tags.map(tag => (
+                        <Badge key={tag} variant="secondary" className="text-xs">
+                          {tag}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <div className="flex shrink-0 items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="size-8"
+                    onClick={() => openEditor(template)}
+                    aria-label={`Edit ${template.name}`}
+                  >
+                    <Pencil className="size-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="size-8 text-destructive hover:text-destructive"
+                    onClick={() => setDeletingTemplate(template)}
+                    aria-label={`Delete ${template.name}`}
+                  >
+                    <Trash2 className="size-4" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <TemplateEditorDialog
+        open={editorOpen}
+        onOpenChange={setEditorOpen}
+        template={editingTemplate}
+        onSave={handleSave}
+      />
+
+      <AlertDialog
+        open={!!deletingTemplate}
+        onOpenChange={open => !open && setDeletingTemplate(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Template</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete &quot;{deletingTemplate?.name}&quot;? This action
+              cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmDelete} className="bg-destructive">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
+
+export default TemplatesPage
@@ -0,0 +1,2 @@
+export { default as TemplateEditorDialog } from './TemplateEditorDialog'
+export { default as TemplatesPage } from './TemplatesPage'
@@ -2,4 +2,7 @@
 export { SettingsSidebarNav } from './components/SettingsSidebarNav'
 export * from './components/model-providers'
 export * from './components/profile'
+export * from './components/templates'
+export * from './components/import'
+export * from './components/shares'
 export * from './types'
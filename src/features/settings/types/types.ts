@@ -1,10 +1,16 @@
 // Provider-related types
+// Token costs are in US dollars per token
 export interface Model {
   id: string
+  provider_id?: string
   name: string
   display_name: string
   is_active: boolean
   supports_vision?: boolean
+  context_window?: number
+  max_output_tokens?: number
+  input_token_cost?: number
+  output_token_cost?: number
   tags?: string[]
 }
 